@@ -91,4 +91,26 @@ export function isTemporaryNetworkError(error: any): boolean {
          temporaryStatus.includes(error.status) ||
          error.message?.includes('timeout') ||
          error.message?.includes('network');
-}
\ No newline at end of file
+}
+
+/**
+ * Creates the error used to unwind a job that was cancelled (Direct API / dashboard)
+ * @param jobId - The cancelled job
+ * @param reason - Optional human-readable reason
+ * @returns An error tagged with the JOB_CANCELLED marker
+ */
+export function createJobCancelledError(jobId: string, reason?: string): Error {
+  return new Error(`JOB_CANCELLED: Job ${jobId} was cancelled${reason ? ` (${reason})` : ''}`);
+}
+
+/**
+ * Determines if an error was raised because the job was cancelled
+ * @param error - The error to check
+ * @returns True if the error carries the JOB_CANCELLED marker
+ */
+export function isJobCancelledError(error: any): boolean {
+  if (!error) return false;
+
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes('JOB_CANCELLED');
+}
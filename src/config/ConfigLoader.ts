@@ -5,6 +5,43 @@ import { config } from 'dotenv';
 config({ path: '.env.local' }); // Load .env.local first (highest priority)
 config({ path: '.env' });       // Then .env (fallback)
 
+// One rung of the HLS encoding ladder
+const EncodingRungSchema = z.object({
+  name: z.string(),                 // Output folder / playlist name, e.g. "720p"
+  width: z.number().int().positive(),  // Nominal 16:9 width (direct-job profiles, master playlist)
+  height: z.number().int().positive(),
+  bitrate: z.string(),              // Target video bitrate, e.g. "2800k"
+  maxrate: z.string(),
+  bufsize: z.string(),
+  audio_bitrate: z.string(),
+  h264_profile: z.enum(['baseline', 'main', 'high']),
+  h264_level: z.string(),           // e.g. "4.1"
+  max_fps: z.number().positive().optional() // Frame rate cap; unset = 60 from 720p up, 30 below
+});
+
+export type EncodingRung = z.infer<typeof EncodingRungSchema>;
+
+/**
+ * 🎬 Built-in rungs selectable by name via ENCODING_LADDER / SHORT_ENCODING_LADDER
+ * 1080p/720p/480p keep Eddie's original settings
+ */
+export const ENCODING_RUNGS: Record<string, EncodingRung> = {
+  '2160p': { name: '2160p', width: 3840, height: 2160, bitrate: '16000k', maxrate: '17120k', bufsize: '24000k', audio_bitrate: '192k', h264_profile: 'high', h264_level: '5.1' },
+  '1440p': { name: '1440p', width: 2560, height: 1440, bitrate: '9000k', maxrate: '9630k', bufsize: '13500k', audio_bitrate: '160k', h264_profile: 'high', h264_level: '5.0' },
+  '1080p': { name: '1080p', width: 1920, height: 1080, bitrate: '5000k', maxrate: '5350k', bufsize: '7500k', audio_bitrate: '128k', h264_profile: 'high', h264_level: '4.1' },
+  '720p': { name: '720p', width: 1280, height: 720, bitrate: '2800k', maxrate: '2996k', bufsize: '4200k', audio_bitrate: '128k', h264_profile: 'high', h264_level: '4.0' },
+  '480p': { name: '480p', width: 854, height: 480, bitrate: '1400k', maxrate: '1498k', bufsize: '2100k', audio_bitrate: '96k', h264_profile: 'main', h264_level: '3.1' },
+  '360p': { name: '360p', width: 640, height: 360, bitrate: '800k', maxrate: '856k', bufsize: '1200k', audio_bitrate: '96k', h264_profile: 'main', h264_level: '3.0' },
+  '240p': { name: '240p', width: 426, height: 240, bitrate: '400k', maxrate: '428k', bufsize: '600k', audio_bitrate: '64k', h264_profile: 'baseline', h264_level: '2.1' }
+};
+
+// Opt-in renditions encoded next to the H.264 ladder
+const ExtraCodecSchema = z.enum(['hevc', 'av1']);
+export type ExtraCodec = z.infer<typeof ExtraCodecSchema>;
+
+const DEFAULT_LADDER = ['1080p', '720p', '480p'];
+const DEFAULT_SHORT_LADDER = ['480p'];
+
 // Configuration schema validation
 const ConfigSchema = z.object({
   node: z.object({
@@ -38,7 +75,28 @@ const ConfigSchema = z.object({
     temp_dir: z.string().optional(),
     ffmpeg_path: z.string().optional(),
     hardware_acceleration: z.boolean().default(true),
-    max_concurrent_jobs: z.number().default(1)
+    max_concurrent_jobs: z.number().default(1),
+    persist_queue: z.boolean().default(true), // Keep job queue in SQLite across restarts
+    queue_db_path: z.string().optional(),
+    source_cache_gb: z.number().min(0).default(0), // Disk quota for downloaded sources kept by CID in temp_dir (0 = off)
+    ladder: z.array(EncodingRungSchema).min(1).default(DEFAULT_LADDER.map(name => ENCODING_RUNGS[name]!)),
+    short_ladder: z.array(EncodingRungSchema).min(1).default(DEFAULT_SHORT_LADDER.map(name => ENCODING_RUNGS[name]!)),
+    single_pass: z.boolean().default(true), // Encode all rungs in one ffmpeg invocation (decode source once)
+    segment_format: z.enum(['ts', 'fmp4']).default('ts'), // HLS segments: MPEG-TS or fragmented MP4 (CMAF)
+    dash: z.boolean().default(false), // Also write a DASH manifest.mpd (forces fMP4 segments)
+    extra_codecs: z.array(ExtraCodecSchema).default([]), // HEVC (libx265) / AV1 (libsvtav1) renditions on top of H.264
+    thumbnails: z.boolean().default(false), // Poster + sprite sheets + WebVTT thumbnail track in the output
+    preview_clip: z.boolean().default(false), // Muted MP4/WebP hover preview from the most active section
+    preview_clip_duration: z.number().min(3).max(6).default(4),
+    loudnorm: z.boolean().default(false), // Two-pass EBU R128 loudness normalization of every rendition
+    loudnorm_target: z.number().min(-70).max(-5).default(-16), // Integrated loudness target (LUFS)
+    audio_ladder: z.array(z.string().regex(/^\d+k$/)).min(1).default(['128k', '64k']), // AAC HLS ladder for audio-only jobs, highest first
+    audio_download_format: z.enum(['m4a', 'mp3']).default('m4a'), // Single downloadable file for audio-only jobs
+    hdr10_rendition: z.boolean().default(false), // Keep an HEVC HDR10 top rung next to the tone-mapped SDR ladder (PQ sources)
+    quality_metrics: z.boolean().default(false), // SSIM/PSNR (+VMAF with libvmaf) per rendition on sampled segments
+    quality_floor_vmaf: z.number().min(0).max(100).default(80), // Renditions scoring below are flagged
+    quality_floor_ssim: z.number().min(0).max(1).default(0.95), // Floor used when libvmaf is missing
+    per_title: z.boolean().default(false) // Scale rung bitrates/CRF to the source's complexity (fast probe encode)
   }).optional(),
   direct_api: z.object({
     enabled: z.boolean().default(false),
@@ -63,6 +121,49 @@ const ConfigSchema = z.object({
 
 export type EncoderConfig = z.infer<typeof ConfigSchema>;
 
+/**
+ * Resolve a ladder from env: a JSON array of rungs wins, otherwise a
+ * comma-separated list of built-in rung names (e.g. "1440p,1080p,720p,480p")
+ */
+function parseLadder(names: string | undefined, json: string | undefined, fallback: string[]): EncodingRung[] {
+  if (json) {
+    try {
+      return JSON.parse(json);
+    } catch (error) {
+      throw new Error(`ENCODING_LADDER_JSON is not valid JSON: ${error}`);
+    }
+  }
+
+  const selected = names ? names.split(',').map(name => name.trim()).filter(Boolean) : fallback;
+  return selected.map(name => {
+    const rung = ENCODING_RUNGS[name];
+    if (!rung) {
+      throw new Error(`Unknown encoding rung "${name}" (available: ${Object.keys(ENCODING_RUNGS).join(', ')})`);
+    }
+    return rung;
+  });
+}
+
+function parseExtraCodecs(value: string | undefined): ExtraCodec[] {
+  if (!value) return [];
+  return value.split(',').map(name => name.trim().toLowerCase()).filter(Boolean).map(name => {
+    const parsed = ExtraCodecSchema.safeParse(name);
+    if (!parsed.success) {
+      throw new Error(`Unknown extra codec "${name}" (available: ${ExtraCodecSchema.options.join(', ')})`);
+    }
+    return parsed.data;
+  });
+}
+
+/**
+ * Rungs to encode for a job, highest first
+ */
+export function getEncodingLadder(config: EncoderConfig, isShortVideo: boolean = false): EncodingRung[] {
+  const configured = isShortVideo ? config.encoder?.short_ladder : config.encoder?.ladder;
+  const ladder = configured ?? (isShortVideo ? DEFAULT_SHORT_LADDER : DEFAULT_LADDER).map(name => ENCODING_RUNGS[name]!);
+  return [...ladder].sort((a, b) => b.height - a.height);
+}
+
 export async function loadConfig(): Promise<EncoderConfig> {
   try {
     // Build configuration from environment variables
@@ -98,7 +199,28 @@ export async function loadConfig(): Promise<EncoderConfig> {
         temp_dir: process.env.TEMP_DIR,
         ffmpeg_path: process.env.FFMPEG_PATH,
         hardware_acceleration: process.env.HARDWARE_ACCELERATION !== 'false',
-        max_concurrent_jobs: parseInt(process.env.MAX_CONCURRENT_JOBS || '1')
+        max_concurrent_jobs: parseInt(process.env.MAX_CONCURRENT_JOBS || '1'),
+        persist_queue: process.env.PERSIST_JOB_QUEUE !== 'false',
+        queue_db_path: process.env.JOB_QUEUE_DB_PATH,
+        source_cache_gb: parseFloat(process.env.SOURCE_CACHE_GB || '0'),
+        ladder: parseLadder(process.env.ENCODING_LADDER, process.env.ENCODING_LADDER_JSON, DEFAULT_LADDER),
+        short_ladder: parseLadder(process.env.SHORT_ENCODING_LADDER, undefined, DEFAULT_SHORT_LADDER),
+        single_pass: process.env.SINGLE_PASS_ENCODING !== 'false',
+        segment_format: process.env.HLS_SEGMENT_FORMAT === 'fmp4' ? 'fmp4' : 'ts',
+        dash: process.env.DASH_MANIFEST === 'true',
+        extra_codecs: parseExtraCodecs(process.env.EXTRA_CODECS),
+        thumbnails: process.env.GENERATE_THUMBNAILS === 'true',
+        preview_clip: process.env.GENERATE_PREVIEW_CLIP === 'true',
+        preview_clip_duration: parseFloat(process.env.PREVIEW_CLIP_DURATION || '4'),
+        loudnorm: process.env.LOUDNORM === 'true',
+        loudnorm_target: parseFloat(process.env.LOUDNORM_TARGET_LUFS || '-16'),
+        audio_ladder: (process.env.AUDIO_LADDER || '128k,64k').split(',').map(bitrate => bitrate.trim().toLowerCase()).filter(Boolean),
+        audio_download_format: process.env.AUDIO_DOWNLOAD_FORMAT === 'mp3' ? 'mp3' : 'm4a',
+        hdr10_rendition: process.env.KEEP_HDR10_RENDITION === 'true',
+        quality_metrics: process.env.QUALITY_METRICS === 'true',
+        quality_floor_vmaf: parseFloat(process.env.QUALITY_FLOOR_VMAF || '80'),
+        quality_floor_ssim: parseFloat(process.env.QUALITY_FLOOR_SSIM || '0.95'),
+        per_title: process.env.PER_TITLE_ENCODING === 'true'
       },
       direct_api: {
         enabled: process.env.DIRECT_API_ENABLED === 'true',
@@ -157,7 +279,27 @@ export function getDefaultConfig(): Partial<EncoderConfig> {
     },
     encoder: {
         hardware_acceleration: true,
-        max_concurrent_jobs: 1
+        max_concurrent_jobs: 1,
+        persist_queue: true,
+        source_cache_gb: 0,
+        ladder: DEFAULT_LADDER.map(name => ENCODING_RUNGS[name]!),
+        short_ladder: DEFAULT_SHORT_LADDER.map(name => ENCODING_RUNGS[name]!),
+        single_pass: true,
+        segment_format: 'ts',
+        dash: false,
+        extra_codecs: [],
+        thumbnails: false,
+        preview_clip: false,
+        preview_clip_duration: 4,
+        loudnorm: false,
+        loudnorm_target: -16,
+        audio_ladder: ['128k', '64k'],
+        audio_download_format: 'm4a',
+        hdr10_rendition: false,
+        quality_metrics: false,
+        quality_floor_vmaf: 80,
+        quality_floor_ssim: 0.95,
+        per_title: false
       },
       direct_api: {
         enabled: false,
@@ -105,6 +105,28 @@ export class DashboardService {
       }
     });
 
+    // Cancel a queued or running job
+    this.app.post('/api/cancel-job/:jobId', express.json(), async (req, res) => {
+      const jobId = req.params.jobId;
+      try {
+        if (this.encoder) {
+          const result = await this.encoder.cancelJob(jobId, req.body?.reason || 'Cancelled from dashboard');
+          if (result === 'not_found') {
+            res.status(404).json({ error: `Job ${jobId} not found` });
+          } else if (result === 'already_finished') {
+            res.status(409).json({ error: `Job ${jobId} has already finished` });
+          } else {
+            res.json({ success: true, message: `Job ${jobId} cancelled`, result });
+          }
+        } else {
+          res.status(503).json({ error: 'Encoder not available' });
+        }
+      } catch (error) {
+        logger.error('Failed to cancel job:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    });
+
     // Retry failed job endpoint
     this.app.post('/api/retry-job/:jobId', express.json(), async (req, res) => {
       const jobId = req.params.jobId;
@@ -696,6 +718,27 @@ export class DashboardService {
     }
   }
 
+  cancelJob(jobId: string, reason: string): void {
+    const job = this.activeJobs.get(jobId);
+    if (job) {
+      job.status = 'cancelled';
+      job.error = reason;
+      job.endTime = new Date().toISOString();
+      
+      // Move to history
+      this.jobHistory.unshift(job);
+      if (this.jobHistory.length > 50) {
+        this.jobHistory = this.jobHistory.slice(0, 50);
+      }
+      
+      this.activeJobs.delete(jobId);
+      this.updateJobStatus(job);
+      
+      // Update active jobs count
+      this.updateNodeStatus({ activeJobs: this.activeJobs.size });
+    }
+  }
+
   private isRetryableError(error: string): boolean {
     const retryablePatterns = [
       '500', '502', '503', '504',           // Server errors
@@ -2,7 +2,7 @@ import express from 'express';
 import { Server } from 'http';
 import { EncoderConfig } from '../config/ConfigLoader.js';
 import { logger } from './Logger.js';
-import { JobQueue } from '../services/JobQueue.js';
+import { JobQueue, JobPriority, JobCancelResult } from '../services/JobQueue.js';
 import { DirectJob, DirectJobRequest, DirectJobResponse, JobStatus } from '../types/index.js';
 
 export class DirectApiService {
@@ -11,11 +11,18 @@ export class DirectApiService {
   private port: number;
   private config: EncoderConfig;
   private jobQueue: JobQueue;
+  private cancelHandler: (jobId: string, reason: string) => Promise<JobCancelResult>;
 
-  constructor(port: number, config: EncoderConfig, jobQueue: JobQueue) {
+  constructor(
+    port: number,
+    config: EncoderConfig,
+    jobQueue: JobQueue,
+    cancelHandler?: (jobId: string, reason: string) => Promise<JobCancelResult> // Encoder-level cancel (dashboard + webhook)
+  ) {
     this.port = port;
     this.config = config;
     this.jobQueue = jobQueue;
+    this.cancelHandler = cancelHandler || (async (jobId, reason) => this.jobQueue.cancelJob(jobId, reason));
     this.app = express();
     this.setupMiddleware();
     this.setupRoutes();
@@ -105,6 +112,69 @@ export class DirectApiService {
           } as DirectJobResponse);
         }
         
+        // Validate optional media type (audio = AAC ladder + downloadable file)
+        if (jobRequest.type !== undefined && !['video', 'audio'].includes(jobRequest.type)) {
+          return res.status(400).json({
+            job_id: '',
+            status: JobStatus.FAILED,
+            created_at: new Date().toISOString(),
+            error: 'type must be "video" or "audio"'
+          } as DirectJobResponse);
+        }
+        
+        // Validate optional segment_format
+        if (jobRequest.segment_format !== undefined && !['ts', 'fmp4'].includes(jobRequest.segment_format)) {
+          return res.status(400).json({
+            job_id: '',
+            status: JobStatus.FAILED,
+            created_at: new Date().toISOString(),
+            error: 'segment_format must be "ts" or "fmp4"'
+          } as DirectJobResponse);
+        }
+        
+        if (jobRequest.dash !== undefined && typeof jobRequest.dash !== 'boolean') {
+          return res.status(400).json({
+            job_id: '',
+            status: JobStatus.FAILED,
+            created_at: new Date().toISOString(),
+            error: 'dash must be true or false'
+          } as DirectJobResponse);
+        }
+        
+        // Validate optional external subtitles ([{ cid, language, label? }])
+        if (jobRequest.subtitles !== undefined) {
+          const validSubtitles = Array.isArray(jobRequest.subtitles) && jobRequest.subtitles.every(track =>
+            typeof track?.cid === 'string' && track.cid.length > 0 &&
+            typeof track.language === 'string' && track.language.length > 0 &&
+            (track.label === undefined || typeof track.label === 'string')
+          );
+          if (!validSubtitles) {
+            return res.status(400).json({
+              job_id: '',
+              status: JobStatus.FAILED,
+              created_at: new Date().toISOString(),
+              error: 'subtitles must be an array of { cid, language, label? }'
+            } as DirectJobResponse);
+          }
+        }
+        
+        // Validate optional audio track selection (a:N indexes or language tags)
+        if (jobRequest.audio_tracks !== undefined) {
+          const validTracks = Array.isArray(jobRequest.audio_tracks) && jobRequest.audio_tracks.length > 0 &&
+            jobRequest.audio_tracks.every(track =>
+              (typeof track === 'number' && Number.isInteger(track) && track >= 0) ||
+              (typeof track === 'string' && track.length > 0)
+            );
+          if (!validTracks) {
+            return res.status(400).json({
+              job_id: '',
+              status: JobStatus.FAILED,
+              created_at: new Date().toISOString(),
+              error: 'audio_tracks must be a non-empty array of track indexes or language tags'
+            } as DirectJobResponse);
+          }
+        }
+        
         // Validate webhook_url format
         try {
           new URL(jobRequest.webhook_url);
@@ -117,18 +187,22 @@ export class DirectApiService {
           } as DirectJobResponse);
         }
         
-        logger.info(`📥 Direct job received: ${jobRequest.owner}/${jobRequest.permlink} (short: ${jobRequest.short})`);
+        logger.info(`📥 Direct job received: ${jobRequest.owner}/${jobRequest.permlink} (short: ${jobRequest.short}${jobRequest.type === 'audio' ? ', audio' : ''})`);
 
         // Create job via JobQueue
         const job = await this.jobQueue.addDirectJob(jobRequest);
         
-        return res.json({
+        const response: DirectJobResponse = {
           job_id: job.id,
           status: job.status,
           created_at: job.created_at,
           message: 'Job submitted successfully',
           progress: 0
-        } as DirectJobResponse);
+        };
+        const position = this.jobQueue.getQueuePosition(job.id);
+        if (position !== null) response.estimated_position = position;
+        
+        return res.json(response);
 
       } catch (error) {
         logger.error('Error submitting job:', error);
@@ -155,27 +229,89 @@ export class DirectApiService {
         } as DirectJobResponse);
       }
 
+      const position = this.jobQueue.getQueuePosition(job.id);
+
       return res.json({
         job_id: job.id,
         status: job.status,
         created_at: job.created_at,
         updated_at: job.updated_at,
+        ...(position !== null && { estimated_position: position }),
         progress: job.progress,
         result: job.result,
         error: job.error
       } as DirectJobResponse);
     });
 
+    // Cancel job (removes it from the queue or aborts the running encode)
+    this.app.delete('/job/:jobId', async (req, res) => {
+      const jobId = req.params.jobId;
+      const job = this.jobQueue.getJob(jobId);
+
+      // Only direct jobs can be cancelled through this API
+      if (!job || job.type !== 'direct') {
+        return res.status(404).json({
+          job_id: jobId,
+          status: JobStatus.FAILED,
+          created_at: new Date().toISOString(),
+          error: 'Job not found'
+        } as DirectJobResponse);
+      }
+
+      try {
+        const reason = typeof req.body?.reason === 'string' ? req.body.reason : 'Cancelled via Direct API';
+        const result = await this.cancelHandler(jobId, reason);
+
+        if (result === 'already_finished') {
+          return res.status(409).json({
+            job_id: job.id,
+            status: job.status,
+            created_at: job.created_at,
+            updated_at: job.updated_at,
+            error: `Job already ${job.status}`
+          } as DirectJobResponse);
+        }
+
+        logger.info(`🛑 Direct job cancelled: ${jobId} (${result})`);
+
+        return res.json({
+          job_id: job.id,
+          status: JobStatus.CANCELLED,
+          created_at: job.created_at,
+          updated_at: job.updated_at,
+          message: result === 'aborted' ? 'Running job is being cancelled' : 'Job removed from queue'
+        } as DirectJobResponse);
+
+      } catch (error) {
+        logger.error(`Error cancelling job ${jobId}:`, error);
+        return res.status(500).json({
+          job_id: jobId,
+          status: job.status,
+          created_at: job.created_at,
+          error: 'Failed to cancel job'
+        } as DirectJobResponse);
+      }
+    });
+
     // List all jobs
     this.app.get('/jobs', (req, res) => {
       const totalJobs = this.jobQueue.getTotalCount();
       const pendingJobs = this.jobQueue.getPendingCount();
       const activeJobs = this.jobQueue.getActiveCount();
       
+      // Computed dispatch order (priority lanes + per-owner fairness)
+      const queue = this.jobQueue.getQueueSnapshot().map(entry => ({
+        job_id: entry.jobId,
+        position: entry.position,
+        priority: JobPriority[entry.priority].toLowerCase(),
+        owner: entry.owner
+      }));
+      
       return res.json({
         total: totalJobs,
         pending: pendingJobs,
-        active: activeJobs
+        active: activeJobs,
+        queue
       });
     });
   }
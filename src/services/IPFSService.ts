@@ -228,6 +228,33 @@ export class IPFSService {
     }
   }
 
+  /**
+   * CID a file would get from the local daemon with default add settings, without storing it (add --only-hash)
+   */
+  async hashFile(filePath: string, cidVersion: 0 | 1): Promise<string> {
+    const axios = await import('axios');
+    const FormData = await import('form-data');
+    const fs = await import('fs');
+    const url = this.multiaddrToUrl(this.config.ipfs?.apiAddr || '/ip4/127.0.0.1/tcp/5001');
+
+    const form = new FormData.default();
+    form.append('file', fs.createReadStream(filePath));
+
+    const response = await axios.default.post(`${url}/api/v0/add?only-hash=true&cid-version=${cidVersion}&quieter=true`, form, {
+      headers: form.getHeaders(),
+      maxContentLength: Infinity,
+      maxBodyLength: Infinity,
+      timeout: 600000, // Reads the whole file - 10 minutes covers multi-GB sources
+      responseType: 'text'
+    });
+
+    const hash = JSON.parse(String(response.data).trim().split('\n').pop() || '{}').Hash;
+    if (typeof hash !== 'string') {
+      throw new Error(`IPFS add --only-hash returned no hash for ${filePath}`);
+    }
+    return hash;
+  }
+
   async uploadFile(filePath: string, pin: boolean = false): Promise<string> {
     // Declare stream outside try block for proper cleanup access
     let fileStream: any = null;
@@ -332,7 +359,7 @@ export class IPFSService {
     }
   }
 
-  async uploadDirectory(dirPath: string, pin: boolean = false, onPinFailed?: (hash: string, error: Error) => void): Promise<string> {
+  async uploadDirectory(dirPath: string, pin: boolean = false, onPinFailed?: (hash: string, error: Error) => void, signal?: AbortSignal): Promise<string> {
     // 🚨 ONE SHOT ONLY: If supernode fails, move on immediately
     const maxRetries = 1; // Changed from 3 - fuck waiting for broken supernode
     let lastError: any;
@@ -343,7 +370,7 @@ export class IPFSService {
         
         // 📊 TIMING: Measure actual upload duration
         const uploadStartTime = Date.now();
-        const result = await this.performDirectoryUpload(dirPath);
+        const result = await this.performDirectoryUpload(dirPath, signal);
         const uploadDuration = Date.now() - uploadStartTime;
         
         // 📊 UPLOAD ANALYTICS: Show real timing and speed
@@ -434,6 +461,12 @@ export class IPFSService {
         
         return result;
       } catch (error: any) {
+        // 🛑 Cancelled job - don't fall back to local IPFS
+        if (signal?.aborted) {
+          logger.warn(`🛑 Directory upload aborted: ${dirPath}`);
+          throw signal.reason ?? error;
+        }
+
         lastError = error;
         logger.error(`❌ Supernode upload failed:`, error.message);
         logger.warn(`🚨 THE SHOW MUST GO ON: Supernode failed, will use local IPFS fallback`);
@@ -471,7 +504,7 @@ export class IPFSService {
     }
   }
   
-  private async performDirectoryUpload(dirPath: string): Promise<string> {
+  private async performDirectoryUpload(dirPath: string, signal?: AbortSignal): Promise<string> {
     // Upload directly to 3Speak's IPFS node using UnixFS directory approach
     const threeSpeakIPFS = this.config.ipfs?.threespeak_endpoint || 'http://65.21.201.94:5002';
     const axios = await import('axios');
@@ -567,6 +600,7 @@ export class IPFSService {
         timeout: timeoutMs,
         responseType: 'text', // 🚨 FIX: Ensure response is treated as text, not binary
         validateStatus: (status) => status < 400,
+        ...(signal && { signal }),
         onUploadProgress: (progressEvent) => {
           progressEvents++;
           bytesUploaded = progressEvent.loaded;
@@ -94,6 +94,9 @@ export class JobProcessor {
       }
       
       this.jobQueue.failJob(jobId, errorMessage);
+      if (!this.jobQueue.isRetryScheduled(jobId)) {
+        await this.videoProcessor.discardCheckpoint(jobId); // No retry will resume from the work directory
+      }
     }
   }
 
@@ -128,6 +131,11 @@ export class JobProcessor {
         progress: 0,
         // 🎬 Pass short flag through to VideoProcessor
         short: request.short,
+        ...(request.segment_format && { segment_format: request.segment_format }),
+        ...(request.dash !== undefined && { dash: request.dash }),
+        ...(request.subtitles && { subtitles: request.subtitles }),
+        ...(request.audio_tracks && { audio_tracks: request.audio_tracks }),
+        ...(request.type && { media_type: request.type }),
         // 📋 Store webhook info for completion callback
         webhook_url: request.webhook_url,
         api_key: request.api_key,
@@ -166,6 +174,40 @@ export class JobProcessor {
           };
           
           // Add optional fields only if defined
+          webhookPayload.media_type = result[0]?.mediaType || 'video';
+          if (result[0]?.download) webhookPayload.download_url = `ipfs://${manifestCid}/${result[0].download}`;
+          if (result[0]?.dashUri) webhookPayload.dash_url = result[0].dashUri;
+          const thumbnails = result[0]?.thumbnails;
+          if (thumbnails) {
+            webhookPayload.poster_url = `ipfs://${manifestCid}/${thumbnails.poster}`;
+            if (thumbnails.posterWebp) webhookPayload.poster_webp_url = `ipfs://${manifestCid}/${thumbnails.posterWebp}`;
+            webhookPayload.thumbnails_vtt_url = `ipfs://${manifestCid}/${thumbnails.vtt}`;
+          }
+          const preview = result[0]?.preview;
+          if (preview) {
+            webhookPayload.preview_url = `ipfs://${manifestCid}/${preview.mp4}`;
+            if (preview.webp) webhookPayload.preview_webp_url = `ipfs://${manifestCid}/${preview.webp}`;
+          }
+          if (result[0]?.loudness) {
+            webhookPayload.loudness_lufs = result[0].loudness.integrated;
+            webhookPayload.loudness_normalized = result[0].loudness.normalized;
+          }
+          if (result[0]?.audioRenditions?.length) {
+            webhookPayload.audio_tracks = result[0].audioRenditions.map(track => ({
+              language: track.language,
+              name: track.name,
+              default: track.default
+            }));
+          }
+          if (result[0]?.subtitles?.length) {
+            webhookPayload.subtitles = result[0].subtitles.map(track => ({
+              language: track.language,
+              name: track.name,
+              url: `ipfs://${manifestCid}/${track.playlist}`
+            }));
+          }
+          if (result[0]?.duration) webhookPayload.duration_seconds = result[0].duration;
+          if (result[0]?.size) webhookPayload.total_size_bytes = result[0].size;
           if (request.frontend_app) webhookPayload.frontend_app = request.frontend_app;
           if (request.originalFilename) webhookPayload.originalFilename = request.originalFilename;
           
@@ -186,6 +228,9 @@ export class JobProcessor {
       logger.error(`❌ Direct job ${jobId} failed:`, cleanErrorForLogging(error));
       
       this.jobQueue.failJob(jobId, errorMessage);
+      if (!this.jobQueue.isRetryScheduled(jobId)) {
+        await this.videoProcessor.discardCheckpoint(jobId); // No retry will resume from the work directory
+      }
       
       // 🔔 Send failure webhook if URL provided
       if (request.webhook_url) {
@@ -210,18 +255,7 @@ export class JobProcessor {
   }
 
   private generateProfilesFromRequest(request: DirectJobRequest): VideoProfile[] {
-    // 📱 Short video mode: 480p only
-    if (request.short) {
-      return [
-        { name: '480p', size: '?x480', width: 854, height: 480 }
-      ];
-    }
-    
-    // 🎬 Regular mode: All qualities
-    return [
-      { name: '1080p', size: '?x1080', width: 1920, height: 1080 },
-      { name: '720p', size: '?x720', width: 1280, height: 720 },
-      { name: '480p', size: '?x480', width: 854, height: 480 }
-    ];
+    // 📱 Short video mode uses the short ladder, regular mode the full configured ladder
+    return this.videoProcessor.getLadderProfiles(request.short);
   }
 }
\ No newline at end of file
@@ -2,6 +2,8 @@ import { VideoJob } from '../types/index.js';
 import { DirectJob, DirectJobRequest } from '../types/DirectApi.js';
 import { logger } from './Logger.js';
 import { JobStatus } from '../types/index.js';
+import { JobQueueStore, StoredQueueJob } from './JobQueueStore.js';
+import { createJobCancelledError } from '../common/errorUtils.js';
 
 export interface JobRetryInfo {
   attempts: number;
@@ -13,6 +15,33 @@ export interface JobRetryInfo {
 
 export type QueuedJob = VideoJob | DirectJob;
 
+/**
+ * Scheduling lanes - lower value is served first
+ */
+export enum JobPriority {
+  SHORT = 0,    // Direct API short/embed jobs (small, latency-sensitive)
+  DIRECT = 1,   // Regular Direct API jobs
+  RESCUED = 2,  // Abandoned gateway jobs claimed by rescue mode
+  GATEWAY = 3   // Normal gateway jobs
+}
+
+export interface QueuePositionInfo {
+  jobId: string;
+  position: number;   // 1-based position in the computed schedule
+  priority: JobPriority;
+  owner: string;
+}
+
+/**
+ * Outcome of cancelJob():
+ * - removed: job was waiting (pending or awaiting retry) and will never start
+ * - aborted: job was running and its AbortSignal has been fired
+ */
+export type JobCancelResult = 'not_found' | 'already_finished' | 'removed' | 'aborted';
+
+// Aging only moves jobs at priorityAgingMs boundaries, so a schedule this fresh is still accurate enough
+const SNAPSHOT_MAX_AGE_MS = 5000;
+
 export class JobQueue {
   private jobs: Map<string, QueuedJob> = new Map();
   private pendingQueue: string[] = [];
@@ -22,15 +51,260 @@ export class JobQueue {
   private maxConcurrent: number;
   private defaultMaxRetries: number;
   private retryDelayMs: number;
-
-    constructor(maxConcurrent: number = 1, maxRetries: number = 5, retryDelayMs: number = 180000) { // 3 minute delay (more production-friendly)
+  private store: JobQueueStore | null;
+  private pendingSeq: Map<string, number> = new Map(); // Enqueue order, persisted so restarts keep FIFO order
+  private nextPendingSeq: number = 0;
+  private persistChain: Promise<void> = Promise.resolve(); // Serializes writes to the store
+  private priorities: Map<string, JobPriority> = new Map();
+  private enqueuedAt: Map<string, number> = new Map();
+  private ownerLastServed: Map<string, number> = new Map(); // Dispatch counter per owner for round-robin fairness
+  private dispatchCounter: number = 0;
+  private priorityAgingMs: number;
+  private abortControllers: Map<string, AbortController> = new Map(); // One per active job, fired by cancelJob()
+  private interruptedOnRestore: string[] = []; // Jobs that were running when the previous process died
+  private snapshotCache: { order: QueuePositionInfo[]; computedAt: number; activeCount: number } | null = null; // Dropped whenever the pending set or lanes change
+
+    constructor(maxConcurrent: number = 1, maxRetries: number = 5, retryDelayMs: number = 180000, store?: JobQueueStore, priorityAgingMs: number = 15 * 60 * 1000) { // 3 minute delay (more production-friendly)
     this.maxConcurrent = maxConcurrent;
     this.defaultMaxRetries = maxRetries;
     this.retryDelayMs = retryDelayMs;
+    this.store = store || null;
+    this.priorityAgingMs = priorityAgingMs; // Waiting this long promotes a job one lane (prevents starvation)
+  }
+
+  /**
+   * 💾 Open the durable store and restore queue state from the previous run
+   * Jobs that were running when the process died are re-queued ahead of the rest
+   */
+  async initialize(): Promise<void> {
+    if (!this.store) {
+      logger.info('ℹ️ Job queue persistence disabled - queue state is in-memory only');
+      return;
+    }
+
+    let rows: StoredQueueJob[];
+    try {
+      await this.store.initialize();
+      rows = await this.store.loadJobs();
+    } catch (error) {
+      logger.warn('⚠️ Job queue persistence unavailable - continuing with in-memory queue:', error);
+      this.store = null;
+      return;
+    }
+
+    const interrupted: string[] = [];
+    const pending: string[] = [];
+    const waitingSince = new Map<string, number>(); // Restored enqueue times, so aging survives the restart
+    const corrupt: string[] = [];
+    let awaitingRetry = 0;
+
+    for (const row of rows) {
+      let job: QueuedJob;
+      try {
+        job = JSON.parse(row.job) as QueuedJob;
+        if (!job?.id) throw new Error('missing job id');
+      } catch (error) {
+        logger.warn(`⚠️ Dropping corrupt persisted job ${row.id}:`, error);
+        corrupt.push(row.id);
+        continue;
+      }
+
+      this.jobs.set(job.id, job);
+      this.priorities.set(job.id, row.priority ?? this.defaultPriority(job));
+      // Retry state and cached results are only optimizations - a corrupt one is dropped, the job is kept
+      if (row.retry_info) {
+        try {
+          this.retryInfo.set(job.id, JSON.parse(row.retry_info));
+        } catch (error) {
+          logger.warn(`⚠️ Discarding corrupt retry info of job ${job.id}:`, error);
+        }
+      }
+      if (row.cached_result) {
+        try {
+          this.cachedResults.set(job.id, JSON.parse(row.cached_result));
+        } catch (error) {
+          logger.warn(`⚠️ Discarding corrupt cached result of job ${job.id}:`, error);
+        }
+      }
+
+      switch (job.status) {
+        case JobStatus.ASSIGNED:
+        case JobStatus.DOWNLOADING:
+        case JobStatus.RUNNING:
+        case JobStatus.UPLOADING:
+          // Process died mid-job - put it back in front of the queue
+          job.status = JobStatus.QUEUED;
+          job.updated_at = new Date().toISOString();
+          job.error = 'Re-queued after encoder restart';
+          interrupted.push(job.id);
+          break;
+        case JobStatus.PENDING:
+        case JobStatus.QUEUED:
+          if (row.pending_seq === null && this.retryInfo.has(job.id)) {
+            awaitingRetry++; // processRetries() will pick it up when its delay expires
+          } else {
+            pending.push(job.id);
+            if (row.enqueued_at !== null && row.enqueued_at !== undefined) {
+              waitingSince.set(job.id, row.enqueued_at);
+            }
+          }
+          break;
+        default:
+          // Finished jobs are kept so status lookups keep working until cleanup()
+          break;
+      }
+    }
+
+    for (const jobId of [...interrupted, ...pending]) {
+      this.enqueue(jobId, waitingSince.get(jobId));
+    }
+    this.interruptedOnRestore = interrupted;
+    this.unpersist(corrupt);
+
+    if (rows.length > 0) {
+      logger.info(`💾 Restored job queue: ${pending.length} pending, ${interrupted.length} re-queued after crash, ${awaitingRetry} awaiting retry, ${this.cachedResults.size} cached result(s), ${corrupt.length} corrupt row(s) dropped`);
+    }
+  }
+
+  /**
+   * Jobs restored from the store that were running when the previous process died (now queued again)
+   */
+  getInterruptedJobIds(): string[] {
+    return [...this.interruptedOnRestore];
+  }
+
+  /**
+   * Flush outstanding writes and close the durable store
+   */
+  async close(): Promise<void> {
+    await this.persistChain;
+    if (this.store) {
+      await this.store.close();
+    }
+  }
+
+  private enqueue(jobId: string, enqueuedAt: number = Date.now()): void {
+    this.pendingQueue.push(jobId);
+    this.pendingSeq.set(jobId, this.nextPendingSeq++);
+    this.enqueuedAt.set(jobId, enqueuedAt);
+    this.snapshotCache = null;
+    this.persist(jobId);
   }
 
-  // Add 3Speak gateway job
-  addGatewayJob(job: VideoJob): void {
+  private defaultPriority(job: QueuedJob): JobPriority {
+    if (job.type === 'direct') {
+      return (job as DirectJob).request.short ? JobPriority.SHORT : JobPriority.DIRECT;
+    }
+    return JobPriority.GATEWAY;
+  }
+
+  private getOwner(job: QueuedJob): string {
+    if (job.type === 'direct') {
+      return (job as DirectJob).request.owner || 'unknown';
+    }
+    return (job as VideoJob).metadata?.video_owner || 'unknown';
+  }
+
+  /**
+   * Lane after aging - every priorityAgingMs spent waiting promotes the job one lane
+   */
+  private getEffectivePriority(jobId: string, now: number): number {
+    const priority = this.priorities.get(jobId) ?? JobPriority.GATEWAY;
+    const waitedMs = now - (this.enqueuedAt.get(jobId) ?? now);
+    const promotions = this.priorityAgingMs > 0 ? Math.floor(waitedMs / this.priorityAgingMs) : 0;
+    return Math.max(JobPriority.SHORT, priority - promotions);
+  }
+
+  /**
+   * ⚖️ Pick the next job: best lane first, then the owner with the fewest running jobs,
+   * then the owner served least recently, then FIFO
+   */
+  private pickNextJobId(candidates: string[], lastServed: Map<string, number>, activeByOwner: Map<string, number>, now: number): string | null {
+    let bestId: string | null = null;
+    let bestKey: number[] | null = null;
+
+    candidates.forEach((jobId, index) => {
+      const job = this.jobs.get(jobId);
+      if (!job) return;
+
+      const owner = this.getOwner(job);
+      const key = [
+        this.getEffectivePriority(jobId, now),
+        activeByOwner.get(owner) || 0,
+        lastServed.get(owner) ?? -1,
+        index
+      ];
+
+      if (!bestKey || this.compareKeys(key, bestKey) < 0) {
+        bestId = jobId;
+        bestKey = key;
+      }
+    });
+
+    return bestId;
+  }
+
+  private compareKeys(a: number[], b: number[]): number {
+    for (let i = 0; i < a.length; i++) {
+      const diff = (a[i] ?? 0) - (b[i] ?? 0);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  }
+
+  private countActiveByOwner(): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const jobId of this.activeJobs) {
+      const job = this.jobs.get(jobId);
+      if (!job) continue;
+      const owner = this.getOwner(job);
+      counts.set(owner, (counts.get(owner) || 0) + 1);
+    }
+    return counts;
+  }
+
+  /**
+   * Snapshot the job's queue state and write it behind any earlier writes
+   */
+  private persist(jobId: string): void {
+    const store = this.store;
+    const job = this.jobs.get(jobId);
+    if (!store || !job) return;
+
+    const retryInfo = this.retryInfo.get(jobId);
+    const cachedResult = this.cachedResults.get(jobId);
+    const entry: StoredQueueJob = {
+      id: jobId,
+      type: job.type || 'gateway',
+      status: job.status,
+      job: JSON.stringify(job),
+      pending_seq: this.pendingQueue.includes(jobId) ? this.pendingSeq.get(jobId) ?? null : null,
+      priority: this.priorities.get(jobId) ?? null,
+      enqueued_at: this.enqueuedAt.get(jobId) ?? null,
+      retry_info: retryInfo ? JSON.stringify(retryInfo) : null,
+      cached_result: cachedResult !== undefined ? JSON.stringify(cachedResult) : null
+    };
+
+    this.persistChain = this.persistChain
+      .then(() => store.saveJob(entry))
+      .catch(error => {
+        logger.warn(`⚠️ Failed to persist queue state for ${jobId}:`, error);
+      });
+  }
+
+  private unpersist(jobIds: string[]): void {
+    const store = this.store;
+    if (!store || jobIds.length === 0) return;
+
+    this.persistChain = this.persistChain
+      .then(() => store.deleteJobs(jobIds))
+      .catch(error => {
+        logger.warn(`⚠️ Failed to remove ${jobIds.length} job(s) from queue store:`, error);
+      });
+  }
+
+  // Add 3Speak gateway job (rescued jobs use JobPriority.RESCUED)
+  addGatewayJob(job: VideoJob, priority: JobPriority = JobPriority.GATEWAY): void {
     // 🚨 DUPLICATE PREVENTION: Don't add job if it's already in queue or active
     if (this.jobs.has(job.id)) {
       logger.warn(`⚠️ Job ${job.id} already exists in queue - skipping duplicate`);
@@ -48,8 +322,9 @@ export class JobQueue {
     }
     
     this.jobs.set(job.id, job);
-    this.pendingQueue.push(job.id);
-    logger.info(`📥 Gateway job queued: ${job.id} (position: ${this.pendingQueue.length})`);
+    this.priorities.set(job.id, priority);
+    this.enqueue(job.id);
+    logger.info(`📥 Gateway job queued: ${job.id} (${JobPriority[priority]} lane, ${this.pendingQueue.length} waiting)`);
   }
 
   // Add direct API job
@@ -63,42 +338,154 @@ export class JobQueue {
     };
 
     this.jobs.set(job.id, job);
-    this.pendingQueue.push(job.id);
+    this.priorities.set(job.id, this.defaultPriority(job));
+    this.enqueue(job.id);
     
-    logger.info(`📥 Direct job queued: ${job.id} (position: ${this.pendingQueue.length})`);
+    logger.info(`📥 Direct job queued: ${job.id} (${JobPriority[this.priorities.get(job.id)!]} lane, ${this.pendingQueue.length} waiting)`);
     return job;
   }
 
-  // Get next job to process (first-come-first-served)
+  // Get next job to process (priority lanes with per-owner fairness)
   getNextJob(): QueuedJob | null {
     if (this.activeJobs.size >= this.maxConcurrent) {
       return null;
     }
 
+    // Drop entries whose job record has disappeared
+    const missing = this.pendingQueue.filter(id => !this.jobs.has(id));
+    for (const jobId of missing) {
+      logger.warn(`⚠️ Job ${jobId} not found in queue`);
+      this.removeFromPending(jobId);
+    }
+
     if (this.pendingQueue.length === 0) {
       return null;
     }
 
-    const jobId = this.pendingQueue.shift()!;
-    const job = this.jobs.get(jobId);
-
-    if (!job) {
-      logger.warn(`⚠️ Job ${jobId} not found in queue`);
-      return this.getNextJob(); // Try next job
-    }
+    const jobId = this.pickNextJobId(this.pendingQueue, this.ownerLastServed, this.countActiveByOwner(), Date.now())!;
+    const job = this.jobs.get(jobId)!;
+    this.removeFromPending(jobId);
+    this.ownerLastServed.set(this.getOwner(job), this.dispatchCounter++);
 
     this.activeJobs.add(jobId);
+    this.abortControllers.set(jobId, new AbortController());
     job.status = JobStatus.RUNNING;
     job.updated_at = new Date().toISOString();
+    this.persist(jobId);
 
-    logger.info(`🚀 Starting job: ${jobId} (${job.type || 'gateway'})`);
+    const priority = this.priorities.get(jobId) ?? JobPriority.GATEWAY;
+    logger.info(`🚀 Starting job: ${jobId} (${job.type || 'gateway'}, ${JobPriority[priority]} lane)`);
     return job;
   }
 
+  private removeFromPending(jobId: string): void {
+    const index = this.pendingQueue.indexOf(jobId);
+    if (index !== -1) {
+      this.pendingQueue.splice(index, 1);
+    }
+    this.pendingSeq.delete(jobId);
+    this.enqueuedAt.delete(jobId);
+    this.snapshotCache = null;
+  }
+
+  /**
+   * 📋 Compute the dispatch order of all pending jobs by replaying the scheduler
+   * Assumes jobs run one after another, so it is an estimate when concurrency > 1.
+   * The replay is quadratic in the queue length, so the result is cached until the queue changes.
+   */
+  getQueueSnapshot(): QueuePositionInfo[] {
+    const now = Date.now();
+    // Jobs only become active through getNextJob() (which drops the cache), so a changed count means one finished
+    if (this.snapshotCache && now - this.snapshotCache.computedAt < SNAPSHOT_MAX_AGE_MS &&
+        this.snapshotCache.activeCount === this.activeJobs.size) {
+      return [...this.snapshotCache.order];
+    }
+    const remaining = this.pendingQueue.filter(id => this.jobs.has(id));
+    const lastServed = new Map(this.ownerLastServed);
+    const activeByOwner = this.countActiveByOwner();
+    let counter = this.dispatchCounter;
+    const order: QueuePositionInfo[] = [];
+
+    while (remaining.length > 0) {
+      const jobId = this.pickNextJobId(remaining, lastServed, activeByOwner, now)!;
+      const owner = this.getOwner(this.jobs.get(jobId)!);
+      remaining.splice(remaining.indexOf(jobId), 1);
+      lastServed.set(owner, counter++);
+      order.push({
+        jobId,
+        position: order.length + 1,
+        priority: this.priorities.get(jobId) ?? JobPriority.GATEWAY,
+        owner
+      });
+    }
+
+    this.snapshotCache = { order, computedAt: now, activeCount: this.activeJobs.size };
+    return [...order];
+  }
+
+  // Get computed 1-based queue position (null if the job is not waiting)
+  getQueuePosition(jobId: string): number | null {
+    if (!this.pendingQueue.includes(jobId)) {
+      return null;
+    }
+    return this.getQueueSnapshot().find(entry => entry.jobId === jobId)?.position ?? null;
+  }
+
+  getPriority(jobId: string): JobPriority | null {
+    return this.priorities.get(jobId) ?? null;
+  }
+
+  // Move a known job to another lane - persisted, so the lane survives a restart
+  setPriority(jobId: string, priority: JobPriority): void {
+    if (!this.jobs.has(jobId) || this.priorities.get(jobId) === priority) return;
+    this.priorities.set(jobId, priority);
+    this.snapshotCache = null;
+    this.persist(jobId);
+  }
+
+  // AbortSignal for an active job - fires when the job is cancelled
+  getAbortSignal(jobId: string): AbortSignal | undefined {
+    return this.abortControllers.get(jobId)?.signal;
+  }
+
+  /**
+   * 🛑 Cancel a job: waiting jobs are dropped from the queue, running jobs are
+   * aborted through their AbortSignal and released by failJob() once they unwind
+   */
+  cancelJob(jobId: string, reason: string = 'Cancelled by user'): JobCancelResult {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return 'not_found';
+    }
+
+    if (job.status === JobStatus.COMPLETE || job.status === JobStatus.FAILED || job.status === JobStatus.CANCELLED) {
+      return 'already_finished';
+    }
+
+    const wasActive = this.activeJobs.has(jobId);
+    job.status = JobStatus.CANCELLED;
+    job.updated_at = new Date().toISOString();
+    job.error = reason;
+
+    this.removeFromPending(jobId);
+    this.retryInfo.delete(jobId);
+    this.cachedResults.delete(jobId);
+    this.persist(jobId);
+
+    if (wasActive) {
+      this.abortControllers.get(jobId)?.abort(createJobCancelledError(jobId, reason));
+      logger.warn(`🛑 Cancelling active job: ${jobId} - ${reason}`);
+      return 'aborted';
+    }
+
+    logger.warn(`🛑 Cancelled queued job: ${jobId} - ${reason}`);
+    return 'removed';
+  }
+
   // Mark job as completed
   completeJob(jobId: string, result?: any): void {
     const job = this.jobs.get(jobId);
-    if (job) {
+    if (job && job.status !== JobStatus.CANCELLED) {
       job.status = JobStatus.COMPLETE;
       job.updated_at = new Date().toISOString();
       if (result) {
@@ -107,6 +494,8 @@ export class JobQueue {
     }
     
     this.activeJobs.delete(jobId);
+    this.abortControllers.delete(jobId);
+    this.persist(jobId);
     logger.info(`✅ Job completed: ${jobId}`);
   }
 
@@ -118,6 +507,15 @@ export class JobQueue {
       return;
     }
 
+    // Cancelled jobs unwind through the normal error path - just release them, never retry
+    if (job.status === JobStatus.CANCELLED) {
+      this.activeJobs.delete(jobId);
+      this.abortControllers.delete(jobId);
+      this.persist(jobId);
+      logger.info(`🛑 Cancelled job released: ${jobId}`);
+      return;
+    }
+
     const retryInfo = this.retryInfo.get(jobId) || {
       attempts: 0,
       maxAttempts: this.defaultMaxRetries,
@@ -150,6 +548,8 @@ export class JobQueue {
       job.error = `Retry ${retryInfo.attempts}/${retryInfo.maxAttempts}: ${error}`;
       
       this.activeJobs.delete(jobId);
+      this.abortControllers.delete(jobId);
+      this.persist(jobId);
       // Will be picked up by retry logic in processRetries()
       
       // Better messaging for users
@@ -166,7 +566,9 @@ export class JobQueue {
       job.error = `Failed after ${retryInfo.attempts} attempts: ${retryInfo.errors.join('; ')}`;
       
       this.activeJobs.delete(jobId);
+      this.abortControllers.delete(jobId);
       this.retryInfo.delete(jobId);
+      this.persist(jobId);
       
       logger.error(`❌ Job permanently failed: ${jobId} - ${job.error}`);
     }
@@ -219,7 +621,7 @@ export class JobQueue {
       if (now >= nextRetryTime) {
         // Add back to pending queue for retry
         if (!this.pendingQueue.includes(jobId)) {
-          this.pendingQueue.push(jobId);
+          this.enqueue(jobId);
           readyForRetry.push(jobId);
           logger.info(`🔄 Job ${jobId} ready for retry (attempt ${retryInfo.attempts + 1}/${retryInfo.maxAttempts})`);
         }
@@ -256,8 +658,11 @@ export class JobQueue {
       job.error = `Abandoned: ${reason}`;
     }
     
+    this.removeFromPending(jobId);
     this.activeJobs.delete(jobId);
+    this.abortControllers.delete(jobId);
     this.retryInfo.delete(jobId);
+    this.persist(jobId);
     logger.warn(`🚫 Job abandoned: ${jobId} - ${reason}`);
   }
 
@@ -266,6 +671,11 @@ export class JobQueue {
     return this.retryInfo.get(jobId) || null;
   }
 
+  // Whether a failed job is queued for another attempt (its work directory is worth keeping)
+  isRetryScheduled(jobId: string): boolean {
+    return this.retryInfo.has(jobId) && this.jobs.get(jobId)?.status === JobStatus.QUEUED;
+  }
+
   // Clean up old completed jobs (optional)
   cleanup(maxAge: number = 86400000): void { // 24 hours default
     const cutoff = Date.now() - maxAge;
@@ -273,7 +683,7 @@ export class JobQueue {
 
     for (const [jobId, job] of this.jobs) {
       const jobTime = new Date(job.created_at).getTime();
-      if (jobTime < cutoff && (job.status === JobStatus.COMPLETE || job.status === JobStatus.FAILED)) {
+      if (jobTime < cutoff && (job.status === JobStatus.COMPLETE || job.status === JobStatus.FAILED || job.status === JobStatus.CANCELLED)) {
         toDelete.push(jobId);
         this.retryInfo.delete(jobId); // Clean up retry info too
       }
@@ -281,8 +691,10 @@ export class JobQueue {
 
     for (const jobId of toDelete) {
       this.jobs.delete(jobId);
+      this.priorities.delete(jobId);
       this.cachedResults.delete(jobId); // Clean up cached results too
     }
+    this.unpersist(toDelete);
 
     if (toDelete.length > 0) {
       logger.info(`🧹 Cleaned up ${toDelete.length} old jobs`);
@@ -295,6 +707,7 @@ export class JobQueue {
    */
   cacheResult(jobId: string, result: any): void {
     this.cachedResults.set(jobId, result);
+    this.persist(jobId);
     logger.debug(`💾 Cached result for job ${jobId} (smart retry optimization)`);
   }
 
@@ -312,6 +725,7 @@ export class JobQueue {
   clearCachedResult(jobId: string): void {
     if (this.cachedResults.has(jobId)) {
       this.cachedResults.delete(jobId);
+      this.persist(jobId);
       logger.debug(`🗑️ Cleared cached result for job ${jobId}`);
     }
   }
@@ -328,6 +742,7 @@ export class JobQueue {
       const job = this.jobs.get(jobId);
       if (!job || !job.updated_at || (now - new Date(job.updated_at).getTime()) > maxCacheAge) {
         this.cachedResults.delete(jobId);
+        this.persist(jobId);
         cleaned++;
       }
     }
@@ -0,0 +1,164 @@
+import sqlite3 from 'sqlite3';
+import { Database, open } from 'sqlite';
+import { logger } from './Logger.js';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+export interface StoredQueueJob {
+  id: string;
+  type: string;
+  status: string;
+  job: string;              // JSON-serialized QueuedJob
+  pending_seq: number | null; // Position marker while waiting in pendingQueue (null = not pending)
+  priority: number | null;    // JobPriority lane
+  enqueued_at: number | null; // ms epoch the job started waiting (aging), null when not pending
+  retry_info: string | null;  // JSON-serialized JobRetryInfo
+  cached_result: string | null; // JSON-serialized smart-retry result
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * 💾 Durable JobQueue storage
+ * Keeps queued/active jobs, retry counters and cached results in SQLite so
+ * they survive restarts (including the memory-guard process.exit)
+ */
+export class JobQueueStore {
+  private db: Database | null = null;
+  private dbPath: string;
+
+  constructor(dbPath?: string) {
+    this.dbPath = dbPath || path.join(process.cwd(), 'data', 'job-queue.db');
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      // Ensure data directory exists
+      const dataDir = path.dirname(this.dbPath);
+      await fs.mkdir(dataDir, { recursive: true });
+
+      // Open database
+      this.db = await open({
+        filename: this.dbPath,
+        driver: sqlite3.Database
+      });
+
+      await this.createTables();
+
+      logger.info(`💾 Job queue database initialized: ${this.dbPath}`);
+    } catch (error) {
+      logger.error('❌ Failed to initialize job queue database:', error);
+      throw error;
+    }
+  }
+
+  private async createTables(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const createTableSQL = `
+      CREATE TABLE IF NOT EXISTS queue_jobs (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        job TEXT NOT NULL,
+        pending_seq INTEGER,
+        priority INTEGER,
+        enqueued_at INTEGER,
+        retry_info TEXT,
+        cached_result TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `;
+
+    const createIndexes = [
+      'CREATE INDEX IF NOT EXISTS idx_queue_status ON queue_jobs(status);',
+      'CREATE INDEX IF NOT EXISTS idx_queue_pending_seq ON queue_jobs(pending_seq);'
+    ];
+
+    await this.db.exec(createTableSQL);
+
+    // Databases created before priority lanes / aging were persisted lack these columns
+    const columns = await this.db.all<{ name: string }[]>('PRAGMA table_info(queue_jobs);');
+    if (!columns.some(column => column.name === 'priority')) {
+      await this.db.exec('ALTER TABLE queue_jobs ADD COLUMN priority INTEGER;');
+    }
+    if (!columns.some(column => column.name === 'enqueued_at')) {
+      await this.db.exec('ALTER TABLE queue_jobs ADD COLUMN enqueued_at INTEGER;');
+    }
+
+    for (const indexSQL of createIndexes) {
+      await this.db.exec(indexSQL);
+    }
+  }
+
+  async saveJob(entry: StoredQueueJob): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      await this.db.run(`
+        INSERT INTO queue_jobs (
+          id, type, status, job, pending_seq, priority, enqueued_at, retry_info, cached_result
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          type = excluded.type,
+          status = excluded.status,
+          job = excluded.job,
+          pending_seq = excluded.pending_seq,
+          priority = excluded.priority,
+          enqueued_at = excluded.enqueued_at,
+          retry_info = excluded.retry_info,
+          cached_result = excluded.cached_result,
+          updated_at = CURRENT_TIMESTAMP
+      `, [
+        entry.id,
+        entry.type,
+        entry.status,
+        entry.job,
+        entry.pending_seq,
+        entry.priority,
+        entry.enqueued_at,
+        entry.retry_info,
+        entry.cached_result
+      ]);
+    } catch (error) {
+      logger.error(`❌ Failed to persist queue job ${entry.id}:`, error);
+      throw error;
+    }
+  }
+
+  async loadJobs(): Promise<StoredQueueJob[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      return await this.db.all<StoredQueueJob[]>(`
+        SELECT * FROM queue_jobs
+        ORDER BY pending_seq IS NULL, pending_seq ASC, created_at ASC
+      `);
+    } catch (error) {
+      logger.error('❌ Failed to load persisted queue jobs:', error);
+      throw error;
+    }
+  }
+
+  async deleteJobs(jobIds: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (jobIds.length === 0) return;
+
+    try {
+      const placeholders = jobIds.map(() => '?').join(', ');
+      await this.db.run(`DELETE FROM queue_jobs WHERE id IN (${placeholders})`, jobIds);
+    } catch (error) {
+      logger.error(`❌ Failed to delete ${jobIds.length} persisted queue job(s):`, error);
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      await this.db.close();
+      this.db = null;
+      logger.info('💾 Job queue database closed');
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import { randomUUID } from 'crypto';
+import { logger } from './Logger.js';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { SourceCacheStats } from '../types/index.js';
+
+interface CacheEntry {
+  size: number;
+  mtimeMs: number;  // Of the file as it was cached - a hit is only served while size and mtime still match
+  lastUsed: number; // ms epoch, LRU order
+}
+
+/**
+ * CID the IPFS daemon computes for a file (add --only-hash), used to check a download before it is cached
+ */
+export type SourceHasher = (filePath: string, cidVersion: 0 | 1) => Promise<string>;
+
+const INDEX_FILE = 'index.json';
+
+// CIDv0 (base58btc "Qm...") or CIDv1 base32 ("bafy...")
+const CID_PATTERN = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{50,})$/;
+
+/**
+ * CID of an IPFS source URI: gateway URLs (".../ipfs/<cid>") and ipfs://<cid>. Null for anything else.
+ */
+export function getSourceCid(uri: string): string | null {
+  const match = uri.match(/(?:\/ipfs\/|^ipfs:\/\/)([a-zA-Z0-9]+)/);
+  return match ? match[1]! : null;
+}
+
+/**
+ * 📦 Downloaded sources keyed by CID, shared by gateway and direct jobs
+ * Retries and duplicate jobs for the same input get a hard link instead of a multi-GB download.
+ * A CID addresses immutable content, so entries never go stale. Only downloads that hash to their CID
+ * are inserted; afterwards size + mtime guard against files changed on disk.
+ * Least recently used entries are evicted to stay under the quota.
+ */
+export class SourceCache {
+  private cacheDir: string;
+  private quotaBytes: number;
+  private hashSource: SourceHasher;
+  private entries: Map<string, CacheEntry> = new Map();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private indexWrites: Promise<void> = Promise.resolve(); // Serialized so concurrent jobs don't interleave index writes
+
+  constructor(tempDir: string, quotaGb: number, hashSource: SourceHasher) {
+    this.cacheDir = path.join(tempDir, 'source-cache');
+    this.quotaBytes = Math.round(quotaGb * 1024 * 1024 * 1024);
+    this.hashSource = hashSource;
+  }
+
+  get enabled(): boolean {
+    return this.quotaBytes > 0;
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.enabled) return;
+    await fs.mkdir(this.cacheDir, { recursive: true });
+
+    try {
+      const index: Record<string, CacheEntry> = JSON.parse(await fs.readFile(path.join(this.cacheDir, INDEX_FILE), 'utf8'));
+      for (const [cid, entry] of Object.entries(index)) {
+        const stats = await fs.stat(path.join(this.cacheDir, cid)).catch(() => null);
+        if (stats && stats.size === entry.size && stats.mtimeMs === entry.mtimeMs) {
+          this.entries.set(cid, entry);
+        }
+      }
+    } catch {
+      // No index yet - empty cache
+    }
+
+    // Files the index doesn't know (crash between copy and index write) can't be verified
+    for (const file of await fs.readdir(this.cacheDir)) {
+      if (file !== INDEX_FILE && !this.entries.has(file)) {
+        await fs.rm(path.join(this.cacheDir, file), { force: true });
+      }
+    }
+
+    await this.evict(0);
+    await this.saveIndex();
+    const stats = this.getStats();
+    logger.info(`📦 Source cache: ${stats.entries} source(s), ${(stats.bytes / 1024 / 1024 / 1024).toFixed(2)}/${(this.quotaBytes / 1024 / 1024 / 1024).toFixed(0)}GB in ${this.cacheDir}`);
+  }
+
+  /**
+   * Link (or copy) the cached source for a CID to outputPath. False on a miss; an entry whose file
+   * changed since it was verified is dropped and counts as a miss.
+   */
+  async get(cid: string, outputPath: string): Promise<boolean> {
+    const entry = this.entries.get(cid);
+    if (!entry) {
+      this.misses++;
+      return false;
+    }
+
+    const cachedPath = path.join(this.cacheDir, cid);
+    const stats = await fs.stat(cachedPath).catch(() => null);
+    if (!stats || stats.size !== entry.size || stats.mtimeMs !== entry.mtimeMs) {
+      logger.warn(`⚠️ Cached source ${cid} changed on disk - dropping it`);
+      await this.remove(cid);
+      this.misses++;
+      return false;
+    }
+
+    await fs.rm(outputPath, { force: true });
+    await fs.link(cachedPath, outputPath).catch(() => fs.copyFile(cachedPath, outputPath));
+    entry.lastUsed = Date.now();
+    await this.saveIndex();
+    this.hits++;
+    logger.info(`📦 Source cache hit for ${cid} (${(entry.size / 1024 / 1024).toFixed(1)}MB)`);
+    return true;
+  }
+
+  /**
+   * Add a fully downloaded source, evicting least recently used entries to make room.
+   * expectedSize is the length the gateway/daemon announced for the CID - a file that doesn't match it is refused
+   * without hashing, and so is one whose content doesn't hash to the CID. Sources larger than the whole quota
+   * (or anything that isn't a CID) are not cached.
+   */
+  async put(cid: string, filePath: string, expectedSize: number): Promise<void> {
+    if (!CID_PATTERN.test(cid)) return;
+    const existing = this.entries.get(cid);
+    if (existing) {
+      existing.lastUsed = Date.now();
+      await this.saveIndex();
+      return;
+    }
+
+    const { size } = await fs.stat(filePath);
+    if (size !== expectedSize) {
+      logger.warn(`⚠️ Not caching ${cid}: downloaded ${size} bytes, expected ${expectedSize}`);
+      return;
+    }
+    if (size === 0 || size > this.quotaBytes) {
+      logger.info(`📦 Not caching ${cid}: ${(size / 1024 / 1024).toFixed(1)}MB does not fit the source cache`);
+      return;
+    }
+    const hash = await this.hashSource(filePath, cid.startsWith('Qm') ? 0 : 1);
+    if (hash !== cid) {
+      logger.warn(`⚠️ Not caching ${cid}: the download hashes to ${hash}`);
+      return;
+    }
+    await this.evict(size);
+
+    // Stage under a temp name so a crash never leaves a partial file under the CID
+    const cachedPath = path.join(this.cacheDir, cid);
+    const stagingPath = `${cachedPath}.${randomUUID()}.tmp`;
+    await fs.link(filePath, stagingPath).catch(() => fs.copyFile(filePath, stagingPath));
+    await fs.rename(stagingPath, cachedPath);
+    const { mtimeMs } = await fs.stat(cachedPath);
+
+    this.entries.set(cid, { size, mtimeMs, lastUsed: Date.now() });
+    await this.saveIndex();
+    logger.info(`📦 Cached source ${cid} (${(size / 1024 / 1024).toFixed(1)}MB)`);
+  }
+
+  getStats(): SourceCacheStats {
+    const bytes = Array.from(this.entries.values()).reduce((sum, entry) => sum + entry.size, 0);
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      entries: this.entries.size,
+      bytes,
+      quotaBytes: this.quotaBytes
+    };
+  }
+
+  /**
+   * Drop least recently used entries until `incoming` more bytes fit under the quota
+   */
+  private async evict(incoming: number): Promise<void> {
+    let bytes = this.getStats().bytes;
+    const lru = Array.from(this.entries.entries()).sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+    for (const [cid, entry] of lru) {
+      if (bytes + incoming <= this.quotaBytes) break;
+      await this.remove(cid);
+      bytes -= entry.size;
+      this.evictions++;
+      logger.info(`📦 Evicted ${cid} from the source cache (${(entry.size / 1024 / 1024).toFixed(1)}MB)`);
+    }
+  }
+
+  private async remove(cid: string): Promise<void> {
+    this.entries.delete(cid);
+    await fs.rm(path.join(this.cacheDir, cid), { force: true });
+    await this.saveIndex();
+  }
+
+  private saveIndex(): Promise<void> {
+    const indexPath = path.join(this.cacheDir, INDEX_FILE);
+    const write = this.indexWrites.then(async () => {
+      await fs.writeFile(`${indexPath}.tmp`, JSON.stringify(Object.fromEntries(this.entries), null, 2));
+      await fs.rename(`${indexPath}.tmp`, indexPath);
+    });
+    this.indexWrites = write.catch(error => {
+      logger.warn('⚠️ Failed to write source cache index:', error);
+    });
+    return write;
+  }
+}
@@ -7,14 +7,15 @@ import { IPFSService } from './IPFSService.js';
 import { IdentityService } from './IdentityService.js';
 import { DashboardService } from './DashboardService.js';
 import { DirectApiService } from './DirectApiService.js';
-import { JobQueue } from './JobQueue.js';
+import { JobQueue, JobPriority, JobCancelResult } from './JobQueue.js';
+import { JobQueueStore } from './JobQueueStore.js';
 import { JobProcessor } from './JobProcessor.js';
 import { PendingPinService } from './PendingPinService.js';
-import { MongoVerifier } from './MongoVerifier.js';
+import { MongoVerifier, JobDocument } from './MongoVerifier.js';
 import { GatewayAidService } from './GatewayAidService.js';
 import cron from 'node-cron';
 import { randomUUID } from 'crypto';
-import { cleanErrorForLogging } from '../common/errorUtils.js';
+import { cleanErrorForLogging, isJobCancelledError } from '../common/errorUtils.js';
 
 export class ThreeSpeakEncoder {
   private config: EncoderConfig;
@@ -31,6 +32,7 @@ export class ThreeSpeakEncoder {
   private isRunning: boolean = false;
   private activeJobs: Map<string, any> = new Map();
   private defensiveTakeoverJobs: Set<string> = new Set(); // Track jobs we've taken via MongoDB fallback
+  private reclaimedGatewayJobs: Set<string> = new Set(); // Interrupted jobs we hold in the gateway while they wait in the queue
   private gatewayFailureCount: number = 0;
   private readonly maxGatewayFailures: number = 3; // Mark offline after 3 consecutive failures
   private lastGatewaySuccess: Date = new Date();
@@ -57,7 +59,9 @@ export class ThreeSpeakEncoder {
     this.jobQueue = new JobQueue(
       config.encoder?.max_concurrent_jobs || 1,
       5, // maxRetries (increased for gateway server issues)
-      3 * 60 * 1000 // 3 minutes (reduced for faster recovery)
+      3 * 60 * 1000, // 3 minutes (reduced for faster recovery)
+      // 💾 Durable queue so jobs and retry state survive restarts
+      config.encoder?.persist_queue !== false ? new JobQueueStore(config.encoder?.queue_db_path) : undefined
     );
     // 🏠 Pass config and IPFS client for local fallback support
     this.pendingPinService = new PendingPinService('./data', config, this.ipfs.getClient());
@@ -67,7 +71,8 @@ export class ThreeSpeakEncoder {
       this.directApi = new DirectApiService(
         config.direct_api.port || 3002,
         config,
-        this.jobQueue
+        this.jobQueue,
+        (jobId, reason) => this.cancelJob(jobId, reason)
       );
     }
   }
@@ -89,11 +94,16 @@ export class ThreeSpeakEncoder {
       await this.pendingPinService.initialize();
       logger.info('✅ Pending pin service ready');
       
+      await this.jobQueue.initialize();
+      logger.info('✅ Job queue ready');
+      
       // Set identity service for gateway client
       this.gateway.setIdentityService(this.identity);
       
       await this.gateway.initialize();
       logger.info('✅ Gateway client ready');
+      
+      await this.reclaimInterruptedJobs();
 
       // Initialize MongoDB verifier (optional - will skip if disabled)
       try {
@@ -220,6 +230,14 @@ export class ThreeSpeakEncoder {
     
     this.activeJobs.clear();
     
+    // Flush and close the persisted job queue
+    try {
+      await this.jobQueue.close();
+      logger.info('✅ Job queue state saved');
+    } catch (error) {
+      logger.warn('⚠️ Failed to close job queue store:', error);
+    }
+    
     // Cleanup MongoDB verifier connection
     if (this.mongoVerifier) {
       try {
@@ -339,6 +357,11 @@ export class ThreeSpeakEncoder {
       // Clean up old cached results
       this.jobQueue.cleanupOldCache();
       
+      // 🧹 Work directories of failed jobs that never came back for a retry
+      this.processor.removeStaleCheckpoints(Array.from(this.activeJobs.keys())).catch(error => {
+        logger.warn('⚠️ Stale checkpoint sweep failed:', error);
+      });
+      
       // Monitor memory usage
       const usage = process.memoryUsage();
       const heapMB = Math.round(usage.heapUsed / 1024 / 1024);
@@ -499,9 +522,6 @@ export class ThreeSpeakEncoder {
       logger.info(`🚁 CLAIMING: Attempting defensive takeover via MongoDB...`);
       await this.mongoVerifier.forceAssignJob(jobId, myDID);
       
-      // Track as defensive takeover job
-      this.defensiveTakeoverJobs.add(jobId);
-      
       // Update rescue statistics
       this.rescuedJobsCount++;
       this.lastRescueTime = new Date();
@@ -519,10 +539,11 @@ export class ThreeSpeakEncoder {
         if (jobDocument) {
           logger.info(`✅ Fetched complete job details for ${jobId}`);
           
-          // Process the job directly (it's already assigned to us via forceAssignJob)
-          await this.processGatewayJob(jobDocument, true); // ownershipAlreadyConfirmed = true
+          // Queue in the rescue lane - the persisted lane marks it as a defensive takeover, so processGatewayJob
+          // skips gateway claiming even after a restart
+          this.jobQueue.addGatewayJob(this.convertMongoJobToVideoJob(jobDocument, JobStatus.QUEUED), JobPriority.RESCUED);
           
-          logger.info(`✅ Rescued job ${jobId} processing started`);
+          logger.info(`✅ Rescued job ${jobId} queued for processing (rescue lane)`);
           
           // Update dashboard
           await this.updateDashboard();
@@ -547,28 +568,32 @@ export class ThreeSpeakEncoder {
     }
   }
 
-  /*
-   * Convert MongoDB job document to VideoJob format
-   * NOTE: Currently unused - rescued jobs use getJobDetails() and processGatewayJob() directly
+  /**
+   * Convert a MongoDB job document to the VideoJob the queue and processor work with
    */
-  /*
-  private convertMongoJobToVideoJob(doc: any): VideoJob {
+  private convertMongoJobToVideoJob(doc: JobDocument, status: JobStatus): VideoJob {
     return {
       id: doc.id,
-      owner: doc.metadata?.video_owner || '',
-      permlink: doc.metadata?.video_permlink || '',
-      size: doc.input?.size || 0,
+      type: 'gateway',
+      status,
       created_at: doc.created_at ? new Date(doc.created_at).toISOString() : new Date().toISOString(),
       input: {
-        uri: doc.input?.uri || '',
-        size: doc.input?.size || 0
+        uri: doc.input.uri,
+        size: doc.input.size
       },
-      status: doc.status,
-      assigned_to: doc.assigned_to,
-      assigned_date: doc.assigned_date ? new Date(doc.assigned_date).toISOString() : null
+      metadata: {
+        video_owner: doc.metadata?.video_owner || 'unknown',
+        video_permlink: doc.metadata?.video_permlink || 'unknown'
+      },
+      storageMetadata: doc.storageMetadata || {
+        app: '3speak',
+        key: `${doc.metadata?.video_owner}/${doc.metadata?.video_permlink}/video`,
+        type: 'video'
+      },
+      profiles: this.processor.getLadderProfiles(),
+      output: []
     };
   }
-  */
 
   /**
    * �🚨 MEMORY SAFE: Fire-and-forget ping job to prevent promise accumulation
@@ -650,6 +675,64 @@ export class ThreeSpeakEncoder {
     return true;
   }
 
+  /**
+   * 🔁 Gateway jobs that were running when the encoder died are back in the queue: re-claim them from the
+   * gateway before they wait there again, and drop the ones it handed to another encoder in the meantime.
+   * Rescued (MongoDB-claimed) jobs keep their takeover and are left alone.
+   */
+  private async reclaimInterruptedJobs(): Promise<void> {
+    const ourDID = this.identity.getDIDKey();
+    for (const jobId of this.jobQueue.getInterruptedJobIds()) {
+      const job = this.jobQueue.getJob(jobId);
+      if (!job || job.type === 'direct' || this.isDefensiveTakeover(jobId)) continue;
+
+      try {
+        const jobStatus = await this.gateway.getJobStatus(jobId);
+        if (jobStatus?.assigned_to === ourDID) {
+          this.reclaimedGatewayJobs.add(jobId);
+          logger.info(`🔁 Interrupted job ${jobId} is still assigned to us - resuming it`);
+        } else if (!jobStatus?.assigned_to) {
+          await this.gateway.acceptJob(jobId);
+          this.reclaimedGatewayJobs.add(jobId);
+          logger.info(`🔁 Re-claimed interrupted job ${jobId}`);
+        } else {
+          this.jobQueue.abandonJob(jobId, `Reassigned to ${jobStatus.assigned_to} while the encoder was down`);
+          await this.processor.discardCheckpoint(jobId);
+        }
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('already accepted by another encoder')) {
+          this.jobQueue.abandonJob(jobId, 'Claimed by another encoder while the encoder was down');
+          await this.processor.discardCheckpoint(jobId);
+          continue;
+        }
+        // processGatewayJob verifies ownership again before encoding, so the job can stay queued
+        logger.warn(`⚠️ Could not re-claim interrupted job ${jobId}:`, cleanErrorForLogging(error));
+      }
+    }
+  }
+
+  /**
+   * 🛡️ Jobs claimed through MongoDB instead of the gateway. Rescued jobs are recognised by their persisted
+   * rescue lane, so the takeover survives a restart; the set covers takeovers made while a job runs.
+   */
+  private isDefensiveTakeover(jobId: string): boolean {
+    return this.defensiveTakeoverJobs.has(jobId) || this.jobQueue.getPriority(jobId) === JobPriority.RESCUED;
+  }
+
+  private markDefensiveTakeover(jobId: string): void {
+    this.defensiveTakeoverJobs.add(jobId);
+    this.jobQueue.setPriority(jobId, JobPriority.RESCUED); // Queued jobs keep the takeover for retries and restarts
+  }
+
+  /**
+   * ♻️ A failed job's work directory is kept for a queued retry to resume from - drop it when none is coming
+   */
+  private async discardWorkDirUnlessRetrying(jobId: string): Promise<void> {
+    if (!this.jobQueue.isRetryScheduled(jobId)) {
+      await this.processor.discardCheckpoint(jobId);
+    }
+  }
+
   private async processQueuedJobs(): Promise<void> {
     // Check if we can process more jobs
     if (this.activeJobs.size >= (this.config.encoder?.max_concurrent_jobs || 1)) {
@@ -671,6 +754,13 @@ export class ThreeSpeakEncoder {
         await this.processGatewayJob(job);
       }
     } catch (error) {
+      // 🛑 Cancelled jobs are already finalized by cancelJob() - just release the slot
+      if (isJobCancelledError(error)) {
+        logger.info(`🛑 Job ${job.id} stopped after cancellation`);
+        this.jobQueue.failJob(job.id, 'Cancelled', false);
+        return;
+      }
+
       logger.error(`❌ Job ${job.id} failed:`, cleanErrorForLogging(error));
       
       // Determine if this error is retryable
@@ -679,11 +769,13 @@ export class ThreeSpeakEncoder {
       
       // Fail job with retry logic
       this.jobQueue.failJob(job.id, errorMessage, isRetryable);
+      const retryInfo = this.jobQueue.getRetryInfo(job.id);
+      const willRetry = !!retryInfo && retryInfo.attempts < retryInfo.maxAttempts;
+      await this.discardWorkDirUnlessRetrying(job.id);
       
       // Update dashboard with job failure
       if (this.dashboard) {
-        const retryInfo = this.jobQueue.getRetryInfo(job.id);
-        if (retryInfo && retryInfo.attempts < retryInfo.maxAttempts) {
+        if (willRetry) {
           // Job will be retried
           this.dashboard.updateJobProgress(job.id, 0, 'retry-pending', {
             error: errorMessage,
@@ -712,7 +804,7 @@ export class ThreeSpeakEncoder {
         type: 'direct-api',
         video_id: `${request.owner}/${request.permlink}`,
         input_uri: `ipfs://${request.input_cid}`,
-        profiles: isShortVideo ? ['480p'] : ['1080p', '720p', '480p'],
+        profiles: this.processor.getLadderProfiles(isShortVideo).map(p => p.name),
         webhook_url: request.webhook_url
       });
     }
@@ -741,17 +833,22 @@ export class ThreeSpeakEncoder {
           key: `${request.owner}/${request.permlink}`,
           type: 'direct'
         },
-        profiles: this.getProfilesForJob(isShortVideo ? ['480p'] : ['1080p', '720p', '480p']),
+        profiles: this.processor.getLadderProfiles(isShortVideo),
         output: [],
         // 🎬 Pass short flag and webhook info to VideoProcessor
         short: request.short,
+        ...(request.segment_format && { segment_format: request.segment_format }),
+        ...(request.dash !== undefined && { dash: request.dash }),
+        ...(request.subtitles && { subtitles: request.subtitles }),
+        ...(request.audio_tracks && { audio_tracks: request.audio_tracks }),
+        ...(request.type && { media_type: request.type }),
         webhook_url: request.webhook_url,
         api_key: request.api_key,
         ...(request.originalFilename && { originalFilename: request.originalFilename })
       };
 
-      // Process video using existing VideoProcessor
-      const result = await this.processor.processVideo(videoJob);
+      // Process video using existing VideoProcessor (signal fires if the job is cancelled)
+      const result = await this.processor.processVideo(videoJob, undefined, undefined, this.jobQueue.getAbortSignal(job.id));
       
       const processingTimeSeconds = (Date.now() - startTime) / 1000;
       
@@ -786,6 +883,40 @@ export class ThreeSpeakEncoder {
           };
           
           // Add optional fields only if defined
+          webhookPayload.media_type = result[0]?.mediaType || 'video';
+          if (result[0]?.download) webhookPayload.download_url = `ipfs://${manifestCid}/${result[0].download}`;
+          if (result[0]?.dashUri) webhookPayload.dash_url = result[0].dashUri;
+          const thumbnails = result[0]?.thumbnails;
+          if (thumbnails) {
+            webhookPayload.poster_url = `ipfs://${manifestCid}/${thumbnails.poster}`;
+            if (thumbnails.posterWebp) webhookPayload.poster_webp_url = `ipfs://${manifestCid}/${thumbnails.posterWebp}`;
+            webhookPayload.thumbnails_vtt_url = `ipfs://${manifestCid}/${thumbnails.vtt}`;
+          }
+          const preview = result[0]?.preview;
+          if (preview) {
+            webhookPayload.preview_url = `ipfs://${manifestCid}/${preview.mp4}`;
+            if (preview.webp) webhookPayload.preview_webp_url = `ipfs://${manifestCid}/${preview.webp}`;
+          }
+          if (result[0]?.loudness) {
+            webhookPayload.loudness_lufs = result[0].loudness.integrated;
+            webhookPayload.loudness_normalized = result[0].loudness.normalized;
+          }
+          if (result[0]?.audioRenditions?.length) {
+            webhookPayload.audio_tracks = result[0].audioRenditions.map(track => ({
+              language: track.language,
+              name: track.name,
+              default: track.default
+            }));
+          }
+          if (result[0]?.subtitles?.length) {
+            webhookPayload.subtitles = result[0].subtitles.map(track => ({
+              language: track.language,
+              name: track.name,
+              url: `ipfs://${manifestCid}/${track.playlist}`
+            }));
+          }
+          if (result[0]?.duration) webhookPayload.duration_seconds = result[0].duration;
+          if (result[0]?.size) webhookPayload.total_size_bytes = result[0].size;
           if (request.frontend_app) webhookPayload.frontend_app = request.frontend_app;
           if (request.originalFilename) webhookPayload.originalFilename = request.originalFilename;
           
@@ -802,10 +933,16 @@ export class ThreeSpeakEncoder {
       }
       
     } catch (error) {
+      // 🛑 Cancelled - the cancelled webhook was already sent by cancelJob()
+      if (isJobCancelledError(error)) {
+        throw error;
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error(`❌ Direct job ${job.id} failed:`, cleanErrorForLogging(error));
       
       this.jobQueue.failJob(job.id, errorMessage);
+      await this.discardWorkDirUnlessRetrying(job.id);
       
       // 🔔 Send failure webhook if URL provided
       if (request.webhook_url) {
@@ -843,7 +980,7 @@ export class ThreeSpeakEncoder {
     let ownershipCheckInterval: NodeJS.Timeout | null = null;
     
     // 🛡️ DEFENSIVE_CHECK: If this job was previously taken via MongoDB, force offline processing
-    if (this.defensiveTakeoverJobs.has(jobId)) {
+    if (this.isDefensiveTakeover(jobId)) {
       logger.info(`🔒 DEFENSIVE_OVERRIDE: Job ${jobId} was previously taken via MongoDB - forcing offline mode`);
       ownershipAlreadyConfirmed = true; // Force skip all gateway interactions
     }
@@ -868,7 +1005,7 @@ export class ThreeSpeakEncoder {
         permlink: job.metadata?.video_permlink || 'unknown',
         size: job.input?.size || 0,
         input_uri: job.input?.uri || 'unknown',
-        profiles: job.profiles?.map((p: any) => p.name) || ['1080p', '720p', '480p']
+        profiles: job.profiles?.map((p: any) => p.name) || this.processor.getLadderProfiles().map(p => p.name)
       });
     }
     
@@ -940,7 +1077,7 @@ export class ThreeSpeakEncoder {
                     usedMongoDBFallback = true; // 🎯 CRITICAL: Mark that we used MongoDB fallback
                     
                     // 🛡️ PERSISTENT_STATE: Mark this job as defensively taken over to prevent future gateway calls
-                    this.defensiveTakeoverJobs.add(jobId);
+                    this.markDefensiveTakeover(jobId);
                     logger.info(`🔒 DEFENSIVE_LOCK: Job ${jobId} permanently marked as MongoDB-controlled`)
                   } else if (!mongoResult.actualOwner) {
                     // Job is still unassigned - TAKE CONTROL
@@ -956,7 +1093,7 @@ export class ThreeSpeakEncoder {
                       usedMongoDBFallback = true; // 🎯 CRITICAL: Mark that we used MongoDB fallback
                       
                       // 🛡️ PERSISTENT_STATE: Mark this job as defensively taken over to prevent future gateway calls
-                      this.defensiveTakeoverJobs.add(jobId);
+                      this.markDefensiveTakeover(jobId);
                       logger.info(`🔒 DEFENSIVE_LOCK: Job ${jobId} permanently marked as MongoDB-controlled`)
                       
                     } catch (forceAssignError) {
@@ -1245,7 +1382,7 @@ export class ThreeSpeakEncoder {
               logger.warn(`⚠️ Gateway Aid progress update failed (non-critical):`, err);
             });
           }
-        });
+        }, undefined, this.jobQueue.getAbortSignal(jobId));
         
         // Cache the result before attempting gateway notification
         this.jobQueue.cacheResult(jobId, result);
@@ -1395,7 +1532,7 @@ export class ThreeSpeakEncoder {
           // �🏴‍☠️ COMPLETE TAKEOVER: Update MongoDB directly when gateway is unreliable
           // 🏴‍☠️ AGGRESSIVE TAKEOVER: Use MongoDB for completion in these cases:
           // 1. Used MongoDB fallback during processing (usedMongoDBFallback)
-          // 2. Job was defensively taken over (this.defensiveTakeoverJobs.has)
+          // 2. Job was defensively taken over (this.isDefensiveTakeover)
           // 3. Manual job processing (ownershipAlreadyConfirmed) - prefer MongoDB over unreliable gateway
           // 4. 🏠 LOCAL IPFS FALLBACK: Used local IPFS instead of supernode (check pin database)
           let usedLocalFallback = false;
@@ -1420,14 +1557,14 @@ export class ThreeSpeakEncoder {
           }
           
           const shouldUseMongoTakeover = (usedMongoDBFallback || 
-                                         this.defensiveTakeoverJobs.has(jobId) || 
+                                         this.isDefensiveTakeover(jobId) || 
                                          ownershipAlreadyConfirmed ||
                                          usedLocalFallback) && 
                                          this.mongoVerifier.isEnabled();
           
           if (shouldUseMongoTakeover) {
             const reason = usedMongoDBFallback ? "MongoDB fallback used" : 
-                          this.defensiveTakeoverJobs.has(jobId) ? "defensive takeover active" : 
+                          this.isDefensiveTakeover(jobId) ? "defensive takeover active" : 
                           ownershipAlreadyConfirmed ? "manual job processing" :
                           "local IPFS fallback used";
             logger.info(`🏴‍☠️ COMPLETE_TAKEOVER: Updating job completion directly in MongoDB (${reason})`);
@@ -1478,6 +1615,12 @@ export class ThreeSpeakEncoder {
       logger.info(`🛡️ TANK MODE: Content uploaded, pinned, and announced to DHT`);
 
     } catch (error) {
+      // 🛑 Cancelled by the operator - cancelJob() already released the job, nothing to report
+      if (isJobCancelledError(error)) {
+        logger.info(`🛑 Gateway job ${jobId} cancelled - skipping failure reporting`);
+        throw error;
+      }
+
       // 🔍 CRITICAL: Don't log as "failed" yet - might be a race condition we need to skip
       logger.warn(`⚠️ Gateway job ${jobId} encountered error (investigating...):`, cleanErrorForLogging(error));
       
@@ -1698,6 +1841,7 @@ export class ThreeSpeakEncoder {
         // Clean up from active jobs since we're skipping
         this.activeJobs.delete(jobId);
         this.defensiveTakeoverJobs.delete(jobId); // Clean up defensive takeover tracking
+        await this.processor.discardCheckpoint(jobId); // Nothing to resume for a job that isn't ours
         
         // Log as completed (skipped) for tracking purposes
         logger.info(`🏁 JOB_SKIPPED: Encoder ${ourDID} gracefully skipped job ${jobId} at ${new Date().toISOString()}`);
@@ -1718,22 +1862,13 @@ export class ThreeSpeakEncoder {
       
       this.activeJobs.delete(jobId);
       this.defensiveTakeoverJobs.delete(jobId); // Clean up defensive takeover tracking
+      this.reclaimedGatewayJobs.delete(jobId); // Once started, a cancel aborts it like any running job
       await this.updateDashboard();
       
       logger.info(`🏁 JOB_COMPLETE: Encoder ${ourDID} finished processing job ${jobId} at ${new Date().toISOString()}`);
     }
   }
 
-  private getProfilesForJob(profiles: string[]) {
-    const profileMap: { [key: string]: any } = {
-      '1080p': { name: '1080p', size: '?x1080', width: 1920, height: 1080, bitrate: '4000k' },
-      '720p': { name: '720p', size: '?x720', width: 1280, height: 720, bitrate: '2500k' },
-      '480p': { name: '480p', size: '?x480', width: 854, height: 480, bitrate: '1000k' }
-    };
-    
-    return profiles.map(p => profileMap[p] || profileMap['720p']);
-  }
-
   private async checkForNewJobs(): Promise<void> {
     try {
       // First, update dashboard with available jobs and gateway stats
@@ -1849,7 +1984,7 @@ export class ThreeSpeakEncoder {
     
     try {
       // 🛡️ DEFENSIVE_CHECK: Skip gateway calls if we've previously taken control via MongoDB
-      if (this.defensiveTakeoverJobs.has(jobId)) {
+      if (this.isDefensiveTakeover(jobId)) {
         logger.info(`🔒 DEFENSIVE_SKIP: Job ${jobId} was previously taken via MongoDB - skipping acceptJob()`);
         this.activeJobs.set(jobId, job);
         logger.info(`✅ Job ownership confirmed via MongoDB: ${jobId}`);
@@ -1943,7 +2078,7 @@ export class ThreeSpeakEncoder {
       logger.info(`📋 Sending result to gateway: ${JSON.stringify(gatewayResult)}`);
       
       // 🏴‍☠️ COMPLETE TAKEOVER: Skip gateway if this job was defensively taken over
-      if (this.defensiveTakeoverJobs.has(jobId) && this.mongoVerifier.isEnabled()) {
+      if (this.isDefensiveTakeover(jobId) && this.mongoVerifier.isEnabled()) {
         logger.info(`🏴‍☠️ COMPLETE_TAKEOVER: Job ${jobId} was defensively taken - updating MongoDB directly`);
         logger.info(`📊 MONGO_UPDATE: Setting job ${jobId} as complete with CID: ${gatewayResult.ipfs_hash}`);
         
@@ -2016,12 +2151,70 @@ export class ThreeSpeakEncoder {
       } catch (reportError) {
         logger.error(`Failed to report job failure for ${jobId}:`, reportError);
       }
+      await this.discardWorkDirUnlessRetrying(jobId);
     } finally {
       this.activeJobs.delete(jobId);
       this.defensiveTakeoverJobs.delete(jobId); // Clean up defensive takeover tracking
     }
   }
 
+  /**
+   * 🛑 Cancel a queued or running job (Direct API DELETE /job/:jobId and dashboard)
+   * Running jobs are aborted through their AbortSignal: ffmpeg is killed, the
+   * download/upload is aborted and VideoProcessor removes the work directory
+   */
+  async cancelJob(jobId: string, reason: string = 'Cancelled by user'): Promise<JobCancelResult> {
+    const job = this.jobQueue.getJob(jobId);
+    const defensiveTakeover = this.isDefensiveTakeover(jobId); // The rescue lane goes with the queue entry
+    const result = this.jobQueue.cancelJob(jobId, reason);
+    const heldInGateway = result === 'aborted' || this.reclaimedGatewayJobs.delete(jobId);
+    if (!job || (result !== 'removed' && result !== 'aborted')) {
+      return result;
+    }
+
+    if (this.dashboard) {
+      this.dashboard.cancelJob(jobId, reason);
+    }
+    await this.updateDashboard();
+
+    if (job.type === 'direct') {
+      // 🔔 Let the requester know the job will never complete
+      const request = job.request;
+      if (request.webhook_url) {
+        try {
+          const { WebhookService } = await import('./WebhookService.js');
+          const webhookService = new WebhookService();
+          
+          await webhookService.sendWebhook(request.webhook_url, {
+            owner: request.owner,
+            permlink: request.permlink,
+            input_cid: request.input_cid,
+            status: 'cancelled',
+            job_id: job.id,
+            processing_time_seconds: 0,
+            qualities_encoded: [],
+            encoder_id: this.config.node?.name || 'unknown',
+            error: reason,
+            timestamp: new Date().toISOString()
+          }, request.api_key);
+        } catch (webhookError) {
+          logger.warn(`⚠️ Cancelled webhook delivery failed for job ${jobId}:`, webhookError);
+        }
+      }
+    } else if (heldInGateway && !defensiveTakeover) {
+      // Running jobs and re-claimed interrupted ones are assigned to us - other queued jobs were never accepted
+      try {
+        await this.gateway.rejectJob(jobId);
+        logger.info(`✅ Released cancelled job ${jobId} in gateway`);
+      } catch (error) {
+        logger.warn(`⚠️ Failed to release cancelled job ${jobId} in gateway:`, cleanErrorForLogging(error));
+      }
+    }
+
+    logger.info(`🛑 Job ${jobId} cancelled (${result}): ${reason}`);
+    return result;
+  }
+
   /**
    * Manually release a stuck job
    */
@@ -2057,7 +2250,7 @@ export class ThreeSpeakEncoder {
     
     try {
       // 🛡️ DEFENSIVE_CHECK: Skip all gateway calls if we've previously taken control via MongoDB
-      if (this.defensiveTakeoverJobs.has(jobId)) {
+      if (this.isDefensiveTakeover(jobId)) {
         logger.info(`🔒 DEFENSIVE_SKIP: Job ${jobId} was previously taken via MongoDB - skipping all gateway calls`);
         logger.info(`🎯 PROCEEDING: Processing job offline without gateway communication`);
         
@@ -2086,7 +2279,7 @@ export class ThreeSpeakEncoder {
               jobOwnershipConfirmed = true;
               
               // 🏴‍☠️ MARK FOR COMPLETE TAKEOVER: Since we're using MongoDB as source of truth, mark for complete takeover
-              this.defensiveTakeoverJobs.add(jobId);
+              this.markDefensiveTakeover(jobId);
               logger.info(`🔒 DEFENSIVE_MARK: Job ${jobId} marked for complete MongoDB control (manual processing)`)
             } else {
               logger.warn(`⚠️ MONGODB_CONFLICT: Job ${jobId} is assigned to another encoder: ${mongoResult.actualOwner}`);
@@ -2165,14 +2358,14 @@ export class ThreeSpeakEncoder {
           status: 'accepted',
           input: jobDetails.input || { uri: 'unknown', size: 0 },
           metadata: jobDetails.metadata || {},
-          profiles: jobDetails.profiles || ['1080p', '720p', '480p']
+          profiles: jobDetails.profiles || this.processor.getLadderProfiles().map(p => p.name)
         } : {
           id: jobId,
           type: 'gateway', 
           status: 'accepted',
           input: { uri: 'unknown', size: 0 },
           metadata: { video_permlink: jobId },
-          profiles: ['1080p', '720p', '480p']
+          profiles: this.processor.getLadderProfiles().map(p => p.name)
         };
         
         logger.info(`🚀 Starting manual processing for job: ${jobId}`);
@@ -2184,6 +2377,7 @@ export class ThreeSpeakEncoder {
       
     } catch (error) {
       logger.error(`❌ Failed to manually process job ${jobId}:`, error);
+      await this.discardWorkDirUnlessRetrying(jobId);
       
       // Update dashboard with failure
       if (this.dashboard) {
@@ -2265,27 +2459,7 @@ export class ThreeSpeakEncoder {
       // Step 4: Convert MongoDB job to VideoJob format for processing
       logger.info(`🔄 Step 3: Converting to internal job format...`);
       
-      const videoJob: VideoJob = {
-        id: jobDoc.id,
-        type: 'gateway',
-        status: JobStatus.RUNNING,
-        created_at: jobDoc.created_at.toISOString(),
-        input: {
-          uri: jobDoc.input.uri,
-          size: jobDoc.input.size
-        },
-        metadata: {
-          video_owner: jobDoc.metadata?.video_owner || 'unknown',
-          video_permlink: jobDoc.metadata?.video_permlink || 'unknown'
-        },
-        storageMetadata: jobDoc.storageMetadata || {
-          app: '3speak',
-          key: `${jobDoc.metadata?.video_owner}/${jobDoc.metadata?.video_permlink}/video`,
-          type: 'video'
-        },
-        profiles: this.getProfilesForJob(['1080p', '720p', '480p']),
-        output: []
-      };
+      const videoJob = this.convertMongoJobToVideoJob(jobDoc, JobStatus.RUNNING);
 
       // Step 5: Mark as running in MongoDB
       await this.mongoVerifier.updateJob(jobId, {
@@ -2301,7 +2475,7 @@ export class ThreeSpeakEncoder {
           type: 'force-processing',
           video_id: jobDoc.metadata?.video_permlink || jobId,
           input_uri: jobDoc.input.uri,
-          profiles: ['1080p', '720p', '480p']
+          profiles: this.processor.getLadderProfiles().map(p => p.name)
         });
       }
 
@@ -2350,6 +2524,7 @@ export class ThreeSpeakEncoder {
 
     } catch (error) {
       logger.error(`❌ Force processing failed for job ${jobId}:`, error);
+      await this.discardWorkDirUnlessRetrying(jobId);
       
       // Try to mark as failed in MongoDB
       try {
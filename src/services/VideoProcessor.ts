@@ -1,20 +1,95 @@
 import ffmpeg from 'fluent-ffmpeg';
-import { EncoderConfig } from '../config/ConfigLoader.js';
-import { VideoJob, EncodedOutput, CodecCapability, EncodingProgress, FileProbeResult, ProbeIssue, StreamInfo, EncodingStrategy } from '../types/index.js';
+import { EncoderConfig, EncodingRung, ENCODING_RUNGS, ExtraCodec, getEncodingLadder } from '../config/ConfigLoader.js';
+import { VideoJob, VideoProfile, EncodedOutput, PerTitleDecision, SegmentFormat, LoudnessInfo, CodecCapability, EncodingProgress, FileProbeResult, Hdr10Metadata, ProbeIssue, StreamInfo, EncodingStrategy, AudioRendition } from '../types/index.js';
 import { logger } from './Logger.js';
 import { promises as fs } from 'fs';
-import { createWriteStream } from 'fs';
+import { createWriteStream, createReadStream } from 'fs';
 import { join, dirname } from 'path';
 import { tmpdir } from 'os';
-import { randomUUID } from 'crypto';
+import { randomUUID, createHash } from 'crypto';
 import { IPFSService } from './IPFSService.js';
 import { DashboardService } from './DashboardService.js';
-import { cleanErrorForLogging } from '../common/errorUtils.js';
+import { SourceCache, getSourceCid } from './SourceCache.js';
+import { getCancellationError, getToneMapFilter, runFfmpeg, throwIfCancelled } from './encoding/ffmpeg.js';
+import { generateThumbnails } from './encoding/thumbnails.js';
+import { generatePreviewClip } from './encoding/preview.js';
+import { extractSubtitles } from './encoding/subtitles.js';
+import { measureQuality } from './encoding/quality.js';
+import { createDashManifest, createMasterPlaylist } from './encoding/manifests.js';
+import { encodeAudioOnly, encodeAudioRenditions, getLoudnormFilter, measureLoudness, selectAudioTracks } from './encoding/audio.js';
+import { calculateAdaptiveSegmentDuration, getSegmentExtension, getSegmentOptions, measureOutput, readMediaPlaylist } from './encoding/hls.js';
+import { parseBitrate, parseFramerate } from './encoding/codecs.js';
+import { cleanErrorForLogging, isJobCancelledError } from '../common/errorUtils.js';
+
+/**
+ * A ladder rung fitted to the source: width/height are the actual output dimensions
+ */
+interface Rendition extends EncodingRung {
+  portrait: boolean;  // Scale on width instead of height (rung height is the short side)
+  native: boolean;    // Extra rung at source resolution (source sits between ladder rungs)
+  frameRate: string;  // Output frame rate as ffmpeg takes it, e.g. "60", "25", "30000/1001"
+}
+
+/**
+ * ♻️ Resume state kept in the job's work directory: the downloaded source and every finished
+ * rendition, so a retry (or a restart after a crash) skips the download and completed rungs
+ */
+interface EncodeCheckpoint {
+  sourceUri: string;
+  sourceHash: string; // sha256 of source.mp4 once fully downloaded
+  renditions: Record<string, { fingerprint: string; output: EncodedOutput }>; // By output name (720p, 720p_hevc)
+}
+
+const CHECKPOINT_FILE = 'checkpoint.json';
+const CHECKPOINT_MAX_AGE_HOURS = 24; // Work directories whose checkpoint hasn't been written for this long are removed
+
+/**
+ * Opt-in renditions next to the H.264 ladder. Software encoders so CPU-only nodes can
+ * produce them; bitrates are the H.264 rung's scaled by the codec's efficiency.
+ */
+const EXTRA_CODECS: Record<ExtraCodec, { encoder: string; bitrateFactor: number }> = {
+  hevc: { encoder: 'libx265', bitrateFactor: 0.6 },
+  av1: { encoder: 'libsvtav1', bitrateFactor: 0.5 }
+};
+
+// Output color tags: BT.709 for the tone-mapped SDR ladder, BT.2020/PQ for the HDR10 rendition
+const SDR_COLOR_TAGS = ['-color_primaries', 'bt709', '-color_trc', 'bt709', '-colorspace', 'bt709', '-color_range', 'tv'];
+const HDR10_COLOR_TAGS = ['-color_primaries', 'bt2020', '-color_trc', 'smpte2084', '-colorspace', 'bt2020nc', '-color_range', 'tv'];
+
+// Frame rate policy: rungs from 720p up keep native rates up to 60fps, lower rungs are capped at 30
+const HIGH_FPS_MIN_HEIGHT = 720;
+const LOW_FPS_FLOOR = 15; // Slower sources get frames duplicated up to this rate
+const VFR_TOLERANCE = 0.02; // Relative gap between base (r_frame_rate) and average rate that counts as VFR
+const STANDARD_FRAME_RATES = [24000 / 1001, 24, 25, 30000 / 1001, 30, 48, 50, 60000 / 1001, 60];
+
+// Segment boundaries of two rungs further apart than this (seconds) break seamless ABR switching.
+// Covers the frame-time offset between rungs at different frame rates (one frame at 24fps ≈ 0.042s)
+const SEGMENT_ALIGNMENT_TOLERANCE = 0.1;
+
+// Output validation before upload: listed duration vs source (or the 60s short trim)
+const HLS_DURATION_TOLERANCE_SECONDS = 2;
+const HLS_DURATION_TOLERANCE_RATIO = 0.02;
+
+// Per-title: CRF probe encodes of evenly spread scenes, compared with what typical 720p30 content needs
+// at that CRF (the stock ladder is sized for it). Bitrate caps follow the ratio within the clamp
+const PER_TITLE_SAMPLES = 4;
+const PER_TITLE_SAMPLE_SECONDS = 3;
+const PER_TITLE_PROBE_CRF = 23;
+const PER_TITLE_PROBE_HEIGHT = 720;
+const PER_TITLE_REFERENCE_KBPS = 2000;
+const PER_TITLE_MIN_FACTOR = 0.5;
+const PER_TITLE_MAX_FACTOR = 1.5;
+const DEFAULT_X264_CRF = 19;
 
 export class VideoProcessor {
   private config: EncoderConfig;
   private availableCodecs: CodecCapability[] = [];
+  private availableExtraCodecs: ExtraCodec[] = [];
+  private toneMapAvailable = false; // zscale (libzimg) + tonemap filters in this FFmpeg build
+  private hdr10Available = false;   // libx265 for the optional HDR10 rendition
+  private vmafAvailable = false;    // libvmaf filter for quality scoring (SSIM/PSNR always work)
   private tempDir: string;
+  private sourceCache: SourceCache;
   private ipfsService: IPFSService;
   private dashboard: DashboardService | undefined;
   private currentJobId?: string;
@@ -24,6 +99,7 @@ export class VideoProcessor {
     this.ipfsService = ipfsService;
     this.dashboard = dashboard;
     this.tempDir = config.encoder?.temp_dir || join(tmpdir(), '3speak-encoder');
+    this.sourceCache = new SourceCache(this.tempDir, config.encoder?.source_cache_gb ?? 0, (filePath, cidVersion) => this.ipfsService.hashFile(filePath, cidVersion));
   }
   
   setCurrentJob(jobId: string): void {
@@ -34,6 +110,11 @@ export class VideoProcessor {
     try {
       // Ensure temp directory exists
       await fs.mkdir(this.tempDir, { recursive: true });
+      await this.removeStaleCheckpoints();
+      if (this.sourceCache.enabled) {
+        await this.sourceCache.initialize();
+        this.reportSourceCache();
+      }
       
       // Test FFmpeg availability
       await this.testFFmpeg();
@@ -140,6 +221,34 @@ export class VideoProcessor {
       });
     });
 
+    // 🧬 Configured HEVC/AV1 renditions need their software encoder in this FFmpeg build
+    this.availableExtraCodecs = (this.config.encoder?.extra_codecs || []).filter(extraCodec => {
+      const { encoder } = EXTRA_CODECS[extraCodec];
+      if (!availableEncoders[encoder]) {
+        logger.warn(`⚠️ ${encoder} not available in FFmpeg build - ${extraCodec} renditions disabled`);
+        return false;
+      }
+      logger.info(`📋 ${encoder} is available for extra ${extraCodec} renditions`);
+      return true;
+    });
+
+    // 🌈 HDR -> SDR tone mapping needs zscale; the HDR10 rendition needs libx265
+    const availableFilters = await new Promise<any>((resolve) => {
+      ffmpeg.getAvailableFilters((err, filters) => resolve(err ? {} : filters));
+    });
+    this.toneMapAvailable = !!availableFilters.zscale && !!availableFilters.tonemap;
+    if (!this.toneMapAvailable) {
+      logger.warn(`⚠️ zscale/tonemap filters not available in FFmpeg build - HDR sources will only be converted to 8-bit (washed-out colors)`);
+    }
+    this.hdr10Available = !!availableEncoders['libx265'];
+    this.vmafAvailable = !!availableFilters.libvmaf;
+    if (this.config.encoder?.quality_metrics && !this.vmafAvailable) {
+      logger.warn(`⚠️ libvmaf not available in FFmpeg build - quality scoring will use SSIM/PSNR only`);
+    }
+    if (this.config.encoder?.hdr10_rendition && !this.hdr10Available) {
+      logger.warn(`⚠️ libx265 not available in FFmpeg build - HDR10 renditions disabled`);
+    }
+
     for (const codec of codecs) {
       if (availableEncoders[codec.name]) {
         codec.available = true;
@@ -365,8 +474,9 @@ export class VideoProcessor {
         }
 
         try {
-          // Find video and audio streams
-          const videoStream = metadata.streams.find(s => s.codec_type === 'video');
+          // Find video and audio streams (cover art in MP3/M4A is an attached_pic "video" stream, not video)
+          const videoStreams = metadata.streams.filter(s => s.codec_type === 'video' && !s.disposition?.attached_pic);
+          const videoStream = videoStreams[0];
           const audioStream = metadata.streams.find(s => s.codec_type === 'audio');
           const extraStreams = metadata.streams.filter(s => 
             s.codec_type !== 'video' && s.codec_type !== 'audio'
@@ -421,6 +531,7 @@ export class VideoProcessor {
                                sd.side_data_type === 'Mastering display metadata' ||
                                sd.side_data_type === 'Content light level metadata'
                              );
+          const hdr10 = this.getHdr10Metadata((videoStream as any)?.side_data_list);
 
           // Collect extra streams info
           const streamInfos: StreamInfo[] = extraStreams.map(s => {
@@ -442,7 +553,7 @@ export class VideoProcessor {
               severity: 'warning',
               type: 'extra_streams',
               message: `File contains ${extraStreams.length} non-media stream(s) (metadata, subtitles, etc.)`,
-              suggestion: 'Will use -map 0:v:0 -map 0:a:0 to select only video and audio'
+              suggestion: 'Will use -map 0:v:0 -map 0:a:0 to select only video and audio (text subtitles are extracted to WebVTT separately)'
             });
           }
 
@@ -472,7 +583,9 @@ export class VideoProcessor {
               severity: 'info',
               type: 'hdr_metadata',
               message: `Video contains HDR metadata (${colorTransfer})`,
-              suggestion: 'Will flatten to SDR for universal compatibility'
+              suggestion: colorTransfer === 'smpte2084' || colorTransfer === 'arib-std-b67'
+                ? 'Will tone map to SDR BT.709 for universal compatibility'
+                : 'Will flatten to SDR for universal compatibility'
             });
           }
 
@@ -526,14 +639,31 @@ export class VideoProcessor {
             });
           }
 
+          // Frame rate: r_frame_rate is the base rate; phone VFR footage reports a ceiling there (e.g. 120 or 600),
+          // so VFR sources use the average rate snapped to the nearest standard rate
+          const baseFramerate = videoStream?.r_frame_rate ? parseFramerate(videoStream.r_frame_rate) || 0 : 0;
+          const averageFramerate = videoStream?.avg_frame_rate ? parseFramerate(videoStream.avg_frame_rate) || 0 : 0;
+          const variableFramerate = baseFramerate > 0 && averageFramerate > 0 &&
+            Math.abs(baseFramerate - averageFramerate) / averageFramerate > VFR_TOLERANCE;
+          const framerate = variableFramerate ? this.snapFramerate(averageFramerate) : (baseFramerate || 30);
+          
+          // Issue: Variable frame rate (phone footage) - judders unless converted to constant
+          if (variableFramerate) {
+            issues.push({
+              severity: 'info',
+              type: 'variable_framerate',
+              message: `Variable framerate: ${averageFramerate.toFixed(2)}fps average, ${baseFramerate.toFixed(2)}fps base`,
+              suggestion: `Will convert to constant ${Math.round(framerate * 1000) / 1000}fps`
+            });
+          }
+          
           // Issue: Non-standard framerates
-          const framerate = videoStream?.r_frame_rate ? this.parseFramerate(videoStream.r_frame_rate) : 30;
           if (framerate > 60) {
             issues.push({
               severity: 'warning',
               type: 'high_framerate',
               message: `High framerate detected: ${framerate}fps`,
-              suggestion: 'Will normalize to 30fps for HLS streaming'
+              suggestion: 'Will reduce to 60fps or less by dropping whole frames (lower rungs to 30fps or less)'
             });
           }
 
@@ -607,7 +737,18 @@ export class VideoProcessor {
                                    bitsPerSecond < 500000 || // <500kbps total bitrate
                                    (fileSizeBytes < 500 * 1024 * 1024 && durationSeconds > 1800); // <500MB for >30min video
           
-          if (isUltraCompressed) {
+          // 🎧 Audio-only source (podcast, music): no picture to encode
+          const audioOnly = videoStreams.length === 0 && !!audioStream;
+          if (audioOnly) {
+            issues.push({
+              severity: 'info',
+              type: 'audio_only',
+              message: `No video stream - audio-only source (${audioCodec})`,
+              suggestion: 'Will produce an audio HLS ladder and a downloadable audio file'
+            });
+          }
+          
+          if (isUltraCompressed && !audioOnly) {
             issues.push({
               severity: 'info',
               type: 'ultra_compressed',
@@ -629,9 +770,20 @@ export class VideoProcessor {
               height: videoStream?.height || 1080
             },
             framerate,
+            variableFramerate,
             duration: metadata.format?.duration || 0,
-            videoStreamCount: metadata.streams.filter(s => s.codec_type === 'video').length,
+            videoStreamCount: videoStreams.length,
             audioStreamCount: metadata.streams.filter(s => s.codec_type === 'audio').length,
+            audioOnly,
+            audioTracks: metadata.streams
+              .filter(s => s.codec_type === 'audio')
+              .map(s => ({
+                index: s.index,
+                ...(s.codec_name && { codec: s.codec_name }),
+                ...(s.channels && { channels: s.channels }),
+                ...(s.tags?.language && { language: String(s.tags.language) }),
+                ...(s.tags?.title && { title: String(s.tags.title) })
+              })),
             extraStreams: streamInfos,
             issues,
             rawMetadata: metadata
@@ -639,10 +791,15 @@ export class VideoProcessor {
           
           // Add optional properties only if they exist
           if (colorSpace) result.colorSpace = colorSpace;
+          if (hdr10) result.hdr10 = hdr10;
           if (colorTransfer) result.colorTransfer = colorTransfer;
           if (metadata.format?.bit_rate) result.bitrate = parseInt(String(metadata.format.bit_rate));
 
-          logger.info(`🔍 File probe complete: ${container}/${videoCodec}/${pixelFormat} ${result.resolution.width}x${result.resolution.height}@${framerate}fps`);
+          if (audioOnly) {
+            logger.info(`🔍 File probe complete: ${container}/${audioCodec} audio-only, ${result.duration.toFixed(1)}s`);
+          } else {
+            logger.info(`🔍 File probe complete: ${container}/${videoCodec}/${pixelFormat} ${result.resolution.width}x${result.resolution.height}@${framerate}fps`);
+          }
           if (issues.length > 0) {
             logger.info(`⚠️ Detected ${issues.length} compatibility issue(s):`);
             issues.forEach(issue => {
@@ -687,14 +844,36 @@ export class VideoProcessor {
   }
 
   /**
-   * Parse ffmpeg framerate fraction (e.g., "30000/1001" -> 29.97)
+   * 🌈 Static HDR10 metadata (mastering display + content light level) from stream side data,
+   * in the units x265 expects: chromaticities in 0.00002, luminance in 0.0001 cd/m²
    */
-  private parseFramerate(frameRateStr: string): number {
-    const parts = frameRateStr.split('/');
-    if (parts.length === 2) {
-      return parseInt(parts[0]!) / parseInt(parts[1]!);
+  private getHdr10Metadata(sideData: any[] | undefined): Hdr10Metadata | null {
+    const ratio = (value: unknown) => parseFramerate(String(value ?? '0')) || 0;
+    const mastering = sideData?.find(sd => sd.side_data_type === 'Mastering display metadata');
+    const lightLevel = sideData?.find(sd => sd.side_data_type === 'Content light level metadata');
+    const metadata: Hdr10Metadata = {};
+    
+    if (mastering?.red_x !== undefined) {
+      const xy = (x: unknown, y: unknown) => `(${Math.round(ratio(x) * 50000)},${Math.round(ratio(y) * 50000)})`;
+      metadata.masterDisplay = `G${xy(mastering.green_x, mastering.green_y)}` +
+        `B${xy(mastering.blue_x, mastering.blue_y)}` +
+        `R${xy(mastering.red_x, mastering.red_y)}` +
+        `WP${xy(mastering.white_point_x, mastering.white_point_y)}` +
+        `L(${Math.round(ratio(mastering.max_luminance) * 10000)},${Math.round(ratio(mastering.min_luminance) * 10000)})`;
+    }
+    if (lightLevel?.max_content !== undefined) {
+      metadata.maxCll = `${lightLevel.max_content},${lightLevel.max_average ?? 0}`;
     }
-    return parseFloat(frameRateStr);
+    
+    return metadata.masterDisplay || metadata.maxCll ? metadata : null;
+  }
+
+  /**
+   * Nearest standard frame rate (within 3%), otherwise the rate rounded to a whole number
+   */
+  private snapFramerate(fps: number): number {
+    const nearest = STANDARD_FRAME_RATES.reduce((best, rate) => Math.abs(rate - fps) < Math.abs(best - fps) ? rate : best);
+    return Math.abs(nearest - fps) / nearest < 0.03 ? nearest : Math.round(fps);
   }
 
   /**
@@ -785,13 +964,21 @@ export class VideoProcessor {
     }
 
     // 1. Handle extra metadata streams (iPhone .mov files)
+    // Subtitle streams are not lost here - extractSubtitles() converts them to WebVTT renditions
     if (probe.extraStreams.length > 0) {
       strategy.mapOptions.push('-map', '0:v:0', '-map', '0:a:0');
       reasons.push(`exclude ${probe.extraStreams.length} metadata stream(s)`);
     }
 
     // 2. Handle high bit depth / HDR content
-    if (probe.bitDepth > 8 || probe.hdrMetadata) {
+    const hdrTransfer = probe.colorTransfer === 'smpte2084' || probe.colorTransfer === 'arib-std-b67' ? probe.colorTransfer : null;
+    if (hdrTransfer && this.toneMapAvailable) {
+      // PQ/HLG would look washed out as plain 8-bit - tone map to BT.709 on the CPU and tag the output
+      strategy.toneMap = hdrTransfer;
+      strategy.videoFilters.push(getToneMapFilter(hdrTransfer));
+      strategy.extraOptions.push(...SDR_COLOR_TAGS);
+      reasons.push(`tone map ${hdrTransfer === 'smpte2084' ? 'HDR10/PQ' : 'HLG'} to SDR BT.709 (software encode)`);
+    } else if (probe.bitDepth > 8 || probe.hdrMetadata) {
       strategy.videoFilters.push('format=yuv420p');
       reasons.push(`convert ${probe.bitDepth}-bit to 8-bit yuv420p`);
     }
@@ -862,10 +1049,14 @@ export class VideoProcessor {
       logger.warn(`   ⚠️  Output will be LARGER but universally playable in browsers`);
     }
 
-    // 5. High framerate normalization
+    // 5. Frame rate: the per-rung policy lives in planRenditions (fps filter in every encode);
+    // VFR sources are additionally forced to constant frame rate at the muxer
+    if (probe.variableFramerate) {
+      strategy.extraOptions.push('-vsync', 'cfr'); // Still accepted next to -fps_mode on newer FFmpeg, and works on 4.x
+      reasons.push(`variable framerate → constant ${Math.round(probe.framerate * 1000) / 1000}fps`);
+    }
     if (probe.framerate > 60) {
-      // FPS filter already applied in encoding, just note it
-      reasons.push(`normalize ${probe.framerate}fps to 30fps`);
+      reasons.push(`reduce ${probe.framerate}fps to 60fps or less`);
     }
 
     // 6. 🚨 EXTREME CASE HANDLING: Ultra-long videos
@@ -888,17 +1079,16 @@ export class VideoProcessor {
     }
 
     // 8. 🚨 LOW FRAMERATE HANDLING: Duplicate frames to normalize
-    if (probe.framerate < 15 && probe.framerate > 0) {
+    if (probe.framerate < LOW_FPS_FLOOR && probe.framerate > 0) {
       // Use fps filter to normalize low framerates to 15fps minimum
-      strategy.videoFilters.push(`fps=fps=15`);
-      reasons.push(`normalize ${probe.framerate}fps to 15fps minimum`);
+      strategy.videoFilters.push(`fps=fps=${LOW_FPS_FLOOR}`);
+      reasons.push(`normalize ${probe.framerate}fps to ${LOW_FPS_FLOOR}fps minimum`);
     }
 
-    // 9. 🚨 TINY RESOLUTION: Prevent extreme upscaling issues
+    // 9. 🚨 TINY RESOLUTION: Ladder is capped at the source (planRenditions), just use the sharper scaler
     if (probe.resolution.width < 480 || probe.resolution.height < 360) {
-      // Add scaling strategy to handle tiny resolutions better
-      strategy.extraOptions.push('-sws_flags', 'lanczos'); // Better upscaling algorithm
-      reasons.push(`tiny resolution ${probe.resolution.width}x${probe.resolution.height} - use better upscaling`);
+      strategy.extraOptions.push('-sws_flags', 'lanczos');
+      reasons.push(`tiny resolution ${probe.resolution.width}x${probe.resolution.height} - native-resolution rung only, lanczos scaling`);
     }
 
     // 10. 🚨 CYRILLIC/UNICODE METADATA: Handle encoding issues
@@ -918,7 +1108,8 @@ export class VideoProcessor {
   async processVideo(
     job: VideoJob,
     progressCallback?: (progress: EncodingProgress) => void,
-    onPinFailed?: (hash: string, error: Error) => void
+    onPinFailed?: (hash: string, error: Error) => void,
+    signal?: AbortSignal // 🛑 Fired when the job is cancelled - kills ffmpeg / aborts download & upload
   ): Promise<EncodedOutput[]> {
     const jobId = job.id;
     const workDir = join(this.tempDir, jobId);
@@ -928,21 +1119,52 @@ export class VideoProcessor {
     logger.info(`🔍 DEBUG: job.short = ${job.short}, type = ${typeof job.short}`);
     const isShortVideo = job.short === true;
     logger.info(`🔍 DEBUG: isShortVideo = ${isShortVideo}`);
+    const ladder = getEncodingLadder(this.config, isShortVideo);
+    const ladderNames = ladder.map(rung => rung.name).join(', ');
     if (isShortVideo) {
-      logger.info(`📱 SHORT VIDEO MODE: Will process 480p only, 60-second max duration`);
+      logger.info(`📱 SHORT VIDEO MODE: Will process ${ladderNames}, 60-second max duration`);
     } else {
-      logger.info(`🎬 STANDARD MODE: Will process all qualities, full video length`);
+      logger.info(`🎬 STANDARD MODE: Will process ${ladderNames}, full video length`);
     }
+    const dash = job.dash ?? this.config.encoder?.dash ?? false;
+    let segmentFormat: SegmentFormat = job.segment_format || this.config.encoder?.segment_format || 'ts';
+    if (dash && segmentFormat !== 'fmp4') {
+      logger.info(`📺 DASH requested - switching to fMP4 segments so HLS and DASH share them`);
+      segmentFormat = 'fmp4';
+    }
+    // 🧬 HEVC/AV1 renditions are always fMP4 on their own; the H.264 ladder keeps the configured format
+    const extraCodecs = this.availableExtraCodecs;
+    logger.info(`🧩 HLS segments: ${segmentFormat === 'fmp4' ? 'fMP4/CMAF (.m4s)' : 'MPEG-TS (.ts)'}`);
+    
+    let keepWorkDir = false;
     
     try {
+      // ♻️ A retry of this job picks up the source and finished rungs of the previous attempt
+      const sourceFile = join(workDir, 'source.mp4');
+      let checkpoint = await this.loadCheckpoint(workDir, job.input.uri, sourceFile);
+      
       // Create work and outputs directories
       await fs.mkdir(workDir, { recursive: true });
       await fs.mkdir(outputsDir, { recursive: true });
       
       // Download source video (temporary, will be deleted after encoding)
-      const sourceFile = join(workDir, 'source.mp4');
-      logger.info(`📥 Downloading source video for job ${jobId}`);
-      await this.downloadVideo(job.input.uri, sourceFile);
+      if (checkpoint) {
+        logger.info(`♻️ Reusing downloaded source for job ${jobId} (${Object.keys(checkpoint.renditions).length} rendition(s) checkpointed)`);
+        // Anything not checkpointed (interrupted rung, thumbnails, manifests) is rebuilt from scratch
+        const kept = new Set(Object.values(checkpoint.renditions).map(entry => dirname(entry.output.playlist)));
+        for (const entry of await fs.readdir(outputsDir)) {
+          if (!kept.has(join(outputsDir, entry))) {
+            await fs.rm(join(outputsDir, entry), { recursive: true, force: true });
+          }
+        }
+      } else {
+        logger.info(`📥 Fetching source video for job ${jobId}`);
+        await this.fetchSource(job.input.uri, sourceFile, signal);
+        throwIfCancelled(jobId, signal);
+        checkpoint = { sourceUri: job.input.uri, sourceHash: await this.hashFile(sourceFile), renditions: {} };
+        await this.saveCheckpoint(workDir, checkpoint);
+      }
+      keepWorkDir = true;
       
       // 🔍 NEW: Probe input file to detect format and compatibility issues
       logger.info(`🔍 Probing input file for compatibility...`);
@@ -965,11 +1187,77 @@ export class VideoProcessor {
       
       // Process each quality profile OR use passthrough mode
       const outputs: EncodedOutput[] = [];
+      let renditions: EncodingRung[] = ladder;
+      let plannedProfiles: Rendition[] = [];
+      
+      // 🎧 Audio-only pipeline: requested by the job or detected by the probe (no video stream)
+      const audioOnly = job.media_type === 'audio' || probeResult?.audioOnly === true;
+      if (audioOnly && probeResult?.audioStreamCount === 0) {
+        throw new Error(`Audio job ${jobId} has no audio stream in the source`);
+      }
       
       // Check if we should use passthrough mode for ultra-compressed content
-      const isPassthrough = encodingStrategy?.codecPriority.includes('copy') || false;
+      const isPassthrough = !audioOnly && (encodingStrategy?.codecPriority.includes('copy') || false);
+      
+      // 🌈 HDR10 rendition next to the tone-mapped SDR ladder (PQ sources only, needs fMP4 for HEVC)
+      const keepHdr10 = !audioOnly && !isPassthrough && this.config.encoder?.hdr10_rendition === true &&
+        this.hdr10Available && probeResult?.colorTransfer === 'smpte2084';
+      if (keepHdr10 && segmentFormat !== 'fmp4') {
+        logger.info(`🌈 HDR10 rendition needs fMP4 segments - switching segment format`);
+        segmentFormat = 'fmp4';
+      } else if (this.config.encoder?.hdr10_rendition && probeResult?.colorTransfer === 'arib-std-b67') {
+        logger.info(`🌈 HLG source - HDR10 rendition only made for PQ sources, SDR ladder only`);
+      }
+      
+      // 🔊 Audio tracks to keep: the first is muxed into the video renditions, the rest become alternates.
+      // Map it explicitly on multi-track sources - ffmpeg would otherwise pick the track with most channels
+      const audioSelection = isPassthrough ? [] : selectAudioTracks(probeResult, job.audio_tracks);
+      if (encodingStrategy && !audioOnly && audioSelection.length > 0 && probeResult!.audioTracks.length > 1) {
+        encodingStrategy.audioStream = audioSelection[0]!;
+        encodingStrategy.mapOptions = ['-map', '0:v:0', '-map', `0:a:${audioSelection[0]}`];
+      }
+      
+      // 📺 DASH keeps video and audio in separate AdaptationSets: the video renditions are encoded
+      // without audio and every kept track, the default one included, gets its own audio rendition
+      if (dash && !audioOnly && encodingStrategy && audioSelection.length > 0) {
+        encodingStrategy.demuxAudio = true;
+        encodingStrategy.mapOptions = ['-map', '0:v:0'];
+      }
+      const demuxAudio = encodingStrategy?.demuxAudio === true;
+      
+      // 🔊 EBU R128 first pass on the default track; the second pass runs inside every rendition
+      let loudness: LoudnessInfo | null = null;
+      if (this.config.encoder?.loudnorm && probeResult && probeResult.audioStreamCount > 0) {
+        loudness = await measureLoudness(sourceFile, audioSelection[0] ?? 0, this.config.encoder?.loudnorm_target ?? -16, isShortVideo, signal);
+        if (loudness && !isPassthrough && encodingStrategy) {
+          encodingStrategy.audioFilters = [getLoudnormFilter(loudness)];
+        } else if (loudness) {
+          logger.info(`🔊 Audio is copied in passthrough mode - loudness measured (${loudness.integrated} LUFS) but not normalized`);
+          loudness = { ...loudness, normalized: false };
+        }
+      }
       
-      if (isPassthrough) {
+      let download: string | null = null;
+      if (audioOnly) {
+        // 🎧 AAC HLS ladder + one downloadable file, no video renditions
+        logger.info(`🎧 AUDIO-ONLY MODE: ${(this.config.encoder?.audio_ladder ?? ['128k', '64k']).join(', ')} AAC ladder`);
+        renditions = [];
+        const audioOutputs = await encodeAudioOnly(
+          sourceFile,
+          outputsDir,
+          audioSelection[0] ?? 0,
+          encodingStrategy?.audioFilters ?? [],
+          this.config.encoder?.audio_ladder ?? ['128k', '64k'],
+          this.config.encoder?.audio_download_format ?? 'm4a',
+          segmentFormat,
+          isShortVideo,
+          jobId,
+          progressCallback,
+          signal
+        );
+        outputs.push(...audioOutputs.outputs);
+        download = audioOutputs.download;
+      } else if (isPassthrough) {
         // Passthrough mode: Single HLS output with copy codecs
         logger.info(`🔄 Processing with passthrough mode (no re-encoding)`);
         if (isShortVideo) {
@@ -990,72 +1278,268 @@ export class VideoProcessor {
               });
             }
           },
-          isShortVideo // 📱 Pass short flag to passthrough mode
+          isShortVideo, // 📱 Pass short flag to passthrough mode
+          segmentFormat,
+          signal
         );
         
         outputs.push(passthroughOutput);
       } else {
-        // 📱 Short video mode: 480p only
-        // 🎬 Standard mode: All qualities
-        const profiles = isShortVideo 
-          ? [{ name: '480p', height: 480 }]
-          : [
-              { name: '1080p', height: 1080 },
-              { name: '720p', height: 720 },
-              { name: '480p', height: 480 }
-            ];
-
-      for (let i = 0; i < profiles.length; i++) {
-        const profile = profiles[i]!;
-        logger.info(`🎬 Processing ${profile.name} for job ${jobId}`);
-        
-        const output = await this.encodeProfile(
-          sourceFile,
-          profile,
-          outputsDir, // Encode directly to outputs directory
-          (progress) => {
-            if (progressCallback) {
-              const totalProgress = ((i / profiles.length) + (progress / 100 / profiles.length)) * 100;
-              progressCallback({
-                jobId,
-                profile: profile.name,
-                percent: totalProgress
-              });
+        // 📱 Short video mode: short ladder (480p by default)
+        // 🎬 Standard mode: configured ladder
+        // 📐 Both trimmed to the source so we never upscale
+        // 📈 Per-title: bitrate caps and CRF scaled to how hard this source is to compress
+        if (this.config.encoder?.per_title && probeResult && encodingStrategy) {
+          await this.analyzeComplexity(sourceFile, probeResult, encodingStrategy, isShortVideo, jobId, signal);
+        }
+        const profiles = this.applyPerTitle(this.planRenditions(ladder, probeResult), encodingStrategy);
+        renditions = profiles;
+        plannedProfiles = profiles;
+        logger.info(`📐 Renditions for job ${jobId}: ${profiles.map(r => `${r.name} (${r.width}x${r.height}${r.native ? ', native' : ''})`).join(', ')}`);
+
+        // ♻️ Rungs an earlier attempt finished with the same settings (and that still validate) are kept
+        const fingerprint = (name: string, rendition: Rendition) =>
+          this.getRenditionFingerprint(name, rendition, segmentFormat, isShortVideo, encodingStrategy);
+        const resumed = new Map<string, EncodedOutput>();
+        for (const profile of profiles) {
+          const output = await this.getCheckpointedRendition(checkpoint, profile.name, fingerprint(profile.name, profile));
+          if (output) resumed.set(profile.name, output);
+        }
+        const pendingProfiles = profiles.filter(profile => !resumed.has(profile.name));
+        if (resumed.size > 0) {
+          logger.info(`♻️ Resuming job ${jobId}: ${[...resumed.keys()].join(', ')} already encoded`);
+        }
+        const encoded: EncodedOutput[] = [];
+
+        // ⚡ SINGLE PASS: decode the source once and encode every rung from a split filter graph
+        let singlePassOutputs: EncodedOutput[] | null = null;
+        if (this.config.encoder?.single_pass !== false && pendingProfiles.length > 1) {
+          throwIfCancelled(jobId, signal);
+          singlePassOutputs = await this.encodeAllProfiles(
+            sourceFile,
+            pendingProfiles,
+            outputsDir,
+            (progress) => {
+              if (progressCallback) {
+                progressCallback({
+                  jobId,
+                  profile: 'all',
+                  percent: progress
+                });
+              }
+            },
+            encodingStrategy,
+            isShortVideo,
+            !encodingStrategy?.demuxAudio && (probeResult ? probeResult.audioStreamCount > 0 : true),
+            segmentFormat,
+            signal
+          );
+        }
+
+        if (singlePassOutputs) {
+          encoded.push(...singlePassOutputs);
+          for (const output of singlePassOutputs) {
+            const profile = pendingProfiles.find(pending => pending.name === output.profile);
+            if (profile) await this.checkpointRendition(workDir, checkpoint, output, fingerprint(profile.name, profile));
+          }
+        } else {
+          for (let i = 0; i < pendingProfiles.length; i++) {
+            const profile = pendingProfiles[i]!;
+            throwIfCancelled(jobId, signal);
+            logger.info(`🎬 Processing ${profile.name} for job ${jobId}`);
+
+            const output = await this.encodeProfile(
+              sourceFile,
+              profile,
+              outputsDir, // Encode directly to outputs directory
+              (progress) => {
+                if (progressCallback) {
+                  const totalProgress = ((i / pendingProfiles.length) + (progress / 100 / pendingProfiles.length)) * 100;
+                  progressCallback({
+                    jobId,
+                    profile: profile.name,
+                    percent: totalProgress
+                  });
+                }
+              },
+              encodingStrategy, // Pass the encoding strategy
+              isShortVideo, // 📱 Pass short video flag
+              segmentFormat,
+              signal
+            );
+
+            encoded.push(output);
+            await this.checkpointRendition(workDir, checkpoint, output, fingerprint(profile.name, profile));
+          }
+        }
+
+        // Ladder order, whichever attempt encoded the rung
+        for (const profile of profiles) {
+          const output = resumed.get(profile.name) ?? encoded.find(candidate => candidate.profile === profile.name);
+          if (output) outputs.push(output);
+        }
+
+        // 🧬 Opt-in HEVC/AV1 renditions on top of the complete H.264 ladder
+        for (const extraCodec of extraCodecs) {
+          for (const profile of profiles) {
+            const name = `${profile.name}_${extraCodec}`;
+            const resumedOutput = await this.getCheckpointedRendition(checkpoint, name, fingerprint(name, profile));
+            if (resumedOutput) {
+              outputs.push(resumedOutput);
+              continue;
             }
-          },
-          encodingStrategy, // Pass the encoding strategy
-          isShortVideo // 📱 Pass short video flag
-        );
-        
-        outputs.push(output);
-      }
-      
-      logger.info(`🎉 All profiles completed for job ${jobId}`);
+            throwIfCancelled(jobId, signal);
+            logger.info(`🧬 Processing ${profile.name} ${extraCodec} for job ${jobId}`);
+
+            const output = await this.encodeExtraCodecProfile(
+              sourceFile,
+              profile,
+              extraCodec,
+              outputsDir,
+              (progress) => {
+                if (progressCallback) {
+                  progressCallback({
+                    jobId,
+                    profile: name,
+                    percent: progress
+                  });
+                }
+              },
+              encodingStrategy,
+              isShortVideo,
+              signal
+            );
+
+            if (output) {
+              outputs.push(output);
+              await this.checkpointRendition(workDir, checkpoint, output, fingerprint(name, profile));
+            }
+          }
+        }
+
+        if (keepHdr10 && profiles[0]) {
+          const name = `${profiles[0].name}_hdr10`;
+          const resumedOutput = await this.getCheckpointedRendition(checkpoint, name, fingerprint(name, profiles[0]));
+          if (resumedOutput) {
+            outputs.push(resumedOutput);
+          } else {
+            throwIfCancelled(jobId, signal);
+            logger.info(`🌈 Processing ${profiles[0].name} HDR10 for job ${jobId}`);
+            const output = await this.encodeHdr10Profile(
+              sourceFile,
+              profiles[0],
+              probeResult?.hdr10,
+              outputsDir,
+              (progress) => {
+                if (progressCallback) {
+                  progressCallback({
+                    jobId,
+                    profile: name,
+                    percent: progress
+                  });
+                }
+              },
+              encodingStrategy,
+              isShortVideo,
+              signal
+            );
+            if (output) {
+              outputs.push(output);
+              await this.checkpointRendition(workDir, checkpoint, output, fingerprint(name, profiles[0]));
+            }
+          }
+        }
+
+        logger.info(`🎉 All profiles completed for job ${jobId}`);
       } // End of else block for standard encoding
       
-      // 🗑️ Delete source file immediately after encoding (no longer needed)
-      try {
-        await fs.unlink(sourceFile);
-        logger.info(`🗑️ Source file deleted: ${sourceFile}`);
-      } catch (error) {
-        logger.warn(`⚠️ Failed to delete source file:`, error);
+      // 🔎 Validate every rendition before anything is uploaded: a broken ladder rung is re-encoded once
+      const sourceDuration = probeResult?.duration || 0;
+      const expectedDuration = sourceDuration > 0 ? (isShortVideo ? Math.min(60, sourceDuration) : sourceDuration) : null;
+      const validOutputs = await this.validateOutputs(outputs, expectedDuration, jobId, async (output) => {
+        const profile = plannedProfiles.find(planned => planned.name === output.profile);
+        if (!profile) return null;
+        logger.info(`🔁 Re-encoding ${profile.name} for job ${jobId} after failed validation`);
+        await fs.rm(join(outputsDir, profile.name), { recursive: true, force: true });
+        const reencoded = await this.encodeProfile(sourceFile, profile, outputsDir, undefined, encodingStrategy, isShortVideo, segmentFormat, signal);
+        await this.checkpointRendition(workDir, checkpoint, reencoded,
+          this.getRenditionFingerprint(profile.name, profile, segmentFormat, isShortVideo, encodingStrategy));
+        return reencoded;
+      }, signal);
+      outputs.splice(0, outputs.length, ...validOutputs);
+      
+      // 🔊 Alternate (or, demuxed, all) audio tracks as audio-only renditions (AUDIO group in the master playlist)
+      const encodedAudioRenditions = await encodeAudioRenditions(
+        sourceFile,
+        outputsDir,
+        probeResult,
+        audioOnly ? [] : audioSelection,
+        ladder[0]?.audio_bitrate || '128k',
+        segmentFormat,
+        isShortVideo,
+        this.config.encoder?.loudnorm ? this.config.encoder.loudnorm_target ?? -16 : null,
+        demuxAudio,
+        jobId,
+        signal
+      );
+      const audioRenditions = await this.validateAudioRenditions(encodedAudioRenditions, outputsDir, expectedDuration, demuxAudio, jobId, signal);
+      
+      // 📏 Replace placeholder metadata with what ffmpeg actually wrote
+      for (let i = 0; i < outputs.length; i++) {
+        outputs[i] = await measureOutput(outputs[i]!);
       }
       
+      // 🎯 SSIM/PSNR (+VMAF) of each rung against the source scaled to the same size
+      if (this.config.encoder?.quality_metrics && plannedProfiles.length > 0) {
+        await measureQuality(sourceFile, outputs, plannedProfiles, encodingStrategy, {
+          floorVmaf: this.config.encoder?.quality_floor_vmaf ?? 80,
+          floorSsim: this.config.encoder?.quality_floor_ssim ?? 0.95,
+          vmaf: this.vmafAvailable
+        }, jobId, signal);
+      }
+      const master = this.aggregateOutputs(outputs);
+      
+      // 🖼️ Poster, sprite sheets and WebVTT thumbnail track - taken from the full-quality source
+      const thumbnails = this.config.encoder?.thumbnails === true && !audioOnly
+        ? await generateThumbnails(sourceFile, outputsDir, master, encodingStrategy?.toneMap, jobId, signal)
+        : null;
+      
+      // 🎞️ Muted hover preview from the most active section (probe data picks the windows)
+      const preview = this.config.encoder?.preview_clip && !audioOnly
+        ? await generatePreviewClip(sourceFile, outputsDir, probeResult, isShortVideo, this.config.encoder?.preview_clip_duration ?? 4, encodingStrategy?.toneMap, jobId, signal)
+        : null;
+      
+      // 💬 Embedded text subtitles + external SRT/VTT files -> WebVTT subtitle renditions
+      const subtitles = await extractSubtitles(
+        sourceFile, outputsDir, probeResult, job.subtitles || [], master.duration, isShortVideo,
+        segmentFormat === 'ts' && outputs[0] ? outputs[0].playlist : null,
+        (uri, outputPath, downloadSignal) => this.downloadVideo(uri, outputPath, downloadSignal), jobId, signal
+      );
+      
       // Create master playlist (manifest.m3u8) that references all profiles
-      await this.createMasterPlaylist(outputs, outputsDir);
+      await createMasterPlaylist(outputs, outputsDir, renditions, subtitles, audioRenditions);
+      let hasDashManifest = false;
+      if (dash && !audioOnly && !demuxAudio && probeResult?.audioStreamCount !== 0) {
+        logger.warn(`⚠️ DASH needs the audio encoded apart from the video (passthrough or unprobed source) - skipping manifest.mpd`);
+      } else if (dash && !audioOnly) {
+        hasDashManifest = await createDashManifest(outputs, outputsDir, subtitles, audioRenditions);
+      }
+      throwIfCancelled(jobId, signal);
       
       // Upload ONLY the encoded outputs directory to IPFS (no source file!)
+      // The source stays in the work directory until this succeeds so a retry can resume without a re-download
       logger.info(`📤 Uploading encoded outputs to IPFS for job ${jobId} (source file excluded)`);
       
       // 🚨 PINATA-STYLE: Upload and get CID immediately, handle pinning in background
-      const ipfsHash = await this.ipfsService.uploadDirectory(outputsDir, false, onPinFailed);
+      const ipfsHash = await this.ipfsService.uploadDirectory(outputsDir, false, onPinFailed, signal);
+      throwIfCancelled(jobId, signal);
       
       // 🎯 MANUAL COMPLETION: Log CID prominently for manual job finishing
       logger.info(`🎉 ═══════════════════════════════════════════════════════════════`);
       logger.info(`🎯 JOB ${jobId}: IPFS CID READY FOR MANUAL COMPLETION`);
       logger.info(`📱 CID: ${ipfsHash}`);
       logger.info(`🔗 Gateway: https://gateway.3speak.tv/ipfs/${ipfsHash}/manifest.m3u8`);
-      logger.info(`✅ Content Size: 1282MB | Files: 1701 | Status: UPLOADED`);
+      logger.info(`✅ Content Size: ${(master.size / 1024 / 1024).toFixed(1)}MB | Segments: ${master.segmentCount} | Status: UPLOADED`);
       logger.info(`🛠️ MANUAL FINISH: Use this CID to complete job if encoder gets stuck`);
       logger.info(`🎉 ═══════════════════════════════════════════════════════════════`);
       
@@ -1069,43 +1553,230 @@ export class VideoProcessor {
         }, 100);
       }
       
-      // Create final outputs with master playlist
+      // Create final outputs: master playlist first, then each measured rendition
       const masterPlaylistUri = `ipfs://${ipfsHash}/manifest.m3u8`;
-      const uploadedOutputs: EncodedOutput[] = [{
-        profile: 'master',
-        path: join(outputsDir, 'manifest.m3u8'),
-        size: 0, // Will be calculated
-        duration: 0,
-        segments: [],
-        playlist: join(outputsDir, 'manifest.m3u8'),
-        ipfsHash: ipfsHash,
-        uri: masterPlaylistUri
-      }];
+      const uploadedOutputs: EncodedOutput[] = [
+        {
+          ...master,
+          path: join(outputsDir, 'manifest.m3u8'),
+          playlist: join(outputsDir, 'manifest.m3u8'),
+          ipfsHash: ipfsHash,
+          uri: masterPlaylistUri,
+          ...(hasDashManifest && { dashUri: `ipfs://${ipfsHash}/manifest.mpd` }),
+          ...(thumbnails && { thumbnails }),
+          ...(preview && { preview }),
+          ...(subtitles.length > 0 && { subtitles }),
+          ...(audioRenditions.length > 0 && { audioRenditions }),
+          ...(loudness && { loudness }),
+          ...(outputs.length > 1 && { segmentsAligned: true }), // Misaligned ladders fail validation
+          ...(audioOnly && { mediaType: 'audio' as const }),
+          ...(download && { download })
+        },
+        ...outputs.map(output => ({
+          ...output,
+          ipfsHash: ipfsHash,
+          uri: `ipfs://${ipfsHash}/${output.profile}/index.m3u8`
+        }))
+      ];
       
       logger.info(`✅ Complete HLS structure uploaded to IPFS: ${ipfsHash}`);
       logger.info(`🎬 Master playlist available at: ${masterPlaylistUri}`);
       
+      keepWorkDir = false;
       return uploadedOutputs;
       
     } catch (error) {
+      // 🛑 Whatever broke after a cancel (killed ffmpeg, aborted stream) is reported as the cancellation
+      if (signal?.aborted) {
+        keepWorkDir = false;
+        logger.warn(`🛑 Video processing cancelled for job ${jobId}`);
+        throw getCancellationError(jobId, signal);
+      }
       logger.error(`❌ Video processing failed for job ${jobId}:`, cleanErrorForLogging(error));
       throw error;
     } finally {
-      // Cleanup work directory
+      // Cleanup work directory - failed attempts keep it (source + checkpoint) for the retry
+      if (keepWorkDir) {
+        logger.info(`♻️ Keeping ${workDir} so a retry of job ${jobId} can resume`);
+      } else {
+        await this.discardCheckpoint(jobId);
+      }
+    }
+  }
+
+  /**
+   * 🗑️ Remove a job's work directory (source, checkpoint, partial outputs) once it won't be retried
+   */
+  async discardCheckpoint(jobId: string): Promise<void> {
+    const workDir = join(this.tempDir, jobId);
+    try {
+      await fs.rm(workDir, { recursive: true, force: true });
+    } catch (cleanupError) {
+      logger.warn(`⚠️ Failed to cleanup ${workDir}:`, cleanupError);
+    }
+  }
+
+  /**
+   * ♻️ Read the checkpoint of an earlier attempt. It is only trusted when it belongs to the same source
+   * URI and source.mp4 still hashes to what was downloaded; otherwise the work directory is wiped
+   * (partial download, other input) and null is returned.
+   */
+  private async loadCheckpoint(workDir: string, sourceUri: string, sourceFile: string): Promise<EncodeCheckpoint | null> {
+    try {
+      const checkpoint: EncodeCheckpoint = JSON.parse(await fs.readFile(join(workDir, CHECKPOINT_FILE), 'utf8'));
+      if (checkpoint.sourceUri === sourceUri && checkpoint.renditions &&
+          await this.hashFile(sourceFile) === checkpoint.sourceHash) {
+        return checkpoint;
+      }
+      logger.warn(`⚠️ Checkpoint in ${workDir} does not match the source - starting over`);
+    } catch {
+      // No checkpoint (first attempt) or unreadable - start clean
+    }
+    await fs.rm(workDir, { recursive: true, force: true });
+    return null;
+  }
+
+  private async saveCheckpoint(workDir: string, checkpoint: EncodeCheckpoint): Promise<void> {
+    // Write-then-rename so a crash mid-write never leaves a truncated checkpoint
+    const checkpointPath = join(workDir, CHECKPOINT_FILE);
+    await fs.writeFile(`${checkpointPath}.tmp`, JSON.stringify(checkpoint, null, 2));
+    await fs.rename(`${checkpointPath}.tmp`, checkpointPath);
+  }
+
+  /**
+   * Record a finished rendition in the checkpoint (best effort - a failed write only costs a re-encode)
+   */
+  private async checkpointRendition(workDir: string, checkpoint: EncodeCheckpoint, output: EncodedOutput, fingerprint: string): Promise<void> {
+    checkpoint.renditions[output.profile] = { fingerprint, output };
+    try {
+      await this.saveCheckpoint(workDir, checkpoint);
+    } catch (error) {
+      logger.warn(`⚠️ Could not checkpoint ${output.profile}:`, error);
+    }
+  }
+
+  /**
+   * A checkpointed rendition, when it was encoded with the same settings and its files still pass validation
+   */
+  private async getCheckpointedRendition(checkpoint: EncodeCheckpoint, name: string, fingerprint: string): Promise<EncodedOutput | null> {
+    const entry = checkpoint.renditions[name];
+    if (!entry || entry.fingerprint !== fingerprint) return null;
+    
+    const problems = await this.validateRendition(entry.output, null);
+    if (problems.length > 0) {
+      logger.warn(`⚠️ Checkpointed ${name} is no longer valid (${problems.join('; ')}) - re-encoding`);
+      delete checkpoint.renditions[name];
+      return null;
+    }
+    return entry.output;
+  }
+
+  /**
+   * Settings that shape a rendition's bytes: rung (name carries the codec), segment format, trim and the
+   * strategy's filters/output flags. The source is covered by the checkpoint's own hash. Strategy fields
+   * that vary between attempts without changing the output (hwaccel input flags, codec fallback order,
+   * reason text, per-title measurements) are left out so they don't throw finished rungs away.
+   */
+  private getRenditionFingerprint(
+    name: string,
+    rendition: Rendition,
+    segmentFormat: SegmentFormat,
+    isShortVideo: boolean,
+    strategy: EncodingStrategy | null
+  ): string {
+    return createHash('sha256')
+      .update(JSON.stringify({
+        name,
+        rendition,
+        segmentFormat,
+        isShortVideo,
+        strategy: strategy && {
+          mapOptions: strategy.mapOptions,
+          videoFilters: strategy.videoFilters,
+          extraOptions: strategy.extraOptions,
+          audioStream: strategy.audioStream,
+          audioFilters: strategy.audioFilters,
+          demuxAudio: strategy.demuxAudio,
+          toneMap: strategy.toneMap,
+          crf: strategy.perTitle?.crf // Its bitrate factor is already in the rung
+        }
+      }))
+      .digest('hex');
+  }
+
+  private hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = createHash('sha256');
+      createReadStream(filePath)
+        .on('data', chunk => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+    });
+  }
+
+  /**
+   * 🧹 Drop work directories whose checkpoint is older than CHECKPOINT_MAX_AGE_HOURS (job never retried).
+   * Runs at startup and periodically from the encoder; directories of running jobs are skipped.
+   */
+  async removeStaleCheckpoints(activeJobIds: string[] = []): Promise<void> {
+    const cutoff = Date.now() - CHECKPOINT_MAX_AGE_HOURS * 3600 * 1000;
+    const entries = await fs.readdir(this.tempDir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      if (!entry.isDirectory() || activeJobIds.includes(entry.name)) continue;
+      const workDir = join(this.tempDir, entry.name);
+      const stats = await fs.stat(join(workDir, CHECKPOINT_FILE)).catch(() => null);
+      if (stats && stats.mtimeMs < cutoff) {
+        logger.info(`🧹 Removing stale checkpoint ${workDir}`);
+        await fs.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * 📦 Job source from the CID-keyed cache when it has it, otherwise downloaded and added to the cache
+   * (only when its size matches the length announced for the CID and its content hashes to the CID)
+   */
+  private async fetchSource(uri: string, outputPath: string, signal?: AbortSignal): Promise<void> {
+    const cid = this.sourceCache.enabled ? getSourceCid(uri) : null;
+    if (cid) {
+      try {
+        if (await this.sourceCache.get(cid, outputPath)) {
+          this.reportSourceCache();
+          return;
+        }
+      } catch (error) {
+        logger.warn(`⚠️ Source cache lookup failed for ${cid} - downloading:`, error);
+      }
+    }
+    
+    const expectedSize = await this.downloadVideo(uri, outputPath, signal);
+    
+    if (cid) {
       try {
-        await fs.rm(workDir, { recursive: true, force: true });
-      } catch (cleanupError) {
-        logger.warn(`⚠️ Failed to cleanup ${workDir}:`, cleanupError);
+        if (expectedSize === null) {
+          logger.info(`📦 Not caching ${cid}: no content length to verify the download against`);
+        } else {
+          await this.sourceCache.put(cid, outputPath, expectedSize);
+        }
+      } catch (error) {
+        logger.warn(`⚠️ Could not add ${cid} to the source cache:`, error);
       }
+      this.reportSourceCache();
     }
   }
 
-  private async downloadVideo(uri: string, outputPath: string): Promise<void> {
+  private reportSourceCache(): void {
+    this.dashboard?.updateNodeStatus({ sourceCache: this.sourceCache.getStats() });
+  }
+
+  /**
+   * Download a job source. Resolves to the size the server announced, null when unknown.
+   */
+  private async downloadVideo(uri: string, outputPath: string, signal?: AbortSignal): Promise<number | null> {
     logger.info(`📥 Downloading video from: ${uri}`);
     
-    // Extract IPFS hash if it's an IPFS URL
-    const ipfsMatch = uri.match(/\/ipfs\/([a-zA-Z0-9]+)/);
-    const ipfsHash = ipfsMatch ? ipfsMatch[1] : null;
+    // Extract IPFS hash if it's an IPFS URL (gateway URL or ipfs://)
+    const ipfsHash = getSourceCid(uri);
     
     if (ipfsHash) {
       // 🎯 SMART TWO-TIER FALLBACK for IPFS content
@@ -1113,20 +1784,22 @@ export class VideoProcessor {
       // Tier 1: Try 3Speak gateway first (direct access to their infrastructure)
       try {
         logger.info('🎯 Trying 3Speak IPFS gateway (direct access)');
-        await this.downloadFromGateway('https://ipfs.3speak.tv', ipfsHash, outputPath);
+        const size = await this.downloadFromGateway('https://ipfs.3speak.tv', ipfsHash, outputPath, signal);
         logger.info('✅ Successfully downloaded via 3Speak gateway');
-        return;
+        return size;
       } catch (error: any) {
+        if (signal?.aborted) throw error; // Cancelled - don't fall back
         logger.warn(`⚠️ 3Speak gateway failed: ${error.message}`, cleanErrorForLogging(error));
         logger.info('🔍 Falling back to local IPFS daemon (P2P network)');
       }
       
       // Tier 2: Fallback to local IPFS daemon (P2P network discovery)
       try {
-        await this.downloadFromLocalIPFS(ipfsHash, outputPath);
+        const size = await this.downloadFromLocalIPFS(ipfsHash, outputPath, signal);
         logger.info('✅ Successfully downloaded via local IPFS daemon');
-        return;
+        return size;
       } catch (error: any) {
+        if (signal?.aborted) throw error;
         logger.error(`❌ Local IPFS daemon failed: ${error.message}`, cleanErrorForLogging(error));
         throw new Error(`Both 3Speak gateway and local IPFS failed. Gateway: ${error.message}`);
       }
@@ -1134,16 +1807,17 @@ export class VideoProcessor {
     } else if (uri.startsWith('file://')) {
       // Handle local file:// URLs by copying the file directly
       await this.copyLocalFile(uri, outputPath);
+      return null;
     } else {
       // For regular HTTP/HTTPS URLs, use HTTP download
-      await this.downloadFromHTTP(uri, outputPath);
+      return this.downloadFromHTTP(uri, outputPath, signal);
     }
   }
   
   /**
    * Download from 3Speak IPFS gateway (Tier 1 - Direct Access)
    */
-  private async downloadFromGateway(gateway: string, ipfsHash: string, outputPath: string): Promise<void> {
+  private async downloadFromGateway(gateway: string, ipfsHash: string, outputPath: string, signal?: AbortSignal): Promise<number | null> {
     const axios = await import('axios');
     const gatewayUrl = `${gateway}/ipfs/${ipfsHash}`;
     
@@ -1155,16 +1829,17 @@ export class VideoProcessor {
       maxRedirects: 5,
       headers: {
         'User-Agent': '3SpeakEncoder/1.0'
-      }
+      },
+      ...(signal && { signal })
     });
     
-    await this.streamToFileWithProgress(response.data, outputPath, `gateway ${gateway}`, response.headers['content-length']);
+    return this.streamToFileWithProgress(response.data, outputPath, `gateway ${gateway}`, response.headers['content-length']);
   }
   
   /**
    * Download from local IPFS daemon (Tier 2 - P2P Network)
    */
-  private async downloadFromLocalIPFS(ipfsHash: string, outputPath: string): Promise<void> {
+  private async downloadFromLocalIPFS(ipfsHash: string, outputPath: string, signal?: AbortSignal): Promise<number | null> {
     const axios = await import('axios');
     
     logger.info(`⏱️ Local IPFS timeout: 5 minutes (P2P discovery can take time)`);
@@ -1176,17 +1851,19 @@ export class VideoProcessor {
       {
         responseType: 'stream',
         timeout: 300000, // 5 minutes - P2P discovery can take time
-        maxRedirects: 0
+        maxRedirects: 0,
+        ...(signal && { signal })
       }
     );
     
-    await this.streamToFileWithProgress(response.data, outputPath, 'local IPFS daemon (P2P)');
+    // The daemon streams cat output chunked and announces the file size in X-Content-Length
+    return this.streamToFileWithProgress(response.data, outputPath, 'local IPFS daemon (P2P)', response.headers['x-content-length']);
   }
   
   /**
    * Download from regular HTTP URL
    */
-  private async downloadFromHTTP(uri: string, outputPath: string): Promise<void> {
+  private async downloadFromHTTP(uri: string, outputPath: string, signal?: AbortSignal): Promise<number | null> {
     const axios = await import('axios');
     
     const response = await axios.default.get(uri, {
@@ -1195,10 +1872,11 @@ export class VideoProcessor {
       maxRedirects: 5,
       headers: {
         'User-Agent': '3SpeakEncoder/1.0'
-      }
+      },
+      ...(signal && { signal })
     });
     
-    await this.streamToFileWithProgress(response.data, outputPath, `HTTP ${uri}`, response.headers['content-length']);
+    return this.streamToFileWithProgress(response.data, outputPath, `HTTP ${uri}`, response.headers['content-length']);
   }
   
   /**
@@ -1253,13 +1931,16 @@ export class VideoProcessor {
   
   /**
    * 🚨 MEMORY SAFE: Stream data to file with progress tracking
+   * Resolves to the announced content length (null when unknown). It only decides whether the file may be cached:
+   * axios decompresses gzip/br bodies but keeps the compressed length, so a mismatch doesn't fail the download.
    */
-  private async streamToFileWithProgress(dataStream: any, outputPath: string, source: string, contentLength?: string): Promise<void> {
+  private async streamToFileWithProgress(dataStream: any, outputPath: string, source: string, contentLength?: string): Promise<number | null> {
     const writer = createWriteStream(outputPath);
     dataStream.pipe(writer);
     
     let downloadedBytes = 0;
-    const totalBytes = contentLength ? parseInt(contentLength) : null;
+    const announcedBytes = contentLength ? parseInt(contentLength) : NaN;
+    const totalBytes = Number.isFinite(announcedBytes) ? announcedBytes : null;
     let lastProgressTime = Date.now();
     
     // Progress tracking
@@ -1302,7 +1983,7 @@ export class VideoProcessor {
       }
     });
     
-    return new Promise<void>((resolve, reject) => {
+    return new Promise<number | null>((resolve, reject) => {
       // 🚨 MEMORY SAFE: Ensure streams are destroyed on completion/error
       const cleanup = () => {
         try {
@@ -1326,7 +2007,7 @@ export class VideoProcessor {
         }
         
         cleanup();
-        resolve();
+        resolve(totalBytes);
       });
       
       writer.on('error', (err: any) => {
@@ -1351,7 +2032,9 @@ export class VideoProcessor {
     sourceFile: string,
     outputsDir: string,
     progressCallback: (progress: { percent?: number; fps?: number; speed?: number; bitrate?: number }) => void,
-    isShortVideo?: boolean // 📱 Short video flag
+    isShortVideo?: boolean, // 📱 Short video flag
+    segmentFormat: SegmentFormat = 'ts',
+    signal?: AbortSignal
   ): Promise<EncodedOutput> {
     const fs = await import('fs/promises');
     
@@ -1360,10 +2043,9 @@ export class VideoProcessor {
     await fs.mkdir(qualityDir, { recursive: true });
     
     const qualityPlaylist = join(qualityDir, 'index.m3u8');
-    const masterManifest = join(outputsDir, 'manifest.m3u8');
     
     // Calculate adaptive segment duration to prevent IPFS disasters
-    const segmentDuration = await this.calculateAdaptiveSegmentDuration(sourceFile);
+    const segmentDuration = await calculateAdaptiveSegmentDuration(sourceFile);
     
     return new Promise((resolve, reject) => {
       let command = ffmpeg(sourceFile)
@@ -1381,9 +2063,11 @@ export class VideoProcessor {
       command = command
         .addOption('-f', 'hls')        // HLS output format
         .addOption('-hls_time', segmentDuration.toString()) // Adaptive segment duration
-        .addOption('-hls_list_size', '0')  // Keep all segments in playlist
-        .addOption('-hls_segment_filename', join(qualityDir, '480p_%d.ts')) // Proper naming
-        .output(qualityPlaylist);
+        .addOption('-hls_list_size', '0');  // Keep all segments in playlist
+      for (const [option, value] of getSegmentOptions(segmentFormat, qualityDir, '480p')) {
+        command = command.addOption(option, value);
+      }
+      command = command.output(qualityPlaylist);
 
       let lastPercent = 0;
 
@@ -1400,161 +2084,321 @@ export class VideoProcessor {
         }
       });
 
+      // 🛑 Kill ffmpeg as soon as the job is cancelled
+      const onAbort = () => {
+        logger.warn(`🛑 Cancelled - killing passthrough ffmpeg process`);
+        try {
+          command.kill('SIGKILL');
+        } catch (e) {
+          // Ignore kill errors
+        }
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       command.on('error', (error) => {
+        signal?.removeEventListener('abort', onAbort);
         logger.error('❌ Passthrough HLS encoding failed:', error);
         reject(error);
       });
 
       command.on('end', async () => {
+        signal?.removeEventListener('abort', onAbort);
         try {
-          // Get stats of the original file for metadata
-          const stats = await fs.stat(sourceFile);
-          
           // Collect generated HLS segments from quality directory
           const segmentFiles = await fs.readdir(qualityDir);
           const segments = segmentFiles
-            .filter(file => file.startsWith('480p_') && file.endsWith('.ts'))
-            .map(file => join(qualityDir, file));
+            .filter(file => file.startsWith('480p_') && file.endsWith(getSegmentExtension(segmentFormat)));
           
           logger.info(`✅ Passthrough HLS complete: ${segments.length} segments generated`);
           
-          // Generate master manifest that points to the single quality
-          await this.generateMasterManifest(masterManifest, '480p');
-          
+          // Size/duration are measured from the playlist once encoding is done
           resolve({
             profile: '480p',
-            path: masterManifest,
-            size: stats.size, // Use original file size as reference
-            duration: 0, // Will be detected by player
+            path: qualityPlaylist,
+            size: 0,
+            duration: 0,
             segments: segments,
-            playlist: masterManifest
+            playlist: qualityPlaylist
           });
         } catch (error) {
           reject(error);
         }
       });
 
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+
       command.run();
     });
   }
 
   /**
-   * 🛡️ IPFS PROTECTION: Calculate adaptive segment duration to prevent upload disasters
+   * 🔎 Validate renditions before upload, each on its own and then for segment alignment across the
+   * ladder. Optional HEVC/AV1 renditions that fail are dropped; any other failure gets one retry
+   * (null = no retry possible) and then fails the job.
    */
-  private async calculateAdaptiveSegmentDuration(sourceFile: string): Promise<number> {
-    try {
-      const ffprobe = await import('fluent-ffmpeg');
-      
-      return new Promise((resolve, reject) => {
-        ffprobe.default.ffprobe(sourceFile, (err, metadata) => {
-          if (err) {
-            logger.warn('⚠️ Could not probe for adaptive segments, using 6s default:', err);
-            resolve(6);
-            return;
-          }
-          
-          const duration = metadata.format.duration || 0;
-          const durationHours = duration / 3600;
-          
-          // 🛡️ ADAPTIVE SEGMENT PROTECTION: Prevent IPFS upload disasters
-          let segmentDuration: number;
-          let maxSegments: number;
-          let reasoning: string;
-          
-          if (durationHours <= 1) {
-            // Short videos: 6s segments (up to 600 segments for 1h)
-            segmentDuration = 6;
-            maxSegments = Math.ceil(duration / 6);
-            reasoning = 'short video (<1h)';
-          } else if (durationHours <= 4) {
-            // Medium videos: 15s segments (up to 960 segments for 4h)
-            segmentDuration = 15;
-            maxSegments = Math.ceil(duration / 15);
-            reasoning = 'medium video (1-4h)';
-          } else if (durationHours <= 12) {
-            // Long videos: 30s segments (up to 1440 segments for 12h)
-            segmentDuration = 30;
-            maxSegments = Math.ceil(duration / 30);
-            reasoning = 'long video (4-12h)';
-          } else {
-            // Ultra-long videos: 60s segments (max 1440 segments for 24h)
-            segmentDuration = 60;
-            maxSegments = Math.ceil(duration / 60);
-            reasoning = 'ultra-long video (>12h)';
-          }
-          
-          // 🚨 HARD LIMIT: Never exceed 2000 segments (IPFS upload limit)
-          const HARD_SEGMENT_LIMIT = 2000;
-          if (maxSegments > HARD_SEGMENT_LIMIT) {
-            segmentDuration = Math.ceil(duration / HARD_SEGMENT_LIMIT);
-            maxSegments = HARD_SEGMENT_LIMIT;
-            reasoning = `IPFS-limited (${segmentDuration}s segments to stay under ${HARD_SEGMENT_LIMIT} limit)`;
-          }
-          
-          logger.info(`🛡️ Adaptive segments for ${durationHours.toFixed(1)}h video: ${segmentDuration}s segments (≈${maxSegments} total) - ${reasoning}`);
-          
-          // 🚨 WARNING for extreme cases
-          if (maxSegments > 1500) {
-            logger.warn(`⚠️ HIGH SEGMENT COUNT: ${maxSegments} segments may stress IPFS uploads`);
-          }
-          
-          resolve(segmentDuration);
-        });
-      });
-    } catch (error) {
-      logger.warn('⚠️ Error calculating adaptive segments, using 6s default:', error);
-      return 6;
+  private async validateOutputs(
+    outputs: EncodedOutput[],
+    expectedDuration: number | null,
+    jobId: string,
+    retry: (output: EncodedOutput) => Promise<EncodedOutput | null>,
+    signal?: AbortSignal
+  ): Promise<EncodedOutput[]> {
+    // Drops an optional rendition (null) or re-encodes it once; throws when it can't be fixed
+    const repair = async (output: EncodedOutput, problems: string[]): Promise<EncodedOutput | null> => {
+      logger.warn(`⚠️ ${output.profile} failed validation: ${problems.join('; ')}`);
+      
+      if (output.videoCodec === 'hevc' || output.videoCodec === 'av1') {
+        logger.warn(`⚠️ Dropping optional rendition ${output.profile}`);
+        await fs.rm(dirname(output.playlist), { recursive: true, force: true });
+        return null;
+      }
+      
+      const retried = await retry(output);
+      if (retried) {
+        problems = await this.validateRendition(retried, expectedDuration);
+        if (problems.length === 0) {
+          logger.info(`✅ ${output.profile} valid after re-encode`);
+          return retried;
+        }
+        logger.warn(`⚠️ ${output.profile} still invalid after re-encode: ${problems.join('; ')}`);
+      }
+      throw new Error(`Rendition ${output.profile} failed validation: ${problems.join('; ')}`);
+    };
+    
+    const valid: EncodedOutput[] = [];
+    for (const output of outputs) {
+      throwIfCancelled(jobId, signal);
+      const problems = await this.validateRendition(output, expectedDuration);
+      const checked = problems.length === 0 ? output : await repair(output, problems);
+      if (checked) valid.push(checked);
     }
+    
+    // Misaligned rungs break ABR switching: they take the same single retry, then fail the job
+    const misaligned = await this.validateSegmentAlignment(valid, jobId);
+    if (misaligned.length > 0) {
+      for (const profile of misaligned) {
+        throwIfCancelled(jobId, signal);
+        const index = valid.findIndex(output => output.profile === profile);
+        const repaired = await repair(valid[index]!, ['segment boundaries differ from the other renditions']);
+        valid.splice(index, 1, ...(repaired ? [repaired] : []));
+      }
+      const stillMisaligned = await this.validateSegmentAlignment(valid, jobId);
+      if (stillMisaligned.length > 0) {
+        throw new Error(`Rendition ${stillMisaligned.join(', ')} failed validation: segment boundaries differ from the other renditions`);
+      }
+    }
+    
+    logger.info(`🔎 ${valid.length} rendition(s) passed validation for job ${jobId}`);
+    return valid;
   }
 
   /**
-   * Generate master manifest that points to single quality folder
+   * 🔎 Same checks for the AUDIO group: an alternate track that fails is dropped like one that failed to
+   * encode; the default track of a demuxed group is the only audio the video has, so it fails the job.
+   * (The audio-only ladder is part of the outputs and goes through validateOutputs.)
    */
-  private async generateMasterManifest(manifestPath: string, quality: string): Promise<void> {
-    const fs = await import('fs/promises');
+  private async validateAudioRenditions(
+    renditions: AudioRendition[],
+    outputsDir: string,
+    expectedDuration: number | null,
+    demuxed: boolean,
+    jobId: string,
+    signal?: AbortSignal
+  ): Promise<AudioRendition[]> {
+    const valid: AudioRendition[] = [];
     
-    // Create HLS master playlist that references the single quality
-    const masterContent = `#EXTM3U
-#EXT-X-VERSION:3
-#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=854x480,CODECS="avc1.42e01e,mp4a.40.2"
-${quality}/index.m3u8
-`;
+    for (const rendition of renditions) {
+      throwIfCancelled(jobId, signal);
+      if (!rendition.playlist) {
+        valid.push(rendition); // Muxed into the video renditions, validated with them
+        continue;
+      }
+      const playlist = join(outputsDir, rendition.playlist);
+      const problems = await this.validateRendition({ profile: rendition.playlist, path: playlist, playlist, size: 0, duration: 0, segments: [] }, expectedDuration);
+      if (problems.length === 0) {
+        valid.push(rendition);
+        continue;
+      }
+      
+      if (demuxed && rendition.default) {
+        throw new Error(`Audio rendition ${rendition.playlist} failed validation: ${problems.join('; ')}`);
+      }
+      logger.warn(`⚠️ Dropping audio track ${rendition.name} [${rendition.language}] - failed validation: ${problems.join('; ')}`);
+      await fs.rm(dirname(playlist), { recursive: true, force: true });
+    }
     
-    await fs.writeFile(manifestPath, masterContent);
-    logger.info(`✅ Generated master manifest: ${manifestPath}`);
+    return valid.length < (demuxed ? 1 : 2) ? [] : valid;
   }
 
-  private async encodeProfile(
-    sourceFile: string,
-    profile: { name: string; height: number },
-    workDir: string,
-    progressCallback?: (progress: number) => void,
-    strategy?: EncodingStrategy | null,
-    isShortVideo?: boolean // 📱 Short video flag
-  ): Promise<EncodedOutput> {
-    const profileDir = join(workDir, profile.name);
-    await fs.mkdir(profileDir, { recursive: true });
+  /**
+   * 🔎 Check one rendition: the playlist is complete and lists segments, every referenced file exists
+   * and is non-empty, the first/middle/last segments decode, and the listed duration matches the
+   * expected one. Returns the problems found (empty = valid).
+   */
+  private async validateRendition(output: EncodedOutput, expectedDuration: number | null): Promise<string[]> {
+    const playlistDir = dirname(output.playlist);
+    const problems: string[] = [];
     
-    const outputPath = join(profileDir, 'index.m3u8');
+    let playlist: { initSegment: string | null; segments: Array<{ uri: string; duration: number }> };
+    try {
+      if (!(await fs.readFile(output.playlist, 'utf8')).includes('#EXT-X-ENDLIST')) {
+        problems.push('playlist has no #EXT-X-ENDLIST (encode cut short?)');
+      }
+      playlist = await readMediaPlaylist(output.playlist);
+    } catch (error) {
+      return [`playlist unreadable: ${error instanceof Error ? error.message : String(error)}`];
+    }
+    if (playlist.segments.length === 0) {
+      return [...problems, 'playlist lists no segments'];
+    }
     
-    // 🛡️ Calculate adaptive segment duration for IPFS protection
-    const segmentDuration = await this.calculateAdaptiveSegmentDuration(sourceFile);
+    const files = [...(playlist.initSegment ? [playlist.initSegment] : []), ...playlist.segments.map(segment => segment.uri)];
+    for (const file of files) {
+      const size = await fs.stat(join(playlistDir, file)).then(stats => stats.size, () => -1);
+      if (size < 0) {
+        problems.push(`missing ${file}`);
+      } else if (size === 0) {
+        problems.push(`empty ${file}`);
+      }
+    }
+    if (problems.length > 0) return problems;
     
-    // 🔄 CASCADING FALLBACK SYSTEM: Try codecs in order of preference
-    // 1. Tested hardware codecs (highest priority)
-    // 2. Untested hardware codecs (medium priority) 
-    // 3. Software codecs (bulletproof fallback)
+    // Truncation usually hits the last segment; first and middle catch broken encoder output
+    const last = playlist.segments.length - 1;
+    for (const index of new Set([0, Math.floor(last / 2), last])) {
+      const segment = playlist.segments[index]!;
+      const input = playlist.initSegment
+        ? `concat:${join(playlistDir, playlist.initSegment)}|${join(playlistDir, segment.uri)}`
+        : join(playlistDir, segment.uri);
+      const frames = await this.countDecodedFrames(input);
+      if (frames === null) {
+        problems.push(`${segment.uri} does not decode`);
+      } else if (frames === 0) {
+        problems.push(`${segment.uri} decodes to no frames`);
+      }
+    }
     
-    const testedHardware = this.availableCodecs.filter(c => c.type === 'hardware' && c.tested);
-    const untestedHardware = this.availableCodecs.filter(c => c.type === 'hardware' && !c.tested);
-    const softwareCodecs = this.availableCodecs.filter(c => c.type === 'software');
+    if (expectedDuration) {
+      const duration = playlist.segments.reduce((total, segment) => total + segment.duration, 0);
+      const tolerance = Math.max(HLS_DURATION_TOLERANCE_SECONDS, expectedDuration * HLS_DURATION_TOLERANCE_RATIO);
+      if (Math.abs(duration - expectedDuration) > tolerance) {
+        problems.push(`duration ${duration.toFixed(2)}s, expected ${expectedDuration.toFixed(2)}s`);
+      }
+    }
     
-    const fallbackChain = [...testedHardware, ...untestedHardware, ...softwareCodecs];
+    return problems;
+  }
+
+  /**
+   * Decode a segment with ffprobe -count_frames: null when it fails, otherwise the fewest frames
+   * read from any of its audio/video streams
+   */
+  private async countDecodedFrames(input: string): Promise<number | null> {
+    return new Promise((resolve) => {
+      ffmpeg.ffprobe(input, ['-count_frames'], (err, metadata) => {
+        const streams = metadata?.streams?.filter(stream => stream.codec_type === 'video' || stream.codec_type === 'audio');
+        if (err || !streams || streams.length === 0) {
+          return resolve(null);
+        }
+        resolve(Math.min(...streams.map(stream => parseInt(String(stream.nb_read_frames ?? '0'), 10) || 0)));
+      });
+    });
+  }
+
+  /**
+   * 🎯 Post-encode check that every rendition cuts its segments at the same times, so players can
+   * switch rungs at any boundary. Compares cumulative EXTINF boundaries against the first rendition
+   * (the end of the stream is skipped - its last segment length can differ). Returns the renditions
+   * that don't line up (empty = aligned); validateOutputs re-encodes or rejects them.
+   */
+  private async validateSegmentAlignment(outputs: EncodedOutput[], jobId: string): Promise<string[]> {
+    if (outputs.length < 2) return [];
     
-    if (fallbackChain.length === 0) {
-      throw new Error('No codecs available for encoding - this should never happen');
+    const boundaries: Array<{ profile: string; times: number[] }> = [];
+    for (const output of outputs) {
+      try {
+        const { segments } = await readMediaPlaylist(output.playlist);
+        let time = 0;
+        boundaries.push({
+          profile: output.profile,
+          times: segments.slice(0, -1).map(segment => (time += segment.duration))
+        });
+      } catch (error) {
+        logger.warn(`⚠️ Could not read ${output.profile} playlist for segment alignment check:`, error);
+        return [output.profile];
+      }
+    }
+    
+    const [reference, ...others] = boundaries;
+    const misaligned: string[] = [];
+    for (const rendition of others) {
+      if (rendition.times.length !== reference!.times.length) {
+        logger.warn(`⚠️ Segment alignment: ${rendition.profile} has ${rendition.times.length + 1} segments, ${reference!.profile} has ${reference!.times.length + 1}`);
+        misaligned.push(rendition.profile);
+        continue;
+      }
+      const index = rendition.times.findIndex((time, i) => Math.abs(time - reference!.times[i]!) > SEGMENT_ALIGNMENT_TOLERANCE);
+      if (index !== -1) {
+        logger.warn(`⚠️ Segment alignment: ${rendition.profile} boundary ${index + 1} at ${rendition.times[index]!.toFixed(3)}s, ${reference!.profile} at ${reference!.times[index]!.toFixed(3)}s`);
+        misaligned.push(rendition.profile);
+      }
     }
     
+    if (misaligned.length === 0) {
+      logger.info(`🎯 Segment boundaries aligned across ${outputs.length} renditions for job ${jobId}`);
+    } else {
+      logger.warn(`⚠️ Segment boundaries differ between renditions for job ${jobId} - ABR switches would glitch`);
+    }
+    return misaligned;
+  }
+
+  /**
+   * 📊 Roll measured renditions up into the master entry
+   * (total bytes and segments, longest duration, highest peak and resolution)
+   */
+  private aggregateOutputs(outputs: EncodedOutput[]): EncodedOutput {
+    const size = outputs.reduce((sum, output) => sum + output.size, 0);
+    const duration = Math.max(0, ...outputs.map(output => output.duration));
+    const top = [...outputs].sort((a, b) => (b.resolution?.height ?? 0) - (a.resolution?.height ?? 0))[0];
+    
+    return {
+      profile: 'master',
+      path: '',
+      size,
+      duration,
+      segments: [],
+      playlist: '',
+      segmentCount: outputs.reduce((sum, output) => sum + (output.segmentCount ?? output.segments.length), 0),
+      averageBitrate: duration > 0 ? Math.round(size * 8 / duration) : 0,
+      peakBitrate: Math.max(0, ...outputs.map(output => output.peakBitrate ?? 0)),
+      ...(top?.resolution && { resolution: top.resolution })
+    };
+  }
+
+  private async encodeProfile(
+    sourceFile: string,
+    profile: Rendition,
+    workDir: string,
+    progressCallback?: (progress: number) => void,
+    strategy?: EncodingStrategy | null,
+    isShortVideo?: boolean, // 📱 Short video flag
+    segmentFormat: SegmentFormat = 'ts',
+    signal?: AbortSignal
+  ): Promise<EncodedOutput> {
+    const profileDir = join(workDir, profile.name);
+    await fs.mkdir(profileDir, { recursive: true });
+    
+    const outputPath = join(profileDir, 'index.m3u8');
+    
+    // 🛡️ Calculate adaptive segment duration for IPFS protection
+    const segmentDuration = await calculateAdaptiveSegmentDuration(sourceFile);
+    
+    const fallbackChain = this.getCodecFallbackChain(strategy);
+    
     let lastError: Error | null = null;
     
     // Try each codec in the fallback chain
@@ -1585,13 +2429,20 @@ ${quality}/index.m3u8
           progressCallback,
           strategy, // Pass the encoding strategy
           segmentDuration, // Pass adaptive segment duration
-          isShortVideo // 📱 Pass short video flag
+          isShortVideo, // 📱 Pass short video flag
+          segmentFormat,
+          signal
         );
         
         logger.info(`✅ ${profile.name} encoding SUCCESS with ${codec.name}`);
         return result;
         
       } catch (error) {
+        // 🛑 Cancelled - trying the next codec would just restart the work
+        if (isJobCancelledError(error)) {
+          throw error;
+        }
+
         lastError = error as Error;
         const errorMsg = cleanErrorForLogging(error);
         
@@ -1618,9 +2469,478 @@ ${quality}/index.m3u8
     throw new Error(`All encoding attempts failed for ${profile.name}. Last error: ${lastError?.message || 'Unknown error'}`);
   }
 
+  /**
+   * 🧬 Encode one rung as an extra HEVC/AV1 rendition (<rung>_<codec>) with the codec's
+   * software encoder. A failure only drops this rendition - the H.264 ladder is complete on its own.
+   */
+  private async encodeExtraCodecProfile(
+    sourceFile: string,
+    profile: Rendition,
+    extraCodec: ExtraCodec,
+    workDir: string,
+    progressCallback?: (progress: number) => void,
+    strategy?: EncodingStrategy | null,
+    isShortVideo?: boolean,
+    signal?: AbortSignal
+  ): Promise<EncodedOutput | null> {
+    const { encoder, bitrateFactor } = EXTRA_CODECS[extraCodec];
+    const scaleBitrate = (value: string) => `${Math.round(parseBitrate(value) * bitrateFactor / 1000)}k`;
+    const rendition: Rendition = {
+      ...profile,
+      name: `${profile.name}_${extraCodec}`,
+      bitrate: scaleBitrate(profile.bitrate),
+      maxrate: scaleBitrate(profile.maxrate),
+      bufsize: scaleBitrate(profile.bufsize)
+    };
+    
+    const profileDir = join(workDir, rendition.name);
+    await fs.mkdir(profileDir, { recursive: true });
+    
+    const segmentDuration = await calculateAdaptiveSegmentDuration(sourceFile);
+    const codec = { name: encoder, type: 'software' };
+    
+    try {
+      const output = await this.attemptEncode(
+        sourceFile,
+        rendition,
+        profileDir,
+        join(profileDir, 'index.m3u8'),
+        codec,
+        this.calculateAdaptiveTimeout(sourceFile, codec, strategy),
+        progressCallback,
+        strategy,
+        segmentDuration,
+        isShortVideo,
+        'fmp4',
+        signal
+      );
+      
+      logger.info(`✅ ${rendition.name} encoding SUCCESS with ${encoder}`);
+      return { ...output, videoCodec: extraCodec };
+      
+    } catch (error) {
+      if (isJobCancelledError(error)) {
+        throw error;
+      }
+      
+      logger.warn(`⚠️ ${rendition.name} failed with ${encoder} - continuing without it:`, cleanErrorForLogging(error));
+      await fs.rm(profileDir, { recursive: true, force: true });
+      return null;
+    }
+  }
+
+  /**
+   * 🌈 HDR10 rendition of the top rung for PQ sources: HEVC Main 10 in fMP4 with BT.2020/PQ tagging
+   * and the source's static metadata, next to the tone-mapped SDR ladder. Failure is not fatal.
+   */
+  private async encodeHdr10Profile(
+    sourceFile: string,
+    profile: Rendition,
+    hdr10: Hdr10Metadata | undefined,
+    workDir: string,
+    progressCallback?: (progress: number) => void,
+    strategy?: EncodingStrategy | null,
+    isShortVideo?: boolean,
+    signal?: AbortSignal
+  ): Promise<EncodedOutput | null> {
+    const name = `${profile.name}_hdr10`;
+    const profileDir = join(workDir, name);
+    const playlist = join(profileDir, 'index.m3u8');
+    
+    const x265Params = [
+      'hdr10=1',
+      'hdr10-opt=1',
+      'repeat-headers=1',
+      'colorprim=bt2020',
+      'transfer=smpte2084',
+      'colormatrix=bt2020nc',
+      'range=limited',
+      ...(hdr10?.masterDisplay ? [`master-display=${hdr10.masterDisplay}`] : []),
+      ...(hdr10?.maxCll ? [`max-cll=${hdr10.maxCll}`] : [])
+    ];
+    // Strategy filters minus the tone map (rotation etc. still apply), staying 10-bit
+    const toneMapFilter = strategy?.toneMap ? getToneMapFilter(strategy.toneMap) : null;
+    const filters = [
+      ...(strategy?.videoFilters || []).filter(filter => filter !== toneMapFilter),
+      `scale=${this.getScaleSize(profile)}`,
+      `fps=${profile.frameRate}`,
+      'format=yuv420p10le'
+    ];
+    
+    try {
+      await fs.mkdir(profileDir, { recursive: true });
+      const segmentDuration = await calculateAdaptiveSegmentDuration(sourceFile);
+      
+      let command = ffmpeg(sourceFile)
+        .outputOptions('-map', '0:v:0')
+        .videoCodec('libx265')
+        .addOption('-preset', 'medium')
+        .addOption('-crf', '20')
+        .addOption('-profile:v', 'main10')
+        .addOption('-tag:v', 'hvc1')
+        .addOption('-x265-params', x265Params.join(':'))
+        .addOption('-vf', filters.join(','))
+        .addOption('-g', String(this.getGopSize(profile, segmentDuration)))
+        .addOption('-keyint_min', String(this.getGopSize(profile, segmentDuration)))
+        .addOption('-force_key_frames', this.getForceKeyFrames(segmentDuration))
+        .addOption('-maxrate', profile.maxrate)
+        .addOption('-bufsize', profile.bufsize);
+      for (let i = 0; i < HDR10_COLOR_TAGS.length; i += 2) {
+        command = command.addOption(HDR10_COLOR_TAGS[i]!, HDR10_COLOR_TAGS[i + 1]!);
+      }
+      if (strategy?.demuxAudio) {
+        command = command.noAudio();
+      } else {
+        command = command
+          .outputOptions('-map', `0:a:${strategy?.audioStream ?? 0}?`)
+          .audioCodec('aac')
+          .audioBitrate(profile.audio_bitrate)
+          .addOption('-ac', '2')
+          .addOption('-ar', '48000');
+        if (strategy?.audioFilters && strategy.audioFilters.length > 0) {
+          command = command.audioFilters(strategy.audioFilters);
+        }
+      }
+      if (isShortVideo) {
+        command = command.outputOptions('-t', '60');
+      }
+      command = command
+        .addOption('-video_track_timescale', '90000')
+        .addOption('-hls_time', String(segmentDuration))
+        .addOption('-hls_playlist_type', 'vod')
+        .addOption('-hls_list_size', '0')
+        .addOption('-start_number', '0');
+      for (const [option, value] of getSegmentOptions('fmp4', profileDir, name)) {
+        command = command.addOption(option, value);
+      }
+      command.on('progress', (progress) => {
+        if (progressCallback && progress.percent) {
+          progressCallback(progress.percent);
+        }
+      });
+      await runFfmpeg(command.format('hls').output(playlist), signal);
+      
+      logger.info(`✅ ${name} encoding SUCCESS with libx265 (HDR10${hdr10?.masterDisplay ? ', mastering metadata' : ''})`);
+      return { profile: name, path: playlist, playlist, size: 0, duration: 0, segments: [], videoCodec: 'hevc', videoRange: 'PQ' };
+      
+    } catch (error) {
+      if (isJobCancelledError(error) || signal?.aborted) {
+        throw error;
+      }
+      
+      logger.warn(`⚠️ ${name} failed - continuing with the SDR ladder only:`, cleanErrorForLogging(error));
+      await fs.rm(profileDir, { recursive: true, force: true });
+      return null;
+    }
+  }
+
+  /**
+   * 🔄 CASCADING FALLBACK SYSTEM: Try codecs in order of preference
+   * 1. Tested hardware codecs (highest priority)
+   * 2. Untested hardware codecs (medium priority)
+   * 3. Software codecs (bulletproof fallback)
+   */
+  private getCodecFallbackChain(strategy?: EncodingStrategy | null): CodecCapability[] {
+    const testedHardware = this.availableCodecs.filter(c => c.type === 'hardware' && c.tested);
+    const untestedHardware = this.availableCodecs.filter(c => c.type === 'hardware' && !c.tested);
+    const softwareCodecs = this.availableCodecs.filter(c => c.type === 'software');
+    
+    // 🌈 Tone mapping runs in software filters that the hardware pipelines would skip
+    const fallbackChain = strategy?.toneMap && softwareCodecs.length > 0
+      ? softwareCodecs
+      : [...testedHardware, ...untestedHardware, ...softwareCodecs];
+    
+    if (fallbackChain.length === 0) {
+      throw new Error('No codecs available for encoding - this should never happen');
+    }
+    
+    return fallbackChain;
+  }
+
+  /**
+   * ⚡ Encode all renditions in one ffmpeg invocation (split filter graph + -var_stream_map),
+   * walking the same codec fallback chain as encodeProfile(). Returns null when every codec
+   * failed so the caller can fall back to per-rung encoding.
+   */
+  private async encodeAllProfiles(
+    sourceFile: string,
+    renditions: Rendition[],
+    workDir: string,
+    progressCallback?: (progress: number) => void,
+    strategy?: EncodingStrategy | null,
+    isShortVideo?: boolean,
+    hasAudio: boolean = true,
+    segmentFormat: SegmentFormat = 'ts',
+    signal?: AbortSignal
+  ): Promise<EncodedOutput[] | null> {
+    const segmentDuration = await calculateAdaptiveSegmentDuration(sourceFile);
+    const fallbackChain = this.getCodecFallbackChain(strategy);
+    
+    for (let i = 0; i < fallbackChain.length; i++) {
+      const codec = fallbackChain[i]!;
+      
+      // Fresh rendition directories for every attempt (a failed pass leaves partial segments)
+      for (const rendition of renditions) {
+        const renditionDir = join(workDir, rendition.name);
+        await fs.rm(renditionDir, { recursive: true, force: true });
+        await fs.mkdir(renditionDir, { recursive: true });
+      }
+      
+      try {
+        logger.info(`⚡ Single-pass encoding ${renditions.map(r => r.name).join(', ')} with ${codec.name} (${codec.type})`);
+        logger.info(`   📍 Fallback position ${i + 1}/${fallbackChain.length}`);
+        
+        // One pass does the work of every rung - scale the per-rung timeout accordingly
+        const adaptiveTimeout = this.calculateAdaptiveTimeout(sourceFile, codec, strategy) * renditions.length;
+        
+        const outputs = await this.attemptSinglePassEncode(
+          sourceFile,
+          renditions,
+          workDir,
+          codec,
+          adaptiveTimeout,
+          progressCallback,
+          strategy,
+          segmentDuration,
+          isShortVideo,
+          hasAudio,
+          segmentFormat,
+          signal
+        );
+        
+        logger.info(`✅ Single-pass encoding SUCCESS with ${codec.name}`);
+        return outputs;
+        
+      } catch (error) {
+        if (isJobCancelledError(error)) {
+          throw error;
+        }
+        
+        logger.warn(`⚠️ Single-pass ${codec.name} failed:`, cleanErrorForLogging(error));
+        const nextCodec = fallbackChain[i + 1];
+        if (nextCodec) {
+          logger.warn(`   🔄 Next fallback: ${nextCodec.name} (${nextCodec.type})`);
+        }
+      }
+    }
+    
+    logger.warn(`💥 Single-pass encoding failed with all ${fallbackChain.length} codecs - falling back to per-rung encoding`);
+    for (const rendition of renditions) {
+      await fs.rm(join(workDir, rendition.name), { recursive: true, force: true });
+    }
+    return null;
+  }
+
+  private async attemptSinglePassEncode(
+    sourceFile: string,
+    renditions: Rendition[],
+    workDir: string,
+    codec: { name: string; type: string },
+    timeoutMs: number,
+    progressCallback?: (progress: number) => void,
+    strategy?: EncodingStrategy | null,
+    segmentDuration?: number,
+    isShortVideo?: boolean,
+    hasAudio: boolean = true,
+    segmentFormat: SegmentFormat = 'ts',
+    signal?: AbortSignal
+  ): Promise<EncodedOutput[]> {
+    return new Promise((resolve, reject) => {
+      let command = ffmpeg(sourceFile);
+      
+      if (strategy?.inputOptions && strategy.inputOptions.length > 0) {
+        strategy.inputOptions.forEach(opt => command = command.inputOptions(opt));
+      }
+      
+      if (isShortVideo) {
+        command = command.outputOptions('-t', '60');
+      }
+      
+      // 🎛️ Filter graph: [0:v] -> (strategy filters) -> split=N -> per-rung scaler
+      let scaler: (rendition: Rendition) => string;
+      let preFilters = '';
+      if (codec.name === 'h264_vaapi') {
+        command = command
+          .addInputOptions('-hwaccel', 'vaapi')
+          .addInputOptions('-vaapi_device', '/dev/dri/renderD128')
+          .addInputOptions('-hwaccel_output_format', 'vaapi')
+          .addOption('-qp', '19')
+          .addOption('-bf', '2');
+        scaler = (r) => `scale_vaapi=${this.getScaleSize(r)}:format=nv12,fps=${r.frameRate}`;
+      } else if (codec.name === 'h264_nvenc') {
+        command = command
+          .addInputOptions('-hwaccel', 'cuda')
+          .addInputOptions('-hwaccel_output_format', 'cuda')
+          .addOption('-preset', 'medium')
+          .addOption('-cq', '19')
+          .addOption('-forced-idr', '1'); // Forced keyframes as IDR so segments start decodable
+        scaler = (r) => `scale_cuda=${this.getScaleSize(r)},fps=${r.frameRate}`;
+      } else if (codec.name === 'h264_qsv') {
+        command = command
+          .addInputOptions('-hwaccel', 'qsv')
+          .addInputOptions('-hwaccel_output_format', 'qsv')
+          .addOption('-preset', 'medium')
+          .addOption('-global_quality', '19');
+        scaler = (r) => `scale_qsv=${this.getScaleSize(r)},fps=${r.frameRate}`;
+      } else {
+        command = command
+          .addOption('-preset', 'medium')
+          .addOption('-crf', String(strategy?.perTitle?.crf ?? DEFAULT_X264_CRF))
+          .addOption('-sc_threshold', '0'); // No scene-cut keyframes between the fixed GOPs
+        scaler = (r) => `scale=${this.getScaleSize(r)},fps=${r.frameRate}`;
+        // Strategy filters are software filters - only usable before a software scaler
+        if (strategy?.videoFilters && strategy.videoFilters.length > 0) {
+          preFilters = `${strategy.videoFilters.join(',')},`;
+        }
+      }
+      
+      const splitLabels = renditions.map((_, index) => `[s${index}]`).join('');
+      const filterGraph = [
+        `[0:v:0]${preFilters}split=${renditions.length}${splitLabels}`,
+        ...renditions.map((rendition, index) => `[s${index}]${scaler(rendition)}[v${index}]`)
+      ].join(';');
+      command = command.complexFilter(filterGraph);
+      
+      // Extra strategy options first so the per-rung settings below take precedence
+      if (strategy?.extraOptions && strategy.extraOptions.length > 0) {
+        strategy.extraOptions.forEach(opt => command = command.outputOptions(opt));
+      }
+      
+      const streamMap: string[] = [];
+      renditions.forEach((rendition, index) => {
+        // GOP of one segment at this rung's frame rate
+        const gopSize = String(this.getGopSize(rendition, segmentDuration || 6));
+        command = command
+          .outputOptions('-map', `[v${index}]`)
+          .outputOptions(`-c:v:${index}`, codec.name)
+          .outputOptions(`-profile:v:${index}`, rendition.h264_profile)
+          .outputOptions(`-level:v:${index}`, rendition.h264_level)
+          .outputOptions(`-g:v:${index}`, gopSize)
+          .outputOptions(`-keyint_min:v:${index}`, gopSize);
+        
+        if (codec.name !== 'h264_vaapi') {
+          command = command
+            .outputOptions(`-b:v:${index}`, rendition.bitrate)
+            .outputOptions(`-maxrate:v:${index}`, rendition.maxrate)
+            .outputOptions(`-bufsize:v:${index}`, rendition.bufsize);
+        }
+        
+        if (hasAudio) {
+          command = command
+            .outputOptions('-map', `0:a:${strategy?.audioStream ?? 0}`)
+            .outputOptions(`-c:a:${index}`, 'aac')
+            .outputOptions(`-b:a:${index}`, rendition.audio_bitrate);
+          if (strategy?.audioFilters && strategy.audioFilters.length > 0) {
+            command = command.outputOptions(`-filter:a:${index}`, strategy.audioFilters.join(','));
+          }
+          streamMap.push(`v:${index},a:${index},name:${rendition.name}`);
+        } else {
+          streamMap.push(`v:${index},name:${rendition.name}`);
+        }
+      });
+      
+      if (hasAudio) {
+        command = command
+          .addOption('-ac', '2')
+          .addOption('-ar', '48000');
+      }
+      
+      command = command
+        .addOption('-force_key_frames', this.getForceKeyFrames(segmentDuration || 6))
+        .addOption('-video_track_timescale', '90000')
+        .addOption('-hls_time', (segmentDuration || 6).toString())
+        .addOption('-hls_playlist_type', 'vod')
+        .addOption('-hls_list_size', '0')
+        .addOption('-start_number', '0');
+      for (const [option, value] of getSegmentOptions(segmentFormat, join(workDir, '%v'), '%v')) {
+        command = command.addOption(option, value);
+      }
+      command = command
+        .addOption('-var_stream_map', streamMap.join(' '))
+        .format('hls')
+        .output(join(workDir, '%v', 'index.m3u8'));
+      
+      command
+        .on('start', (commandLine) => {
+          logger.debug(`🎬 FFmpeg single-pass command: ${commandLine}`);
+        })
+        .on('progress', (progress) => {
+          if (progressCallback && progress.percent) {
+            progressCallback(progress.percent);
+          }
+        })
+        .on('end', async () => {
+          try {
+            clearTimeout(timeoutId);
+            signal?.removeEventListener('abort', onAbort);
+            
+            const outputs: EncodedOutput[] = [];
+            for (const rendition of renditions) {
+              const renditionDir = join(workDir, rendition.name);
+              const playlistPath = join(renditionDir, 'index.m3u8');
+              const files = await fs.readdir(renditionDir);
+              const stats = await fs.stat(playlistPath);
+              
+              outputs.push({
+                profile: rendition.name,
+                path: playlistPath,
+                size: stats.size,
+                duration: 0,
+                segments: files.filter(f => f.endsWith(getSegmentExtension(segmentFormat))),
+                playlist: playlistPath
+              });
+            }
+            resolve(outputs);
+          } catch (error) {
+            reject(error);
+          }
+        })
+        .on('error', (error) => {
+          clearTimeout(timeoutId);
+          signal?.removeEventListener('abort', onAbort);
+          try {
+            command.kill('SIGKILL');
+          } catch (e) {
+            // Ignore kill errors
+          }
+          reject(error);
+        });
+      
+      const timeoutId = setTimeout(() => {
+        logger.warn(`⏰ ${codec.name} single-pass timeout (${timeoutMs/1000}s), killing process...`);
+        try {
+          command.kill('SIGKILL');
+        } catch (e) {
+          // Ignore kill errors
+        }
+        reject(new Error(`${codec.name} single-pass encoding timeout (${timeoutMs/1000}s)`));
+      }, timeoutMs);
+      
+      // 🛑 Kill ffmpeg as soon as the job is cancelled
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        logger.warn(`🛑 Cancelled - killing ${codec.name} single-pass process`);
+        try {
+          command.kill('SIGKILL');
+        } catch (e) {
+          // Ignore kill errors
+        }
+        reject(signal!.reason);
+      };
+      
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      
+      command.run();
+    });
+  }
+
   private async attemptEncode(
     sourceFile: string,
-    profile: { name: string; height: number },
+    profile: Rendition,
     profileDir: string,
     outputPath: string,
     codec: { name: string; type: string },
@@ -1628,14 +2948,15 @@ ${quality}/index.m3u8
     progressCallback?: (progress: number) => void,
     strategy?: EncodingStrategy | null,
     segmentDuration?: number,
-    isShortVideo?: boolean // 📱 Short video flag
+    isShortVideo?: boolean, // 📱 Short video flag
+    segmentFormat: SegmentFormat = 'ts',
+    signal?: AbortSignal
   ): Promise<EncodedOutput> {
     return new Promise((resolve, reject) => {
-      // Get profile-specific settings matching Eddie's script
-      const profileSettings = this.getProfileSettings(profile.name);
-      
       // 🚀 Configure encoding based on codec type
       let command = ffmpeg(sourceFile);
+      const softwareFilters = `scale=${this.getScaleSize(profile)},fps=${profile.frameRate}`;
+      const gopSize = String(this.getGopSize(profile, segmentDuration || 6));
       
       // 🎯 Apply input options from strategy (if available)
       if (strategy?.inputOptions && strategy.inputOptions.length > 0) {
@@ -1656,7 +2977,7 @@ ${quality}/index.m3u8
           .addInputOptions('-vaapi_device', '/dev/dri/renderD128')  
           .addInputOptions('-hwaccel_output_format', 'vaapi')
           .videoCodec(codec.name)
-          .addOption('-vf', `scale_vaapi=-2:${profile.height}:format=nv12`)
+          .addOption('-vf', `scale_vaapi=${this.getScaleSize(profile)}:format=nv12,fps=${profile.frameRate}`)
           .addOption('-qp', '19')
           .addOption('-bf', '2');
       } else if (codec.name === 'h264_nvenc') {
@@ -1665,39 +2986,60 @@ ${quality}/index.m3u8
           .addInputOptions('-hwaccel', 'cuda')
           .addInputOptions('-hwaccel_output_format', 'cuda')
           .videoCodec(codec.name)
-          .addOption('-vf', `scale_cuda=-2:${profile.height}`)
+          .addOption('-vf', `scale_cuda=${this.getScaleSize(profile)},fps=${profile.frameRate}`)
           .addOption('-preset', 'medium')
           .addOption('-cq', '19')
-          .addOption('-b:v', profileSettings.bitrate)
-          .addOption('-maxrate', profileSettings.maxrate)
-          .addOption('-bufsize', profileSettings.bufsize);
+          .addOption('-forced-idr', '1') // Forced keyframes as IDR so segments start decodable
+          .addOption('-b:v', profile.bitrate)
+          .addOption('-maxrate', profile.maxrate)
+          .addOption('-bufsize', profile.bufsize);
       } else if (codec.name === 'h264_qsv') {
         // Intel QuickSync - Full hardware pipeline
         command = command
           .addInputOptions('-hwaccel', 'qsv')
           .addInputOptions('-hwaccel_output_format', 'qsv')
           .videoCodec(codec.name)
-          .addOption('-vf', `scale_qsv=-2:${profile.height}`)
+          .addOption('-vf', `scale_qsv=${this.getScaleSize(profile)},fps=${profile.frameRate}`)
           .addOption('-preset', 'medium')
           .addOption('-global_quality', '19')
-          .addOption('-b:v', profileSettings.bitrate)
-          .addOption('-maxrate', profileSettings.maxrate)
-          .addOption('-bufsize', profileSettings.bufsize);
+          .addOption('-b:v', profile.bitrate)
+          .addOption('-maxrate', profile.maxrate)
+          .addOption('-bufsize', profile.bufsize);
+      } else if (codec.name === 'libx265') {
+        // HEVC extra rendition - capped CRF like x264 (VBV from maxrate/bufsize, no -b:v target), hvc1 tag so Apple players accept it in fMP4
+        command = command
+          .videoCodec(codec.name)
+          .addOption('-preset', 'medium')
+          .addOption('-crf', '23')
+          .addOption('-tag:v', 'hvc1')
+          .addOption('-vf', softwareFilters)
+          .addOption('-maxrate', profile.maxrate)
+          .addOption('-bufsize', profile.bufsize);
+      } else if (codec.name === 'libsvtav1') {
+        // AV1 extra rendition - capped CRF, preset 8 keeps CPU time reasonable
+        command = command
+          .videoCodec(codec.name)
+          .addOption('-preset', '8')
+          .addOption('-crf', '32')
+          .addOption('-vf', softwareFilters)
+          .addOption('-maxrate', profile.maxrate)
+          .addOption('-bufsize', profile.bufsize);
       } else {
         // Software encoding (libx264)
         command = command
           .videoCodec(codec.name)
           .addOption('-preset', 'medium')
-          .addOption('-crf', '19')
-          .addOption('-vf', `scale=-2:${profile.height},fps=30`)
-          .addOption('-b:v', profileSettings.bitrate)
-          .addOption('-maxrate', profileSettings.maxrate)
-          .addOption('-bufsize', profileSettings.bufsize);
+          .addOption('-crf', String(strategy?.perTitle?.crf ?? DEFAULT_X264_CRF))
+          .addOption('-sc_threshold', '0') // No scene-cut keyframes between the fixed GOPs
+          .addOption('-vf', softwareFilters)
+          .addOption('-b:v', profile.bitrate)
+          .addOption('-maxrate', profile.maxrate)
+          .addOption('-bufsize', profile.bufsize);
       }
       
       // 🎯 Apply video filters from strategy (pixel format conversion, etc.)
       if (strategy?.videoFilters && strategy.videoFilters.length > 0) {
-        const existingFilters = codec.name === 'libx264' ? `scale=-2:${profile.height},fps=30` : '';
+        const existingFilters = codec.type === 'software' ? softwareFilters : '';
         const strategyFiltersStr = strategy.videoFilters.join(',');
         
         // Combine strategy filters with existing filters
@@ -1722,20 +3064,43 @@ ${quality}/index.m3u8
         strategy.extraOptions.forEach(opt => command = command.outputOptions(opt));
       }
       
-      // Common settings for all codecs
+      // H.264 profile/level (the extra HEVC/AV1 renditions use their encoder defaults)
+      const isExtraCodec = codec.name === 'libx265' || codec.name === 'libsvtav1';
+      if (!isExtraCodec) {
+        command = command
+          .addOption('-profile:v', profile.h264_profile)
+          .addOption('-level', profile.h264_level);
+      }
+      
+      // 🔊 AAC with the strategy's audio filters (loudness normalization) - none when audio is demuxed (DASH)
+      if (strategy?.demuxAudio) {
+        command = command.noAudio();
+      } else {
+        if (strategy?.audioFilters && strategy.audioFilters.length > 0) {
+          command = command.audioFilters(strategy.audioFilters);
+        }
+        command = command
+          .audioCodec('aac')
+          .audioBitrate(profile.audio_bitrate)
+          .addOption('-ac', '2')
+          .addOption('-ar', '48000');
+      }
+      
+      // Common settings for all codecs: keyframes forced on the segment grid (same cut points in
+      // every rung, whatever the frame rate) and a GOP of one segment in between
       command = command
-        .addOption('-profile:v', profileSettings.profile)
-        .addOption('-level', profileSettings.level)
-        .audioCodec('aac')
-        .audioBitrate(profileSettings.audioBitrate)
-        .addOption('-ac', '2')
-        .addOption('-ar', '48000')
+        .addOption('-force_key_frames', this.getForceKeyFrames(segmentDuration || 6))
+        .addOption('-g', gopSize)
+        .addOption('-keyint_min', gopSize)
         .addOption('-video_track_timescale', '90000')
         .addOption('-hls_time', (segmentDuration || 6).toString())
         .addOption('-hls_playlist_type', 'vod')
         .addOption('-hls_list_size', '0')
-        .addOption('-start_number', '0')
-        .addOption('-hls_segment_filename', join(profileDir, `${profile.name}_%d.ts`))
+        .addOption('-start_number', '0');
+      for (const [option, value] of getSegmentOptions(segmentFormat, profileDir, profile.name)) {
+        command = command.addOption(option, value);
+      }
+      command = command
         .format('hls')
         .output(outputPath);
       
@@ -1752,17 +3117,18 @@ ${quality}/index.m3u8
         .on('end', async () => {
           try {
             clearTimeout(timeoutId);
+            signal?.removeEventListener('abort', onAbort);
             
             // Count segments and get file info
             const files = await fs.readdir(profileDir);
-            const segmentFiles = files.filter(f => f.endsWith('.ts'));
+            const segmentFiles = files.filter(f => f.endsWith(getSegmentExtension(segmentFormat)));
             const stats = await fs.stat(outputPath);
             
             resolve({
               profile: profile.name,
               path: outputPath,
               size: stats.size,
-              duration: 0, // TODO: Get actual duration
+              duration: 0, // Measured from the playlist once encoding is done
               segments: segmentFiles,
               playlist: outputPath
             });
@@ -1772,6 +3138,7 @@ ${quality}/index.m3u8
         })
         .on('error', (error) => {
           clearTimeout(timeoutId);
+          signal?.removeEventListener('abort', onAbort);
           // Kill FFmpeg process to prevent memory leak
           try {
             command.kill('SIGKILL');
@@ -1792,6 +3159,24 @@ ${quality}/index.m3u8
         reject(new Error(`${codec.name} encoding timeout for ${profile.name} (${timeoutMs/1000}s)`));
       }, timeoutMs);
 
+      // 🛑 Kill ffmpeg as soon as the job is cancelled
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        logger.warn(`🛑 Cancelled - killing ${codec.name} process for ${profile.name}`);
+        try {
+          command.kill('SIGKILL');
+        } catch (e) {
+          // Ignore kill errors
+        }
+        reject(signal!.reason);
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       // Start encoding
       command.run();
     });
@@ -1801,69 +3186,229 @@ ${quality}/index.m3u8
     return this.availableCodecs[0]?.name || 'libx264';
   }
 
-  private getProfileSettings(profileName: string) {
-    // Eddie's exact settings for each profile
-    const settings = {
-      '1080p': {
-        profile: 'high',
-        level: '4.1',
-        bitrate: '5000k',
-        maxrate: '5350k',
-        bufsize: '7500k',
-        audioBitrate: '128k'
-      },
-      '720p': {
-        profile: 'high', 
-        level: '4.0',
-        bitrate: '2800k',
-        maxrate: '2996k',
-        bufsize: '4200k',
-        audioBitrate: '128k'
-      },
-      '480p': {
-        profile: 'main',
-        level: '3.1', 
-        bitrate: '1400k',
-        maxrate: '1498k',
-        bufsize: '2100k',
-        audioBitrate: '96k'
-      }
+  /**
+   * 📐 Fit the ladder to the source: drop rungs above the source's short side (no upscaling),
+   * add one native-resolution rung when the source sits below the top rung, and work out the
+   * real output dimensions. Rotation is honoured, so portrait phone videos scale on width.
+   */
+  private planRenditions(ladder: EncodingRung[], probe: FileProbeResult | null): Rendition[] {
+    const sourceWidth = probe?.resolution.width || 0;
+    const sourceHeight = probe?.resolution.height || 0;
+    if (!probe || sourceWidth <= 0 || sourceHeight <= 0) {
+      // Unknown source - fall back to the nominal ladder
+      return ladder.map(rung => ({ ...rung, portrait: false, native: false, frameRate: this.getRenditionFramerate(0, rung) }));
+    }
+    // Low rates are duplicated up to the floor by the strategy's fps filter first
+    const sourceFps = probe.framerate > 0 && probe.framerate < LOW_FPS_FLOOR ? LOW_FPS_FLOOR : probe.framerate;
+
+    // Display orientation after rotation metadata is applied
+    const rotated = probe.rotationDegrees === 90 || probe.rotationDegrees === 270;
+    const displayWidth = rotated ? sourceHeight : sourceWidth;
+    const displayHeight = rotated ? sourceWidth : sourceHeight;
+    const portrait = displayHeight > displayWidth;
+    const shortSide = Math.min(displayWidth, displayHeight);
+    const longSide = Math.max(displayWidth, displayHeight);
+    // Round down: rounding 767 up to 768 would upscale the native rung
+    const even = (value: number) => Math.max(2, Math.floor(value / 2) * 2);
+
+    const fit = (rung: EncodingRung, targetShort: number, native: boolean): Rendition => {
+      const outShort = even(targetShort);
+      const outLong = even(longSide * (targetShort / shortSide));
+      return {
+        ...rung,
+        width: portrait ? outShort : outLong,
+        height: portrait ? outLong : outShort,
+        portrait,
+        native,
+        frameRate: this.getRenditionFramerate(sourceFps, rung)
+      };
     };
-    
-    return settings[profileName as keyof typeof settings] || settings['480p'];
-  }
 
-  getAvailableCodecs(): CodecCapability[] {
-    return [...this.availableCodecs];
+    const renditions = ladder
+      .filter(rung => rung.height <= shortSide)
+      .map(rung => fit(rung, rung.height, false));
+
+    const topRung = ladder[0];
+    const topKept = renditions[0];
+    const sourceBelowLadder = topRung !== undefined && shortSide < topRung.height;
+    const alreadyNative = topKept !== undefined && even(shortSide) === topKept[portrait ? 'width' : 'height'];
+
+    if (sourceBelowLadder && !alreadyNative) {
+      // Borrow bitrate/profile/level from the closest rung at or above the source
+      const donor = [...ladder, ...Object.values(ENCODING_RUNGS)]
+        .filter(rung => rung.height >= shortSide)
+        .sort((a, b) => a.height - b.height)[0] || topRung;
+      const nativeName = `${even(shortSide)}p`;
+      renditions.unshift(fit({ ...donor, name: nativeName }, shortSide, true));
+    }
+
+    const skipped = ladder.filter(rung => rung.height > shortSide);
+    if (skipped.length > 0) {
+      logger.info(`📐 Source is ${displayWidth}x${displayHeight} - skipping ${skipped.map(rung => rung.name).join(', ')} (would upscale)`);
+    }
+
+    return renditions;
   }
 
-  private async createMasterPlaylist(outputs: EncodedOutput[], workDir: string): Promise<void> {
-    logger.info('📝 Creating master playlist (manifest.m3u8)');
+  /**
+   * 🎞️ Output frame rate for a rung: native up to the rung's cap, otherwise the source divided by the
+   * smallest whole factor that fits (60 -> 30, 50 -> 25, 120 -> 60) so frames are dropped evenly.
+   * NTSC rates stay exact rationals (59.94 -> 30000/1001).
+   */
+  private getRenditionFramerate(sourceFps: number, rung: EncodingRung): string {
+    const maxFps = rung.max_fps ?? (rung.height >= HIGH_FPS_MIN_HEIGHT ? 60 : 30);
+    if (!sourceFps || sourceFps <= 0) {
+      return String(Math.min(30, maxFps));
+    }
     
-    // Define profile specifications matching Eddie's script
-    const profileSpecs = [
-      { name: '1080p', bandwidth: 6500000, resolution: '1920x1080', codecs: 'avc1.640028,mp4a.40.2' },
-      { name: '720p', bandwidth: 3500000, resolution: '1280x720', codecs: 'avc1.64001F,mp4a.40.2' },
-      { name: '480p', bandwidth: 1800000, resolution: '854x480', codecs: 'avc1.4D401F,mp4a.40.2' }
-    ];
+    const divisor = Math.max(1, Math.ceil(sourceFps / maxFps - 0.01));
+    const ntscBase = Math.round(sourceFps * 1.001);
+    const isNtsc = Math.abs(sourceFps - ntscBase / 1.001) < 0.01 && Math.abs(sourceFps - Math.round(sourceFps)) > 0.01;
+    if (isNtsc && ntscBase % divisor === 0) {
+      return `${(ntscBase / divisor) * 1000}/1001`;
+    }
     
-    let masterPlaylist = '#EXTM3U\n';
-    masterPlaylist += '#EXT-X-VERSION:3\n';
+    const target = sourceFps / divisor;
+    return Math.abs(target - Math.round(target)) < 0.001 ? String(Math.round(target)) : target.toFixed(3);
+  }
+
+  // Keyframe interval of one segment duration, so every segment boundary can start a GOP
+  private getGopSize(profile: Rendition, segmentDuration: number): number {
+    return Math.max(1, Math.round(segmentDuration * parseFramerate(profile.frameRate)));
+  }
+
+  // Keyframe at every multiple of the segment duration - the HLS muxer cuts on these
+  private getForceKeyFrames(segmentDuration: number): string {
+    return `expr:gte(t,n_forced*${segmentDuration})`;
+  }
+
+  // ffmpeg scale size: fix the short side, let the long side follow the aspect ratio
+  private getScaleSize(profile: Rendition): string {
+    return profile.portrait ? `${profile.width}:-2` : `-2:${profile.height}`;
+  }
+
+  /**
+   * Ladder rungs as VideoProfile entries (direct-job profile generation)
+   */
+  getLadderProfiles(isShortVideo: boolean = false): VideoProfile[] {
+    return getEncodingLadder(this.config, isShortVideo).map(rung => ({
+      name: rung.name,
+      size: `?x${rung.height}`,
+      width: rung.width,
+      height: rung.height,
+      bitrate: rung.bitrate
+    }));
+  }
+
+  /**
+   * 📈 Per-title complexity analysis: encode a few evenly spread scenes with a fast CRF probe at
+   * 720p30 (or the source size when smaller) and compare the bitrate it needed with typical content.
+   * Sets strategy.perTitle and appends the decision to strategy.reason; on failure the stock ladder
+   * is used. Skipped when the strategy already forces a speed CRF (ultra-long sources).
+   */
+  private async analyzeComplexity(
+    sourceFile: string,
+    probe: FileProbeResult,
+    strategy: EncodingStrategy,
+    isShortVideo: boolean,
+    jobId: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const duration = isShortVideo ? Math.min(60, probe.duration) : probe.duration;
+    const shortSide = Math.min(probe.resolution.width, probe.resolution.height);
+    const longSide = Math.max(probe.resolution.width, probe.resolution.height);
+    if (strategy.extraOptions.includes('-crf') || duration <= 0 || shortSide <= 0) return;
     
-    // Add each profile to master playlist
-    for (const spec of profileSpecs) {
-      const output = outputs.find(o => o.profile === spec.name);
-      if (output) {
-        masterPlaylist += `#EXT-X-STREAM-INF:BANDWIDTH=${spec.bandwidth},RESOLUTION=${spec.resolution},CODECS="${spec.codecs}"\n`;
-        masterPlaylist += `${spec.name}/index.m3u8\n`;
+    try {
+      // Strategy filters rotate to display orientation first, so portrait sources are still portrait here
+      const rotated = probe.rotationDegrees === 90 || probe.rotationDegrees === 270;
+      const portrait = rotated ? probe.resolution.width > probe.resolution.height : probe.resolution.height > probe.resolution.width;
+      const probeShort = Math.min(PER_TITLE_PROBE_HEIGHT, shortSide);
+      const probeArea = probeShort * Math.round(longSide * probeShort / shortSide);
+      const filters = [
+        ...strategy.videoFilters,
+        portrait ? `scale=${probeShort}:-2` : `scale=-2:${probeShort}`,
+        'fps=30',
+        'format=yuv420p'
+      ].join(',');
+      
+      let encodedBytes = 0;
+      let sampledSeconds = 0;
+      for (let i = 0; i < PER_TITLE_SAMPLES; i++) {
+        const start = Math.max(0, duration * (i + 0.5) / PER_TITLE_SAMPLES - PER_TITLE_SAMPLE_SECONDS / 2);
+        const length = Math.min(PER_TITLE_SAMPLE_SECONDS, duration - start);
+        if (length <= 0) continue;
+        
+        const stderr = await runFfmpeg(
+          ffmpeg(sourceFile)
+            .inputOptions('-ss', start.toFixed(3), '-t', length.toFixed(3))
+            .outputOptions('-map', '0:v:0', '-an')
+            .videoFilters(filters)
+            .videoCodec('libx264')
+            .outputOptions('-preset', 'veryfast', '-crf', String(PER_TITLE_PROBE_CRF))
+            .format('null')
+            .output('-'),
+          signal
+        );
+        
+        // Final stats line: "video:1234kB audio:0kB ..." (KiB in newer builds, 1024 bytes either way)
+        const stats = stderr.join('\n').match(/video:(\d+)(?:kB|KiB)/);
+        if (!stats) continue;
+        encodedBytes += parseInt(stats[1]!, 10) * 1024;
+        sampledSeconds += length;
+        
+        // Sources shorter than the sample spread would probe the same frames again
+        if (duration <= PER_TITLE_SAMPLE_SECONDS) break;
       }
+      
+      if (sampledSeconds === 0 || encodedBytes === 0) {
+        logger.warn(`⚠️ Per-title probe produced no bitrate for job ${jobId} - using the stock ladder`);
+        return;
+      }
+      
+      // Normalize to a 1280x720 frame so 4:3, portrait and sub-720p sources compare with the reference
+      const probeBitrate = Math.round(encodedBytes * 8 / 1000 / sampledSeconds * (1280 * 720) / probeArea);
+      const complexity = Math.round(probeBitrate / PER_TITLE_REFERENCE_KBPS * 100) / 100;
+      const bitrateFactor = Math.min(PER_TITLE_MAX_FACTOR, Math.max(PER_TITLE_MIN_FACTOR, complexity));
+      // Easy content gives up a little quality it can't show (bigger CRF), hard content gets a little more
+      const crf = Math.min(21, Math.max(18, Math.round(DEFAULT_X264_CRF - 2 * Math.log2(bitrateFactor))));
+      
+      const decision: PerTitleDecision = {
+        probeBitrate,
+        complexity,
+        bitrateFactor,
+        crf,
+        sampledSeconds: Math.round(sampledSeconds * 10) / 10
+      };
+      strategy.perTitle = decision;
+      const summary = `per-title complexity ${complexity} (${probeBitrate}kbps at CRF ${PER_TITLE_PROBE_CRF}) - bitrates x${bitrateFactor}, CRF ${crf}`;
+      strategy.reason = strategy.reason === 'standard processing' ? summary : `${strategy.reason}, ${summary}`;
+      
+      logger.info(`📈 Job ${jobId}: ${summary} (${decision.sampledSeconds}s sampled)`);
+    } catch (error) {
+      if (isJobCancelledError(error) || signal?.aborted) throw error;
+      logger.warn(`⚠️ Per-title analysis failed for job ${jobId} - using the stock ladder:`, cleanErrorForLogging(error));
     }
+  }
+
+  /**
+   * Scale each planned rung's bitrate/maxrate/bufsize by the per-title factor (no-op without a decision)
+   */
+  private applyPerTitle(renditions: Rendition[], strategy: EncodingStrategy | null): Rendition[] {
+    const factor = strategy?.perTitle?.bitrateFactor;
+    if (!factor || factor === 1) return renditions;
     
-    // Write master playlist to work directory
-    const masterPlaylistPath = join(workDir, 'manifest.m3u8');
-    await fs.writeFile(masterPlaylistPath, masterPlaylist);
-    
-    logger.info(`✅ Master playlist created: manifest.m3u8`);
+    const scaleBitrate = (value: string) => `${Math.round(parseBitrate(value) * factor / 1000)}k`;
+    return renditions.map(rendition => ({
+      ...rendition,
+      bitrate: scaleBitrate(rendition.bitrate),
+      maxrate: scaleBitrate(rendition.maxrate),
+      bufsize: scaleBitrate(rendition.bufsize)
+    }));
+  }
+
+  getAvailableCodecs(): CodecCapability[] {
+    return [...this.availableCodecs];
   }
 
 
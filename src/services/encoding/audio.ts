@@ -0,0 +1,274 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { AudioRendition, EncodedOutput, EncodingProgress, FileProbeResult, LoudnessInfo, SegmentFormat } from '../../types/index.js';
+import { logger } from '../Logger.js';
+import { cleanErrorForLogging, isJobCancelledError } from '../../common/errorUtils.js';
+import { runFfmpeg, throwIfCancelled } from './ffmpeg.js';
+import { calculateAdaptiveSegmentDuration, getSegmentOptions, measureOutput } from './hls.js';
+
+// loudnorm: true peak ceiling (dBTP) and loudness range target (LU) next to the configured LUFS
+const LOUDNORM_TRUE_PEAK = -1.5;
+const LOUDNORM_RANGE = 11;
+
+/**
+ * 🔊 loudnorm first pass: measure integrated loudness, true peak and LRA of one audio track.
+ * Returns null (no normalization) for silent tracks or when the measurement fails.
+ */
+export async function measureLoudness(
+  sourceFile: string,
+  audioTrack: number,
+  target: number,
+  isShortVideo: boolean,
+  signal?: AbortSignal
+): Promise<LoudnessInfo | null> {
+  try {
+    let command = ffmpeg(sourceFile)
+      .outputOptions('-map', `0:a:${audioTrack}`)
+      .audioFilters(`loudnorm=I=${target}:TP=${LOUDNORM_TRUE_PEAK}:LRA=${LOUDNORM_RANGE}:print_format=json`)
+      .format('null');
+    if (isShortVideo) {
+      command = command.outputOptions('-t', '60');
+    }
+    const stderr = await runFfmpeg(command.output('-'), signal);
+    
+    const json = stderr.join('\n').match(/\{[^{}]*"input_i"[^{}]*\}/);
+    if (!json) {
+      logger.warn(`⚠️ loudnorm printed no measurement for audio track ${audioTrack} - skipping normalization`);
+      return null;
+    }
+    const stats = JSON.parse(json[0]);
+    const loudness: LoudnessInfo = {
+      integrated: parseFloat(stats.input_i),
+      truePeak: parseFloat(stats.input_tp),
+      range: parseFloat(stats.input_lra),
+      threshold: parseFloat(stats.input_thresh),
+      targetOffset: parseFloat(stats.target_offset),
+      target,
+      normalized: true
+    };
+    
+    // Silence measures as -inf - nothing to normalize
+    if (![loudness.integrated, loudness.truePeak, loudness.range, loudness.threshold, loudness.targetOffset].every(Number.isFinite)) {
+      logger.info(`🔇 Audio track ${audioTrack} is silent - skipping normalization`);
+      return null;
+    }
+    
+    logger.info(`🔊 Loudness of audio track ${audioTrack}: ${loudness.integrated} LUFS, ${loudness.truePeak} dBTP, LRA ${loudness.range} LU (target ${target} LUFS)`);
+    return loudness;
+  } catch (error) {
+    if (isJobCancelledError(error) || signal?.aborted) throw error;
+    logger.warn(`⚠️ Loudness measurement failed for audio track ${audioTrack} - skipping normalization:`, cleanErrorForLogging(error));
+    return null;
+  }
+}
+
+/**
+ * loudnorm second pass from a first-pass measurement (linear mode keeps dynamics intact where possible)
+ */
+export function getLoudnormFilter(loudness: LoudnessInfo): string {
+  return `loudnorm=I=${loudness.target}:TP=${LOUDNORM_TRUE_PEAK}:LRA=${LOUDNORM_RANGE}` +
+    `:measured_I=${loudness.integrated}:measured_TP=${loudness.truePeak}:measured_LRA=${loudness.range}` +
+    `:measured_thresh=${loudness.threshold}:offset=${loudness.targetOffset}:linear=true`;
+}
+
+/**
+ * 🔊 Resolve the requested audio tracks (a:N positions or language tags) against the probe.
+ * Nothing requested keeps every track; an empty match falls back to the first track.
+ */
+export function selectAudioTracks(probe: FileProbeResult | null, requested?: Array<number | string>): number[] {
+  const tracks = probe?.audioTracks || [];
+  if (tracks.length === 0) return [];
+  if (!requested || requested.length === 0) return tracks.map((_, position) => position);
+  
+  const selected: number[] = [];
+  for (const entry of requested) {
+    const matches = typeof entry === 'number'
+      ? (entry < tracks.length ? [entry] : [])
+      : tracks
+        .map((track, position) => track.language?.toLowerCase() === entry.toLowerCase() ? position : -1)
+        .filter(position => position >= 0);
+    
+    if (matches.length === 0) {
+      logger.warn(`⚠️ Requested audio track "${entry}" not found in source (${tracks.length} track(s): ${tracks.map(t => t.language || 'und').join(', ')})`);
+    }
+    for (const position of matches) {
+      if (!selected.includes(position)) selected.push(position);
+    }
+  }
+  
+  return selected.length > 0 ? selected : [0];
+}
+
+/**
+ * 🔊 Encode every selected track after the default one to an AAC audio-only HLS rendition
+ * under audio/. Returns the whole AUDIO group (default track first, muxed in the video
+ * renditions), or [] when only one track is kept. A failed track is skipped, not fatal.
+ * demuxed (DASH): the video renditions carry no audio, so the default track gets its own
+ * rendition too and failing it fails the job.
+ */
+export async function encodeAudioRenditions(
+  sourceFile: string,
+  outputsDir: string,
+  probe: FileProbeResult | null,
+  selection: number[],
+  audioBitrate: string,
+  segmentFormat: SegmentFormat,
+  isShortVideo: boolean,
+  loudnormTarget: number | null,
+  demuxed: boolean,
+  jobId: string,
+  signal?: AbortSignal
+): Promise<AudioRendition[]> {
+  if (!probe || selection.length < (demuxed ? 1 : 2)) return [];
+  
+  // NAME must be unique inside the group (e.g. two untitled "eng" tracks: main + commentary)
+  const usedNames = new Set<string>();
+  const describe = (position: number) => {
+    const track = probe.audioTracks[position];
+    const language = track?.language || 'und';
+    let name = track?.title || track?.language || `Track ${position + 1}`;
+    if (usedNames.has(name)) name = `${name} (${position + 1})`;
+    usedNames.add(name);
+    return { language, name };
+  };
+  
+  const renditions: AudioRendition[] = demuxed ? [] : [{ sourceTrack: selection[0]!, ...describe(selection[0]!), default: true }];
+  const segmentDuration = await calculateAdaptiveSegmentDuration(sourceFile);
+  
+  for (const position of demuxed ? selection : selection.slice(1)) {
+    const isDefault = position === selection[0];
+    const { language, name } = describe(position);
+    const id = `${language.replace(/[^a-zA-Z0-9-]/g, '') || 'und'}_${position}`;
+    const trackDir = join(outputsDir, 'audio', id);
+    const playlist = join(trackDir, 'index.m3u8');
+    
+    try {
+      await fs.mkdir(trackDir, { recursive: true });
+      
+      // Each track gets its own loudnorm measurement
+      const trackLoudness = loudnormTarget !== null
+        ? await measureLoudness(sourceFile, position, loudnormTarget, isShortVideo, signal)
+        : null;
+      
+      let command = ffmpeg(sourceFile)
+        .outputOptions('-map', `0:a:${position}`)
+        .noVideo();
+      if (trackLoudness) {
+        command = command.audioFilters(getLoudnormFilter(trackLoudness));
+      }
+      command = command
+        .audioCodec('aac')
+        .audioBitrate(audioBitrate)
+        .addOption('-ac', '2')
+        .addOption('-ar', '48000')
+        .addOption('-hls_time', String(segmentDuration))
+        .addOption('-hls_playlist_type', 'vod')
+        .addOption('-hls_list_size', '0')
+        .addOption('-start_number', '0');
+      if (isShortVideo) {
+        command = command.outputOptions('-t', '60');
+      }
+      for (const [option, value] of getSegmentOptions(segmentFormat, trackDir, id)) {
+        command = command.addOption(option, value);
+      }
+      await runFfmpeg(command.format('hls').output(playlist), signal);
+      
+      const measured = await measureOutput({ profile: `audio/${id}`, path: playlist, playlist, size: 0, duration: 0, segments: [] });
+      renditions.push({
+        sourceTrack: position,
+        language,
+        name,
+        default: isDefault,
+        playlist: `audio/${id}/index.m3u8`,
+        ...(measured.peakBitrate && { peakBitrate: measured.peakBitrate }),
+        ...(measured.codecs && { codecs: measured.codecs }),
+        ...(trackLoudness && { loudness: trackLoudness.integrated })
+      });
+    } catch (error) {
+      // Demuxed video renditions have no audio of their own - the default track is not optional
+      if (isJobCancelledError(error) || signal?.aborted || isDefault) throw error;
+      logger.warn(`⚠️ Audio track ${position} (${language}) failed - skipping it:`, cleanErrorForLogging(error));
+      await fs.rm(trackDir, { recursive: true, force: true });
+    }
+  }
+  
+  if (renditions.length < (demuxed ? 1 : 2)) return [];
+  logger.info(`🔊 ${renditions.length} audio track(s) for job ${jobId}: ${renditions.map(r => `${r.name} [${r.language}]${r.default ? ' (default)' : ''}`).join(', ')}`);
+  return renditions;
+}
+
+/**
+ * 🎧 Audio-only job: one AAC HLS rendition per configured bitrate (audio_<bitrate>/) plus a
+ * downloadable M4A/MP3 at the top bitrate. Loudnorm reaches every output through audioFilters.
+ */
+export async function encodeAudioOnly(
+  sourceFile: string,
+  outputsDir: string,
+  audioStream: number,
+  audioFilters: string[],
+  bitrates: string[],
+  downloadFormat: 'm4a' | 'mp3',
+  segmentFormat: SegmentFormat,
+  isShortVideo: boolean,
+  jobId: string,
+  progressCallback?: (progress: EncodingProgress) => void,
+  signal?: AbortSignal
+): Promise<{ outputs: EncodedOutput[]; download: string }> {
+  const segmentDuration = await calculateAdaptiveSegmentDuration(sourceFile);
+  const steps = bitrates.length + 1;
+  
+  const baseCommand = () => {
+    let command = ffmpeg(sourceFile)
+      .outputOptions('-map', `0:a:${audioStream}`)
+      .noVideo();
+    if (audioFilters.length > 0) {
+      command = command.audioFilters(audioFilters);
+    }
+    if (isShortVideo) {
+      command = command.outputOptions('-t', '60');
+    }
+    return command
+      .addOption('-ac', '2')
+      .addOption('-ar', '48000');
+  };
+  
+  const outputs: EncodedOutput[] = [];
+  for (let i = 0; i < bitrates.length; i++) {
+    const bitrate = bitrates[i]!;
+    const profile = `audio_${bitrate}`;
+    const profileDir = join(outputsDir, profile);
+    const playlist = join(profileDir, 'index.m3u8');
+    throwIfCancelled(jobId, signal);
+    logger.info(`🎧 Processing ${profile} for job ${jobId}`);
+    await fs.mkdir(profileDir, { recursive: true });
+    
+    let command = baseCommand()
+      .audioCodec('aac')
+      .audioBitrate(bitrate)
+      .addOption('-hls_time', String(segmentDuration))
+      .addOption('-hls_playlist_type', 'vod')
+      .addOption('-hls_list_size', '0')
+      .addOption('-start_number', '0');
+    for (const [option, value] of getSegmentOptions(segmentFormat, profileDir, profile)) {
+      command = command.addOption(option, value);
+    }
+    await runFfmpeg(command.format('hls').output(playlist), signal);
+    
+    outputs.push({ profile, path: playlist, playlist, size: 0, duration: 0, segments: [] });
+    progressCallback?.({ jobId, profile, percent: ((i + 1) / steps) * 100 });
+  }
+  
+  // 💾 Single file for download/RSS enclosures, at the top ladder bitrate
+  throwIfCancelled(jobId, signal);
+  const download = `audio.${downloadFormat}`;
+  let command = baseCommand().audioBitrate(bitrates[0]!);
+  command = downloadFormat === 'mp3'
+    ? command.audioCodec('libmp3lame').format('mp3')
+    : command.audioCodec('aac').addOption('-movflags', '+faststart').format('ipod');
+  await runFfmpeg(command.output(join(outputsDir, download)), signal);
+  progressCallback?.({ jobId, profile: 'download', percent: 100 });
+  
+  logger.info(`🎧 Audio-only outputs for job ${jobId}: ${outputs.map(output => output.profile).join(', ')} + ${download}`);
+  return { outputs, download };
+}
@@ -0,0 +1,95 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { EncodingRung } from '../../config/ConfigLoader.js';
+import { logger } from '../Logger.js';
+
+// "5350k" -> 5350000, "2M" -> 2000000
+export function parseBitrate(value: string): number {
+  const match = value.trim().match(/^([\d.]+)\s*([kKmM]?)/);
+  if (!match) return 0;
+  const amount = parseFloat(match[1]!);
+  const unit = match[2]!.toLowerCase();
+  return Math.round(amount * (unit === 'm' ? 1000000 : unit === 'k' ? 1000 : 1));
+}
+
+/**
+ * Parse ffmpeg framerate fraction (e.g., "30000/1001" -> 29.97)
+ */
+export function parseFramerate(frameRateStr: string): number {
+  const parts = frameRateStr.split('/');
+  if (parts.length === 2) {
+    return parseInt(parts[0]!) / parseInt(parts[1]!);
+  }
+  return parseFloat(frameRateStr);
+}
+
+export function toHexByte(value: number): string {
+  return value.toString(16).toUpperCase().padStart(2, '0');
+}
+
+/**
+ * RFC 6381 avc1 codec string from the rung's H.264 profile/level, e.g. high@4.1 -> avc1.640029
+ */
+export function getH264CodecString(rung: EncodingRung): string {
+  const profileIdc = { baseline: '42E0', main: '4D40', high: '6400' }[rung.h264_profile];
+  return `avc1.${profileIdc}${toHexByte(Math.round(parseFloat(rung.h264_level) * 10))}`;
+}
+
+/**
+ * RFC 6381 codec string for a probed video stream (H.264 / HEVC)
+ */
+export function getVideoCodecString(stream: ffmpeg.FfprobeStream): string | null {
+  const profile = String(stream.profile || '').toLowerCase();
+  const level = typeof stream.level === 'number' && stream.level > 0 ? stream.level : 0;
+  
+  if (stream.codec_name === 'h264') {
+    // profile_idc + constraint flags, as players expect them
+    const profileIdc =
+      profile.includes('constrained baseline') ? '42E0' :
+      profile.includes('baseline') ? '4200' :
+      profile.includes('main') ? '4D40' :
+      profile.includes('high 10') ? '6E00' :
+      profile.includes('high 4:2:2') ? '7A00' :
+      profile.includes('high 4:4:4') ? 'F400' :
+      '6400';
+    return `avc1.${profileIdc}${toHexByte(level || 40)}`;
+  }
+  
+  if (stream.codec_name === 'hevc') {
+    // hvc1.<profile>.<compat>.L<level*30>.B0 (Main tier)
+    const main10 = profile.includes('10');
+    return `hvc1.${main10 ? '2.4' : '1.6'}.L${level || 120}.B0`;
+  }
+  
+  if (stream.codec_name === 'av1') {
+    // av01.<profile>.<seq_level_idx><tier>.<bit depth>
+    const profileIdc = profile.includes('professional') ? 2 : profile.includes('high') ? 1 : 0;
+    const bitDepth = String(stream.pix_fmt || '').includes('10') ? '10' : '08';
+    const levelIdx = typeof stream.level === 'number' && stream.level >= 0 ? stream.level : 8;
+    return `av01.${profileIdc}.${String(levelIdx).padStart(2, '0')}M.${bitDepth}`;
+  }
+  
+  logger.warn(`⚠️ No RFC 6381 mapping for video codec ${stream.codec_name}`);
+  return null;
+}
+
+/**
+ * RFC 6381 codec string for a probed audio stream
+ */
+export function getAudioCodecString(stream: ffmpeg.FfprobeStream): string | null {
+  const profile = String(stream.profile || '').toLowerCase();
+  switch (stream.codec_name) {
+    case 'aac':
+      return profile === 'he-aacv2' ? 'mp4a.40.29' : profile === 'he-aac' ? 'mp4a.40.5' : 'mp4a.40.2';
+    case 'mp3':
+      return 'mp4a.40.34';
+    case 'ac3':
+      return 'ac-3';
+    case 'eac3':
+      return 'ec-3';
+    case 'opus':
+      return 'Opus';
+    default:
+      logger.warn(`⚠️ No RFC 6381 mapping for audio codec ${stream.codec_name}`);
+      return null;
+  }
+}
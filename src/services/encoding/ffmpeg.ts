@@ -0,0 +1,76 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { createJobCancelledError, isJobCancelledError } from '../../common/errorUtils.js';
+
+// HDR -> SDR: linearize (zscale), tone map in float RGB, back to tagged BT.709 limited-range 8-bit
+const TONEMAP_PEAK_NITS = 100; // zscale npl: reference white for the linear-light conversion
+const TONEMAP_OPERATOR = 'hable';
+
+/**
+ * Run a short ffmpeg job (thumbnails, analysis) to completion and collect its stderr;
+ * killed as soon as the job is cancelled
+ */
+export function runFfmpeg(command: ffmpeg.FfmpegCommand, signal?: AbortSignal): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    const stderr: string[] = [];
+    
+    const onAbort = () => {
+      try {
+        command.kill('SIGKILL');
+      } catch (e) {
+        // Ignore kill errors
+      }
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    
+    command
+      .on('stderr', (line: string) => stderr.push(line))
+      .on('end', () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(stderr);
+      })
+      .on('error', (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      });
+    
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    
+    command.run();
+  });
+}
+
+/**
+ * 🛑 Stop between stages once the job has been cancelled
+ */
+export function throwIfCancelled(jobId: string, signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw getCancellationError(jobId, signal);
+  }
+}
+
+export function getCancellationError(jobId: string, signal: AbortSignal): Error {
+  return isJobCancelledError(signal.reason) ? signal.reason : createJobCancelledError(jobId);
+}
+
+/**
+ * 🌈 zscale/tonemap chain for a PQ or HLG source: linear light -> BT.709 primaries -> tone mapped
+ * float RGB -> BT.709 transfer/matrix, limited range 8-bit
+ */
+export function getToneMapFilter(transfer: string): string {
+  return `zscale=tin=${transfer}:pin=bt2020:min=bt2020nc:t=linear:npl=${TONEMAP_PEAK_NITS},format=gbrpf32le,` +
+    `zscale=p=bt709,tonemap=tonemap=${TONEMAP_OPERATOR}:desat=0,` +
+    `zscale=t=bt709:m=bt709:r=tv,format=yuv420p`;
+}
+
+// 75.5 -> "00:01:15.500"
+export function formatVttTime(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  const hh = String(Math.floor(ms / 3600000)).padStart(2, '0');
+  const mm = String(Math.floor(ms / 60000) % 60).padStart(2, '0');
+  const ss = String(Math.floor(ms / 1000) % 60).padStart(2, '0');
+  return `${hh}:${mm}:${ss}.${String(ms % 1000).padStart(3, '0')}`;
+}
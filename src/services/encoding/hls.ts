@@ -0,0 +1,216 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import { EncodedOutput, SegmentFormat } from '../../types/index.js';
+import { logger } from '../Logger.js';
+import { getAudioCodecString, getVideoCodecString, parseFramerate } from './codecs.js';
+
+/**
+ * 📏 Measure a rendition from its playlist: EXTINF durations, bytes on disk,
+ * average/peak bitrate and the resolution of the first segment
+ */
+export async function measureOutput(output: EncodedOutput): Promise<EncodedOutput> {
+  try {
+    const playlistDir = dirname(output.playlist);
+    const playlist = await readMediaPlaylist(output.playlist);
+    const initSegment = playlist.initSegment;
+    const segments = playlist.segments.map(segment => segment.uri);
+    
+    // fMP4: the init segment carries the codec config and is fetched once per rendition
+    let size = (await fs.stat(output.playlist)).size;
+    if (initSegment) {
+      size += (await fs.stat(join(playlistDir, initSegment))).size;
+    }
+    
+    let duration = 0;
+    let peakBitrate = 0;
+    for (const segment of playlist.segments) {
+      const segmentSize = (await fs.stat(join(playlistDir, segment.uri))).size;
+      size += segmentSize;
+      duration += segment.duration;
+      if (segment.duration > 0) {
+        peakBitrate = Math.max(peakBitrate, Math.round(segmentSize * 8 / segment.duration));
+      }
+    }
+    
+    // .m4s fragments are not playable alone - probe them behind their init segment
+    const streams = segments[0]
+      ? await probeSegment(initSegment
+        ? `concat:${join(playlistDir, initSegment)}|${join(playlistDir, segments[0])}`
+        : join(playlistDir, segments[0]))
+      : null;
+    const resolution = streams?.resolution;
+    const measured: EncodedOutput = {
+      ...output,
+      size,
+      duration: Math.round(duration * 1000) / 1000,
+      segments,
+      segmentCount: segments.length,
+      ...(initSegment && { initSegment }),
+      averageBitrate: duration > 0 ? Math.round(size * 8 / duration) : 0,
+      peakBitrate,
+      ...(resolution && { resolution }),
+      ...(streams?.codecs && { codecs: streams.codecs }),
+      ...(streams?.frameRate && { frameRate: streams.frameRate })
+    };
+    
+    logger.info(`📏 ${output.profile}: ${measured.duration}s, ${segments.length} segments, ${(size / 1024 / 1024).toFixed(1)}MB, avg ${Math.round(measured.averageBitrate! / 1000)}kbps, peak ${Math.round(peakBitrate / 1000)}kbps${resolution ? `, ${resolution.width}x${resolution.height}` : ''}${streams?.codecs ? `, ${streams.codecs}` : ''}`);
+    return measured;
+  } catch (error) {
+    logger.warn(`⚠️ Could not measure ${output.profile} output:`, error);
+    return output;
+  }
+}
+
+/**
+ * 📜 Parse a media playlist into its EXT-X-MAP init segment and EXTINF segments
+ */
+export async function readMediaPlaylist(playlistPath: string): Promise<{
+  initSegment: string | null;
+  segments: Array<{ uri: string; duration: number }>;
+}> {
+  const lines = (await fs.readFile(playlistPath, 'utf8')).split('\n').map(line => line.trim());
+  const segments: Array<{ uri: string; duration: number }> = [];
+  let initSegment: string | null = null;
+  let segmentDuration: number | null = null;
+  
+  for (const line of lines) {
+    const map = line.match(/^#EXT-X-MAP:.*URI="([^"]+)"/);
+    if (map) {
+      initSegment = map[1]!;
+    } else if (line.startsWith('#EXTINF:')) {
+      segmentDuration = parseFloat(line.slice('#EXTINF:'.length)) || 0;
+    } else if (line && !line.startsWith('#') && segmentDuration !== null) {
+      segments.push({ uri: line, duration: segmentDuration });
+      segmentDuration = null;
+    }
+  }
+  
+  return { initSegment, segments };
+}
+
+/**
+ * 🔍 Read what actually ended up in an encoded segment: coded resolution,
+ * frame rate, start time (seconds, video first) and the RFC 6381 CODECS value of its video/audio streams
+ */
+export async function probeSegment(filePath: string): Promise<{
+  resolution?: { width: number; height: number };
+  codecs?: string;
+  frameRate?: number;
+  startTime?: number;
+} | null> {
+  return new Promise((resolve) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      if (err || !metadata?.streams) {
+        return resolve(null);
+      }
+      
+      const videoStream = metadata.streams.find(s => s.codec_type === 'video');
+      const audioStream = metadata.streams.find(s => s.codec_type === 'audio');
+      const codecs = [
+        videoStream && getVideoCodecString(videoStream),
+        audioStream && getAudioCodecString(audioStream)
+      ].filter((codec): codec is string => !!codec);
+      const frameRate = videoStream
+        ? parseFramerate(videoStream.avg_frame_rate && videoStream.avg_frame_rate !== '0/0' ? videoStream.avg_frame_rate : videoStream.r_frame_rate || '0')
+        : 0;
+      const startTime = Number((videoStream || audioStream)?.start_time);
+      
+      resolve({
+        ...(videoStream?.width && videoStream?.height && { resolution: { width: videoStream.width, height: videoStream.height } }),
+        ...(codecs.length > 0 && { codecs: codecs.join(',') }),
+        ...(frameRate > 0 && { frameRate: Math.round(frameRate * 1000) / 1000 }),
+        ...(Number.isFinite(startTime) && { startTime })
+      });
+    });
+  });
+}
+
+/**
+ * 🧩 HLS segment muxer options: MPEG-TS segments, or fMP4/CMAF with an init segment
+ * (written next to the playlist) plus .m4s media segments
+ */
+export function getSegmentOptions(segmentFormat: SegmentFormat, segmentDir: string, baseName: string): Array<[string, string]> {
+  const segmentFile = join(segmentDir, `${baseName}_%d${getSegmentExtension(segmentFormat)}`);
+  if (segmentFormat === 'fmp4') {
+    return [
+      ['-hls_segment_type', 'fmp4'],
+      ['-hls_fmp4_init_filename', `${baseName}_init.mp4`],
+      ['-hls_segment_filename', segmentFile]
+    ];
+  }
+  return [['-hls_segment_filename', segmentFile]];
+}
+
+export function getSegmentExtension(segmentFormat: SegmentFormat): string {
+  return segmentFormat === 'fmp4' ? '.m4s' : '.ts';
+}
+
+/**
+ * 🛡️ IPFS PROTECTION: Calculate adaptive segment duration to prevent upload disasters
+ */
+export async function calculateAdaptiveSegmentDuration(sourceFile: string): Promise<number> {
+  try {
+    const ffprobe = await import('fluent-ffmpeg');
+    
+    return new Promise((resolve, reject) => {
+      ffprobe.default.ffprobe(sourceFile, (err, metadata) => {
+        if (err) {
+          logger.warn('⚠️ Could not probe for adaptive segments, using 6s default:', err);
+          resolve(6);
+          return;
+        }
+        
+        const duration = metadata.format.duration || 0;
+        const durationHours = duration / 3600;
+        
+        // 🛡️ ADAPTIVE SEGMENT PROTECTION: Prevent IPFS upload disasters
+        let segmentDuration: number;
+        let maxSegments: number;
+        let reasoning: string;
+        
+        if (durationHours <= 1) {
+          // Short videos: 6s segments (up to 600 segments for 1h)
+          segmentDuration = 6;
+          maxSegments = Math.ceil(duration / 6);
+          reasoning = 'short video (<1h)';
+        } else if (durationHours <= 4) {
+          // Medium videos: 15s segments (up to 960 segments for 4h)
+          segmentDuration = 15;
+          maxSegments = Math.ceil(duration / 15);
+          reasoning = 'medium video (1-4h)';
+        } else if (durationHours <= 12) {
+          // Long videos: 30s segments (up to 1440 segments for 12h)
+          segmentDuration = 30;
+          maxSegments = Math.ceil(duration / 30);
+          reasoning = 'long video (4-12h)';
+        } else {
+          // Ultra-long videos: 60s segments (max 1440 segments for 24h)
+          segmentDuration = 60;
+          maxSegments = Math.ceil(duration / 60);
+          reasoning = 'ultra-long video (>12h)';
+        }
+        
+        // 🚨 HARD LIMIT: Never exceed 2000 segments (IPFS upload limit)
+        const HARD_SEGMENT_LIMIT = 2000;
+        if (maxSegments > HARD_SEGMENT_LIMIT) {
+          segmentDuration = Math.ceil(duration / HARD_SEGMENT_LIMIT);
+          maxSegments = HARD_SEGMENT_LIMIT;
+          reasoning = `IPFS-limited (${segmentDuration}s segments to stay under ${HARD_SEGMENT_LIMIT} limit)`;
+        }
+        
+        logger.info(`🛡️ Adaptive segments for ${durationHours.toFixed(1)}h video: ${segmentDuration}s segments (≈${maxSegments} total) - ${reasoning}`);
+        
+        // 🚨 WARNING for extreme cases
+        if (maxSegments > 1500) {
+          logger.warn(`⚠️ HIGH SEGMENT COUNT: ${maxSegments} segments may stress IPFS uploads`);
+        }
+        
+        resolve(segmentDuration);
+      });
+    });
+  } catch (error) {
+    logger.warn('⚠️ Error calculating adaptive segments, using 6s default:', error);
+    return 6;
+  }
+}
@@ -0,0 +1,273 @@
+import { promises as fs } from 'fs';
+import { basename, dirname, join } from 'path';
+import { EncodingRung, ENCODING_RUNGS } from '../../config/ConfigLoader.js';
+import { AudioRendition, EncodedOutput, SubtitleRendition } from '../../types/index.js';
+import { logger } from '../Logger.js';
+import { getH264CodecString, parseBitrate } from './codecs.js';
+import { readMediaPlaylist } from './hls.js';
+
+// Master playlist / DASH ordering: H.264 first so players that ignore CODECS still get a safe default
+const VIDEO_CODEC_ORDER = ['h264', 'hevc', 'av1'];
+
+/**
+ * Peak BANDWIDTH for a rung: video maxrate + audio, plus ~10% MPEG-TS overhead
+ */
+export function getRungBandwidth(rung: EncodingRung): number {
+  const peak = parseBitrate(rung.maxrate) + parseBitrate(rung.audio_bitrate);
+  return Math.round(peak * 1.1);
+}
+
+export function getVideoCodecRank(output: EncodedOutput): number {
+  return VIDEO_CODEC_ORDER.indexOf(output.videoCodec || 'h264');
+}
+
+/**
+ * 📝 Master playlist built from the measured outputs (peak/average bandwidth,
+ * coded resolution, probed CODECS and frame rate). Ladder values are only a
+ * fallback when a rendition could not be measured.
+ */
+export async function createMasterPlaylist(
+  outputs: EncodedOutput[],
+  workDir: string,
+  ladder: EncodingRung[],
+  subtitles: SubtitleRendition[] = [],
+  audioRenditions: AudioRendition[] = []
+): Promise<void> {
+  logger.info('📝 Creating master playlist (manifest.m3u8)');
+  
+  // fMP4 renditions use EXT-X-MAP, which needs protocol version 7 (what ffmpeg writes in them)
+  let masterPlaylist = '#EXTM3U\n';
+  masterPlaylist += `#EXT-X-VERSION:${outputs.some(output => output.initSegment) ? 7 : 3}\n`;
+  
+  // 🔊 AUDIO group: the default track is muxed in the variants (no URI), alternates have playlists
+  for (const track of audioRenditions) {
+    const uri = track.playlist ? `,URI="${track.playlist}"` : '';
+    masterPlaylist += `#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="${track.name.replace(/"/g, "'")}",LANGUAGE="${track.language}",DEFAULT=${track.default ? 'YES' : 'NO'},AUTOSELECT=YES${uri}\n`;
+  }
+  // A variant played with an alternate track also fetches that track's segments
+  const alternateAudioPeak = Math.max(0, ...audioRenditions.map(track => track.peakBitrate ?? 0));
+  // Demuxed audio (DASH): the variants' segments are video-only but CODECS must still name the audio codec
+  const demuxedAudioCodecs = audioRenditions.find(track => track.default && track.playlist)?.codecs;
+  
+  // 💬 One SUBTITLES group shared by every variant
+  for (const track of subtitles) {
+    masterPlaylist += `#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="${track.name.replace(/"/g, "'")}",LANGUAGE="${track.language}",DEFAULT=NO,AUTOSELECT=YES,URI="${track.playlist}"\n`;
+  }
+  
+  // VIDEO-RANGE only matters once an HDR10 variant sits next to the SDR ones
+  const hasHdrVariant = outputs.some(output => output.videoRange === 'PQ');
+  
+  const variants = outputs.map(output => {
+    // Ladder values only describe the H.264 renditions
+    const rung = output.videoCodec && output.videoCodec !== 'h264'
+      ? undefined
+      : ladder.find(r => r.name === output.profile) || ENCODING_RUNGS[output.profile];
+    return { output, rung, bandwidth: output.peakBitrate || (rung ? getRungBandwidth(rung) : 0) };
+  });
+  
+  // Grouped by codec (H.264 first), highest bandwidth first within each group
+  variants.sort((a, b) =>
+    getVideoCodecRank(a.output) - getVideoCodecRank(b.output) || b.bandwidth - a.bandwidth
+  );
+  
+  for (const { output, rung, bandwidth } of variants) {
+    if (!bandwidth) {
+      logger.warn(`⚠️ No measurements or ladder rung for output ${output.profile} - leaving it out of master playlist`);
+      continue;
+    }
+    
+    const attributes = [`BANDWIDTH=${bandwidth + alternateAudioPeak}`];
+    if (output.averageBitrate) {
+      attributes.push(`AVERAGE-BANDWIDTH=${output.averageBitrate}`);
+    }
+    const resolution = output.resolution || (rung && { width: rung.width, height: rung.height });
+    if (resolution) {
+      attributes.push(`RESOLUTION=${resolution.width}x${resolution.height}`);
+    }
+    if (output.frameRate) {
+      attributes.push(`FRAME-RATE=${output.frameRate.toFixed(3)}`);
+    }
+    if (hasHdrVariant && resolution) {
+      attributes.push(`VIDEO-RANGE=${output.videoRange ?? 'SDR'}`);
+    }
+    let codecs = output.codecs || (rung && `${getH264CodecString(rung)},mp4a.40.2`);
+    if (codecs && demuxedAudioCodecs && !codecs.includes(demuxedAudioCodecs)) {
+      codecs += `,${demuxedAudioCodecs}`;
+    }
+    if (codecs) {
+      attributes.push(`CODECS="${codecs}"`);
+    }
+    if (audioRenditions.length > 0) {
+      attributes.push('AUDIO="aud"');
+    }
+    if (subtitles.length > 0) {
+      attributes.push('SUBTITLES="subs"');
+    }
+    
+    masterPlaylist += `#EXT-X-STREAM-INF:${attributes.join(',')}\n`;
+    masterPlaylist += `${output.profile}/index.m3u8\n`;
+  }
+  
+  // Write master playlist to work directory
+  const masterPlaylistPath = join(workDir, 'manifest.m3u8');
+  await fs.writeFile(masterPlaylistPath, masterPlaylist);
+  
+  logger.info(`✅ Master playlist created: manifest.m3u8`);
+}
+
+/**
+ * 📺 DASH manifest (manifest.mpd) over the same fMP4 segments the HLS playlists use: one video
+ * AdaptationSet per codec (HDR10 apart), one audio AdaptationSet per audio rendition and one text
+ * AdaptationSet per WebVTT track. SegmentTimeline from the EXTINF durations.
+ * The video renditions must be video-only, with every audio track encoded as its own rendition.
+ * Returns false (and writes nothing) when a rendition has no init segment, i.e. it is MPEG-TS.
+ */
+export async function createDashManifest(
+  outputs: EncodedOutput[],
+  workDir: string,
+  subtitles: SubtitleRendition[] = [],
+  audioRenditions: AudioRendition[] = []
+): Promise<boolean> {
+  if (outputs.some(output => !output.initSegment)) {
+    logger.warn(`⚠️ DASH needs fMP4 segments for every rendition - skipping manifest.mpd`);
+    return false;
+  }
+  if (audioRenditions.some(track => !track.playlist)) {
+    logger.warn(`⚠️ DASH needs every audio track as its own rendition, not muxed into the video - skipping manifest.mpd`);
+    return false;
+  }
+  
+  logger.info('📝 Creating DASH manifest (manifest.mpd)');
+  
+  let maxSegmentDuration = 0;
+  
+  // <Representation> over <dir>/<dir name>_<n>.m4s, read back from the rendition's media playlist
+  const buildRepresentation = async (dir: string, playlist: string, attributes: string[], children: string[] = []): Promise<string | null> => {
+    const { initSegment, segments } = await readMediaPlaylist(playlist);
+    const segmentPrefix = `${basename(dir)}_`;
+    
+    // Our segment names are <rendition>_<n>.m4s, which maps straight onto $Number$
+    if (!initSegment || !segments.every(segment => segment.uri.startsWith(segmentPrefix) && segment.uri.endsWith('.m4s'))) {
+      logger.warn(`⚠️ Unexpected segment names in ${dir} - skipping manifest.mpd`);
+      return null;
+    }
+    
+    // Run-length encode equal durations (milliseconds) into <S d r/>
+    const timeline: Array<{ d: number; r: number }> = [];
+    for (const segment of segments) {
+      const d = Math.round(segment.duration * 1000);
+      maxSegmentDuration = Math.max(maxSegmentDuration, segment.duration);
+      const last = timeline[timeline.length - 1];
+      if (last && last.d === d) {
+        last.r++;
+      } else {
+        timeline.push({ d, r: 0 });
+      }
+    }
+    
+    return [
+      `      <Representation ${attributes.join(' ')}>`,
+      ...children,
+      `        <SegmentTemplate timescale="1000" startNumber="0" initialization="${dir}/${initSegment}" media="${dir}/${segmentPrefix}$Number$.m4s">`,
+      `          <SegmentTimeline>`,
+      ...timeline.map(s => `            <S d="${s.d}"${s.r > 0 ? ` r="${s.r}"` : ''}/>`),
+      `          </SegmentTimeline>`,
+      `        </SegmentTemplate>`,
+      `      </Representation>`
+    ].join('\n');
+  };
+  
+  const ordered = [...outputs].sort((a, b) =>
+    getVideoCodecRank(a) - getVideoCodecRank(b) || (b.peakBitrate ?? 0) - (a.peakBitrate ?? 0)
+  );
+  const videoSets = new Map<string, string[]>();
+  for (const output of ordered) {
+    const representation = await buildRepresentation(output.profile, output.playlist, [
+      `id="${output.profile}"`,
+      `bandwidth="${output.peakBitrate || output.averageBitrate || 0}"`,
+      ...(output.codecs ? [`codecs="${output.codecs}"`] : []),
+      ...(output.resolution ? [`width="${output.resolution.width}"`, `height="${output.resolution.height}"`] : []),
+      ...(output.frameRate ? [`frameRate="${formatDashFrameRate(output.frameRate)}"`] : [])
+    ]);
+    if (!representation) return false;
+    
+    // HDR10 gets its own AdaptationSet - players must not switch between PQ and SDR
+    const codecFamily = `${output.videoCodec || 'h264'}${output.videoRange === 'PQ' ? '_pq' : ''}`;
+    const representations = videoSets.get(codecFamily) || [];
+    videoSets.set(codecFamily, representations);
+    representations.push(representation);
+  }
+  
+  // 🔊 One AdaptationSet per track (languages and commentary tracks are not bitrate switches)
+  const audioSets: string[][] = [];
+  for (const track of audioRenditions) {
+    const dir = dirname(track.playlist!);
+    const representation = await buildRepresentation(dir, join(workDir, track.playlist!), [
+      `id="audio_${basename(dir)}"`,
+      `bandwidth="${track.peakBitrate || 0}"`,
+      ...(track.codecs ? [`codecs="${track.codecs}"`] : []),
+      'audioSamplingRate="48000"'
+    ], [
+      `        <AudioChannelConfiguration schemeIdUri="urn:mpeg:dash:23003:3:audio_channel_configuration:2011" value="2"/>`
+    ]);
+    if (!representation) return false;
+    audioSets.push([
+      `      <Label>${escapeXml(track.name)}</Label>`,
+      `      <Role schemeIdUri="urn:mpeg:dash:role:2011" value="${track.default ? 'main' : 'alternate'}"/>`,
+      representation
+    ]);
+  }
+  
+  let nextId = 0;
+  const duration = Math.max(0, ...outputs.map(output => output.duration));
+  const mpd = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" profiles="urn:mpeg:dash:profile:isoff-live:2011" type="static" mediaPresentationDuration="PT${duration.toFixed(3)}S" minBufferTime="PT${Math.ceil(maxSegmentDuration || 2)}S">`,
+    `  <Period id="0" start="PT0S">`,
+    ...[...videoSets.entries()].flatMap(([codecFamily, representations]) => [
+      `    <AdaptationSet id="${nextId++}" contentType="video" mimeType="video/mp4" segmentAlignment="true" startWithSAP="1">`,
+      // CICP: BT.2020 primaries/matrix (9), PQ transfer (16)
+      ...(codecFamily.endsWith('_pq') ? [
+        `      <SupplementalProperty schemeIdUri="urn:mpeg:mpegB:cicp:ColourPrimaries" value="9"/>`,
+        `      <SupplementalProperty schemeIdUri="urn:mpeg:mpegB:cicp:TransferCharacteristics" value="16"/>`,
+        `      <SupplementalProperty schemeIdUri="urn:mpeg:mpegB:cicp:MatrixCoefficients" value="9"/>`
+      ] : []),
+      ...representations,
+      `    </AdaptationSet>`
+    ]),
+    ...audioSets.flatMap((children, i) => [
+      `    <AdaptationSet id="${nextId++}" contentType="audio" mimeType="audio/mp4" lang="${escapeXml(audioRenditions[i]!.language)}" segmentAlignment="true" startWithSAP="1">`,
+      ...children,
+      `    </AdaptationSet>`
+    ]),
+    // 💬 Sideloaded WebVTT files, one AdaptationSet per track
+    ...subtitles.flatMap((track, i) => [
+      `    <AdaptationSet id="${nextId++}" contentType="text" mimeType="text/vtt" lang="${escapeXml(track.language)}">`,
+      `      <Label>${escapeXml(track.name)}</Label>`,
+      `      <Role schemeIdUri="urn:mpeg:dash:role:2011" value="subtitle"/>`,
+      `      <Representation id="sub_${i}" bandwidth="256">`,
+      `        <BaseURL>${escapeXml(track.vtt)}</BaseURL>`,
+      `      </Representation>`,
+      `    </AdaptationSet>`
+    ]),
+    `  </Period>`,
+    `</MPD>`,
+    ''
+  ].join('\n');
+  
+  await fs.writeFile(join(workDir, 'manifest.mpd'), mpd);
+  logger.info(`✅ DASH manifest created: manifest.mpd (${videoSets.size} video, ${audioSets.length} audio, ${subtitles.length} text adaptation set(s))`);
+  return true;
+}
+
+// 30 -> "30", 29.97 -> "30000/1001"
+export function formatDashFrameRate(frameRate: number): string {
+  if (Number.isInteger(frameRate)) return String(frameRate);
+  const ntsc = Math.round(frameRate * 1.001);
+  if (Math.abs(ntsc / 1.001 - frameRate) < 0.01) return `${ntsc * 1000}/1001`;
+  return `${Math.round(frameRate * 1000)}/1000`;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
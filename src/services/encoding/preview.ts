@@ -0,0 +1,124 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { FileProbeResult, PreviewClip } from '../../types/index.js';
+import { logger } from '../Logger.js';
+import { cleanErrorForLogging, isJobCancelledError } from '../../common/errorUtils.js';
+import { getToneMapFilter, runFfmpeg } from './ffmpeg.js';
+
+// Preview clip: candidate windows scored by scene-change activity
+const PREVIEW_CANDIDATES = 6;
+const PREVIEW_WIDTH = 480;
+
+/**
+ * Candidate start times between 10% and 80% of the video, clamped so the clip fits
+ */
+export function getPreviewWindows(sourceDuration: number, clipDuration: number): number[] {
+  return Array.from({ length: PREVIEW_CANDIDATES }, (_, i) => {
+    const candidate = Math.round((sourceDuration * (0.1 + 0.7 * i / (PREVIEW_CANDIDATES - 1))) * 100) / 100;
+    return Math.min(candidate, sourceDuration - clipDuration);
+  });
+}
+
+/**
+ * 🎞️ Cut a short muted preview (MP4, plus animated WebP when libwebp exists) into preview/.
+ * Candidate windows are spread over the probed duration (skipping intros/outros) and scored
+ * by summed scene-change scores at low resolution; the busiest window wins.
+ * PQ/HLG sources get the ladder's tone map, for scoring and for both clips.
+ * Optional - failures are logged and the job continues without a preview.
+ */
+export async function generatePreviewClip(
+  sourceFile: string,
+  outputsDir: string,
+  probe: FileProbeResult | null,
+  isShortVideo: boolean,
+  clipSeconds: number,
+  toneMap: string | undefined,
+  jobId: string,
+  signal?: AbortSignal
+): Promise<PreviewClip | null> {
+  const sourceDuration = probe ? (isShortVideo ? Math.min(probe.duration, 60) : probe.duration) : 0;
+  if (!sourceDuration) {
+    logger.warn(`⚠️ No probed duration for job ${jobId} - skipping preview clip`);
+    return null;
+  }
+  
+  const clipDuration = Math.min(clipSeconds, sourceDuration);
+  const previewDir = join(outputsDir, 'preview');
+  const toneMapFilter = toneMap ? `${getToneMapFilter(toneMap)},` : '';
+  
+  try {
+    await fs.mkdir(previewDir, { recursive: true });
+    
+    // Windows between 10% and 80% of the video; very short sources just start at 0
+    let start = 0;
+    if (sourceDuration > clipDuration * 2) {
+      let bestActivity = -1;
+      for (const windowStart of getPreviewWindows(sourceDuration, clipDuration)) {
+        const stderr = await runFfmpeg(
+          ffmpeg(sourceFile)
+            .seekInput(windowStart)
+            .outputOptions('-t', String(clipDuration))
+            .videoFilters(`${toneMapFilter}fps=${Math.min(probe!.framerate || 30, 10)},scale=160:-2,select='gte(scene,0)',metadata=print:key=lavfi.scene_score`)
+            .noAudio()
+            .format('null')
+            .output('-'),
+          signal
+        );
+        const activity = stderr
+          .map(line => line.match(/lavfi\.scene_score=([\d.]+)/))
+          .reduce((sum, match) => sum + (match ? parseFloat(match[1]!) : 0), 0);
+        
+        if (activity > bestActivity) {
+          bestActivity = activity;
+          start = windowStart;
+        }
+      }
+    }
+    
+    await runFfmpeg(
+      ffmpeg(sourceFile)
+        .seekInput(start)
+        .outputOptions('-t', String(clipDuration))
+        .noAudio()
+        .videoCodec('libx264')
+        .videoFilters(`${toneMapFilter}scale='min(${PREVIEW_WIDTH},iw)':-2,fps=24`)
+        .outputOptions('-preset', 'veryfast', '-crf', '28', '-profile:v', 'main', '-pix_fmt', 'yuv420p', '-movflags', '+faststart')
+        .output(join(previewDir, 'preview.mp4')),
+      signal
+    );
+    
+    let webp: string | undefined;
+    try {
+      await runFfmpeg(
+        ffmpeg(sourceFile)
+          .seekInput(start)
+          .outputOptions('-t', String(clipDuration))
+          .noAudio()
+          .videoCodec('libwebp')
+          .videoFilters(`${toneMapFilter}scale='min(${PREVIEW_WIDTH / 2},iw)':-2,fps=12`)
+          .outputOptions('-loop', '0', '-quality', '70')
+          .output(join(previewDir, 'preview.webp')),
+        signal
+      );
+      webp = 'preview/preview.webp';
+    } catch (error) {
+      if (isJobCancelledError(error)) throw error;
+      logger.warn(`⚠️ WebP preview not generated (libwebp missing?) - MP4 only`);
+    }
+    
+    logger.info(`🎞️ Preview clip for job ${jobId}: ${clipDuration}s from ${start}s`);
+    
+    return {
+      mp4: 'preview/preview.mp4',
+      ...(webp && { webp }),
+      start,
+      duration: clipDuration
+    };
+  } catch (error) {
+    if (isJobCancelledError(error)) throw error;
+    logger.warn(`⚠️ Preview clip failed for job ${jobId} - continuing without it:`, cleanErrorForLogging(error));
+    await fs.rm(previewDir, { recursive: true, force: true });
+    return null;
+  }
+}
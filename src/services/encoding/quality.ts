@@ -0,0 +1,156 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { dirname, join } from 'path';
+import { EncodedOutput, EncodingStrategy, QualityScore } from '../../types/index.js';
+import { logger } from '../Logger.js';
+import { cleanErrorForLogging, isJobCancelledError } from '../../common/errorUtils.js';
+import { runFfmpeg } from './ffmpeg.js';
+import { readMediaPlaylist } from './hls.js';
+
+// Quality scoring: segments per rendition compared against the source (evenly spread, first and last included)
+const QUALITY_SAMPLE_SEGMENTS = 3;
+const PSNR_IDENTICAL = 100; // PSNR prints "inf" for identical frames
+
+/**
+ * The planned rendition a rung was encoded from: fallback size and the output frame rate
+ */
+export interface QualityReference {
+  name: string;
+  width: number;
+  height: number;
+  frameRate: string;
+}
+
+export interface QualityOptions {
+  floorVmaf: number;
+  floorSsim: number;
+  vmaf: boolean; // libvmaf filter available
+}
+
+/**
+ * 🎯 Score each rendition against the source on a few sampled segments: the matching source span
+ * goes through the strategy filters (rotation, tone mapping) and is scaled to the rendition's size
+ * and frame rate, then compared with ssim/psnr (and libvmaf when available). Scores land on the
+ * outputs; rungs under the configured floor are flagged. HDR10 renditions are skipped (no SDR
+ * reference), and a rung that can't be scored is left without a score - never fails the job.
+ */
+export async function measureQuality(
+  sourceFile: string,
+  outputs: EncodedOutput[],
+  profiles: QualityReference[],
+  strategy: EncodingStrategy | null,
+  options: QualityOptions,
+  jobId: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const flagged: string[] = [];
+  
+  for (const output of outputs) {
+    // Extra codec rungs (720p_hevc) share the H.264 rung's size and frame rate
+    const profile = profiles.find(planned => planned.name === output.profile)
+      ?? profiles.find(planned => output.profile.startsWith(`${planned.name}_`));
+    if (!profile || output.videoRange === 'PQ') continue;
+    
+    try {
+      const quality = await measureRenditionQuality(sourceFile, output, profile, strategy, options.vmaf, signal);
+      if (!quality) {
+        logger.warn(`⚠️ No quality scores for ${output.profile} - skipping`);
+        continue;
+      }
+      quality.belowFloor = quality.vmaf !== undefined ? quality.vmaf < options.floorVmaf : quality.ssim < options.floorSsim;
+      output.quality = quality;
+      if (quality.belowFloor) flagged.push(output.profile);
+      
+      logger.info(`🎯 ${output.profile}: ${quality.vmaf !== undefined ? `VMAF ${quality.vmaf.toFixed(1)}, ` : ''}SSIM ${quality.ssim.toFixed(4)}, PSNR ${quality.psnr.toFixed(2)}dB (${quality.sampledSegments} segments)${quality.belowFloor ? ' - below floor' : ''}`);
+    } catch (error) {
+      if (isJobCancelledError(error) || signal?.aborted) throw error;
+      logger.warn(`⚠️ Quality measurement failed for ${output.profile}:`, cleanErrorForLogging(error));
+    }
+  }
+  
+  if (flagged.length > 0) {
+    logger.warn(`⚠️ Renditions below the quality floor for job ${jobId}: ${flagged.join(', ')}`);
+  }
+}
+
+/**
+ * Compare sampled segments of one rendition with the source span they were cut from, scaled to the
+ * rendition's measured size (the planned size can differ by rounding or rotation), and average the
+ * per-segment scores. Null when no sample produced a score.
+ */
+async function measureRenditionQuality(
+  sourceFile: string,
+  output: EncodedOutput,
+  profile: QualityReference,
+  strategy: EncodingStrategy | null,
+  vmaf: boolean,
+  signal?: AbortSignal
+): Promise<QualityScore | null> {
+  const playlistDir = dirname(output.playlist);
+  const playlist = await readMediaPlaylist(output.playlist);
+  if (playlist.segments.length === 0) return null;
+  
+  // Segment start times in the source (renditions start at 0, short videos are trimmed at the end)
+  let time = 0;
+  const starts = playlist.segments.map(segment => (time += segment.duration) - segment.duration);
+  const count = Math.min(QUALITY_SAMPLE_SEGMENTS, playlist.segments.length);
+  const indexes = new Set(Array.from({ length: count }, (_, i) =>
+    count === 1 ? 0 : Math.round(i * (playlist.segments.length - 1) / (count - 1))
+  ));
+  
+  const size = output.resolution ?? { width: profile.width, height: profile.height };
+  const referenceFilters = [
+    ...(strategy?.videoFilters || []),
+    `scale=${size.width}:${size.height}`,
+    `fps=${profile.frameRate}`,
+    'format=yuv420p',
+    'setpts=PTS-STARTPTS'
+  ].join(',');
+  const metrics = ['ssim', 'psnr', ...(vmaf ? ['libvmaf'] : [])];
+  const filterGraph = [
+    `[0:v]format=yuv420p,setpts=PTS-STARTPTS,split=${metrics.length}${metrics.map((_, i) => `[d${i}]`).join('')}`,
+    `[1:v]${referenceFilters},split=${metrics.length}${metrics.map((_, i) => `[r${i}]`).join('')}`,
+    ...metrics.map((metric, i) => `[d${i}][r${i}]${metric}=shortest=1`)
+  ].join(';');
+  
+  const scores: Array<{ ssim: number; psnr: number; vmaf?: number }> = [];
+  for (const index of indexes) {
+    const segment = playlist.segments[index]!;
+    const distorted = playlist.initSegment
+      ? `concat:${join(playlistDir, playlist.initSegment)}|${join(playlistDir, segment.uri)}`
+      : join(playlistDir, segment.uri);
+    
+    const stderr = await runFfmpeg(
+      ffmpeg(distorted)
+        .input(sourceFile)
+        .inputOptions('-ss', starts[index]!.toFixed(3), '-t', segment.duration.toFixed(3))
+        .complexFilter(filterGraph)
+        .outputOptions('-an')
+        .format('null')
+        .output('-'),
+      signal
+    );
+    
+    const log = stderr.join('\n');
+    const ssim = log.match(/SSIM .*All:([\d.]+)/);
+    const psnr = log.match(/PSNR .*average:([\d.]+|inf)/);
+    const vmaf = log.match(/VMAF score[:=]\s*([\d.]+)/);
+    if (!ssim || !psnr) continue;
+    
+    scores.push({
+      ssim: parseFloat(ssim[1]!),
+      psnr: psnr[1] === 'inf' ? PSNR_IDENTICAL : parseFloat(psnr[1]!),
+      ...(vmaf && { vmaf: parseFloat(vmaf[1]!) })
+    });
+  }
+  if (scores.length === 0) return null;
+  
+  const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const vmafScores = scores.flatMap(score => score.vmaf !== undefined ? [score.vmaf] : []);
+  return {
+    ssim: Math.round(average(scores.map(score => score.ssim)) * 10000) / 10000,
+    psnr: Math.round(average(scores.map(score => score.psnr)) * 100) / 100,
+    ...(vmafScores.length > 0 && { vmaf: Math.round(average(vmafScores) * 100) / 100 }),
+    sampledSegments: scores.length,
+    belowFloor: false
+  };
+}
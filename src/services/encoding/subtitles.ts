@@ -0,0 +1,154 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import { ExternalSubtitle, FileProbeResult, SubtitleRendition } from '../../types/index.js';
+import { logger } from '../Logger.js';
+import { cleanErrorForLogging, isJobCancelledError } from '../../common/errorUtils.js';
+import { runFfmpeg } from './ffmpeg.js';
+import { probeSegment, readMediaPlaylist } from './hls.js';
+
+// Subtitle stream codecs FFmpeg can convert to WebVTT (bitmap subs like PGS/DVB are skipped)
+const TEXT_SUBTITLE_CODECS = ['subrip', 'ass', 'ssa', 'mov_text', 'webvtt', 'text'];
+
+// ffmpeg's MPEG-TS muxer starts video at 1.4s PTS (90 kHz clock) unless told otherwise
+const DEFAULT_MPEGTS_START = 126000;
+
+/**
+ * Fetches a URI to a local path (the processor's gateway/IPFS download with fallbacks)
+ */
+export type SourceDownloader = (uri: string, outputPath: string, signal?: AbortSignal) => Promise<unknown>;
+
+/**
+ * Media playlist for a WebVTT track: one segment covering the whole video
+ */
+export function buildSubtitlePlaylist(duration: number): string {
+  const targetDuration = Math.max(1, Math.ceil(duration));
+  return [
+    '#EXTM3U',
+    '#EXT-X-VERSION:3',
+    `#EXT-X-TARGETDURATION:${targetDuration}`,
+    '#EXT-X-PLAYLIST-TYPE:VOD',
+    `#EXTINF:${duration.toFixed(3)},`,
+    'subtitles.vtt',
+    '#EXT-X-ENDLIST',
+    ''
+  ].join('\n');
+}
+
+/**
+ * 90 kHz PTS of the first frame of a TS rendition: the first segment's start time, or ffmpeg's default
+ * when it can't be probed
+ */
+export async function getMpegtsStart(playlistPath: string): Promise<number> {
+  const { segments } = await readMediaPlaylist(playlistPath).catch(() => ({ segments: [] }));
+  const first = segments[0] ? await probeSegment(join(dirname(playlistPath), segments[0].uri)) : null;
+  return first?.startTime !== undefined ? Math.round(first.startTime * 90000) : DEFAULT_MPEGTS_START;
+}
+
+/**
+ * Add X-TIMESTAMP-MAP to a WebVTT header so players line cues up with TS segments, whose timestamps
+ * don't start at 0 (HLS assumes MPEGTS:0 when it is missing, which shifts every cue)
+ */
+export function addTimestampMap(vtt: string, mpegtsStart: number): string {
+  const lines = vtt.split('\n');
+  lines.splice(1, 0, `X-TIMESTAMP-MAP=MPEGTS:${mpegtsStart},LOCAL:00:00:00.000`);
+  return lines.join('\n');
+}
+
+/**
+ * 💬 Convert text subtitle streams listed by the probe and any external SRT/VTT files
+ * (fetched by CID) into WebVTT renditions under subs/, each with a single-segment media
+ * playlist for #EXT-X-MEDIA. A track that fails to convert is skipped, not fatal.
+ * tsPlaylist is a TS rendition to take the X-TIMESTAMP-MAP from (null for fMP4 segments, which start at 0).
+ */
+export async function extractSubtitles(
+  sourceFile: string,
+  outputsDir: string,
+  probe: FileProbeResult | null,
+  external: ExternalSubtitle[],
+  duration: number,
+  isShortVideo: boolean,
+  tsPlaylist: string | null,
+  download: SourceDownloader,
+  jobId: string,
+  signal?: AbortSignal
+): Promise<SubtitleRendition[]> {
+  const embedded = (probe?.extraStreams || [])
+    .filter(stream => stream.type === 'subtitle' && TEXT_SUBTITLE_CODECS.includes(stream.codec || ''));
+  const skipped = (probe?.extraStreams || []).filter(stream => stream.type === 'subtitle' && !embedded.includes(stream));
+  if (skipped.length > 0) {
+    logger.warn(`⚠️ Skipping ${skipped.length} bitmap/unsupported subtitle stream(s): ${skipped.map(s => s.codec || 'unknown').join(', ')}`);
+  }
+  if (embedded.length === 0 && external.length === 0) {
+    return [];
+  }
+  
+  const subsDir = join(outputsDir, 'subs');
+  const subtitles: SubtitleRendition[] = [];
+  const mpegtsStart = tsPlaylist ? await getMpegtsStart(tsPlaylist) : null;
+  const tracks = [
+    ...embedded.map(stream => ({
+      source: 'embedded' as const,
+      input: sourceFile,
+      map: `0:${stream.index}`,
+      language: stream.tags?.language || 'und',
+      name: stream.tags?.title || stream.tags?.language || `Track ${stream.index}`
+    })),
+    ...external.map(track => ({
+      source: 'external' as const,
+      input: '',
+      cid: track.cid,
+      map: '0:s:0',
+      language: track.language,
+      name: track.label || track.language
+    }))
+  ];
+  
+  for (let i = 0; i < tracks.length; i++) {
+    const track = tracks[i]!;
+    const id = `${track.language.replace(/[^a-zA-Z0-9-]/g, '') || 'und'}_${i}`;
+    const trackDir = join(subsDir, id);
+    
+    try {
+      await fs.mkdir(trackDir, { recursive: true });
+      
+      let input = track.input;
+      if ('cid' in track) {
+        input = join(trackDir, 'source.sub');
+        await download(`https://ipfs.3speak.tv/ipfs/${track.cid}`, input, signal);
+      }
+      
+      let command = ffmpeg(input)
+        .outputOptions('-map', track.map)
+        .outputOptions('-c:s', 'webvtt');
+      if (isShortVideo) {
+        command = command.outputOptions('-t', '60');
+      }
+      const vttPath = join(trackDir, 'subtitles.vtt');
+      await runFfmpeg(command.format('webvtt').output(vttPath), signal);
+      if (mpegtsStart !== null) {
+        await fs.writeFile(vttPath, addTimestampMap(await fs.readFile(vttPath, 'utf8'), mpegtsStart));
+      }
+      if (input !== sourceFile) {
+        await fs.rm(input, { force: true });
+      }
+      
+      await fs.writeFile(join(trackDir, 'index.m3u8'), buildSubtitlePlaylist(duration));
+      
+      subtitles.push({
+        language: track.language,
+        name: track.name,
+        playlist: `subs/${id}/index.m3u8`,
+        vtt: `subs/${id}/subtitles.vtt`,
+        source: track.source
+      });
+    } catch (error) {
+      if (isJobCancelledError(error) || signal?.aborted) throw error;
+      logger.warn(`⚠️ Subtitle track ${id} (${track.source}) failed - skipping it:`, cleanErrorForLogging(error));
+      await fs.rm(trackDir, { recursive: true, force: true });
+    }
+  }
+  
+  logger.info(`💬 ${subtitles.length} subtitle rendition(s) for job ${jobId}: ${subtitles.map(s => `${s.name} [${s.language}]`).join(', ')}`);
+  return subtitles;
+}
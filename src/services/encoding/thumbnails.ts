@@ -0,0 +1,171 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { EncodedOutput, ThumbnailSet } from '../../types/index.js';
+import { logger } from '../Logger.js';
+import { cleanErrorForLogging, isJobCancelledError } from '../../common/errorUtils.js';
+import { formatVttTime, getToneMapFilter, runFfmpeg } from './ffmpeg.js';
+
+// Thumbnails: sprite sheets of 10x10 thumbnails, at most ~300 thumbnails per video
+const SPRITE_COLUMNS = 10;
+const SPRITE_ROWS = 10;
+const SPRITE_THUMB_WIDTH = 160;
+const SPRITE_MAX_THUMBNAILS = 300;
+const POSTER_MIN_LUMA = 40; // signalstats YAVG (8-bit) below this counts as a black/fade frame
+
+/**
+ * 🖼️ Write thumbnails/ into the output directory: a poster (JPEG, plus WebP when libwebp
+ * exists) at a non-black timestamp, sprite sheets and a WebVTT track pointing into them.
+ * Duration/aspect come from the measured outputs so short-video trims and rotation are respected.
+ * PQ/HLG sources get the ladder's tone map so stills aren't washed out.
+ * Optional - failures are logged and the job continues without thumbnails.
+ */
+export async function generateThumbnails(
+  sourceFile: string,
+  outputsDir: string,
+  master: EncodedOutput,
+  toneMap: string | undefined,
+  jobId: string,
+  signal?: AbortSignal
+): Promise<ThumbnailSet | null> {
+  const duration = master.duration;
+  if (!duration || !master.resolution) {
+    logger.warn(`⚠️ No measured duration/resolution for job ${jobId} - skipping thumbnails`);
+    return null;
+  }
+  
+  const thumbnailsDir = join(outputsDir, 'thumbnails');
+  const toneMapFilter = toneMap ? `${getToneMapFilter(toneMap)},` : '';
+  
+  try {
+    await fs.mkdir(thumbnailsDir, { recursive: true });
+    
+    // Poster: first bright candidate frame, otherwise the brightest one
+    const posterTime = await pickPosterTime(sourceFile, duration, toneMapFilter, signal);
+    const posterFilter = `${toneMapFilter}scale='min(1280,iw)':-2`;
+    await runFfmpeg(
+      ffmpeg(sourceFile)
+        .seekInput(posterTime)
+        .frames(1)
+        .videoFilters(posterFilter)
+        .outputOptions('-q:v', '2')
+        .output(join(thumbnailsDir, 'poster.jpg')),
+      signal
+    );
+    
+    let posterWebp: string | undefined;
+    try {
+      await runFfmpeg(
+        ffmpeg(sourceFile)
+          .seekInput(posterTime)
+          .frames(1)
+          .videoFilters(posterFilter)
+          .videoCodec('libwebp')
+          .outputOptions('-quality', '80')
+          .output(join(thumbnailsDir, 'poster.webp')),
+        signal
+      );
+      posterWebp = 'thumbnails/poster.webp';
+    } catch (error) {
+      if (isJobCancelledError(error)) throw error;
+      logger.warn(`⚠️ WebP poster not generated (libwebp missing?) - JPEG only`);
+    }
+    
+    // Sprites: one thumbnail every `interval` seconds, tiled into sheets
+    const interval = Math.max(2, Math.ceil(duration / SPRITE_MAX_THUMBNAILS));
+    const width = SPRITE_THUMB_WIDTH;
+    const height = Math.round(width * master.resolution.height / master.resolution.width / 2) * 2;
+    await runFfmpeg(
+      ffmpeg(sourceFile)
+        .outputOptions('-t', String(duration))
+        .videoFilters(`fps=1/${interval},${toneMapFilter}scale=${width}:${height},tile=${SPRITE_COLUMNS}x${SPRITE_ROWS}`)
+        .outputOptions('-q:v', '5')
+        .output(join(thumbnailsDir, 'sprite_%d.jpg')),
+      signal
+    );
+    
+    const sprites = (await fs.readdir(thumbnailsDir))
+      .filter(file => /^sprite_\d+\.jpg$/.test(file))
+      .sort((a, b) => parseInt(a.slice(7)) - parseInt(b.slice(7)));
+    
+    const { vtt, cues } = buildThumbnailVtt(duration, interval, sprites, width, height);
+    await fs.writeFile(join(thumbnailsDir, 'thumbnails.vtt'), vtt);
+    
+    logger.info(`🖼️ Thumbnails for job ${jobId}: poster @${posterTime}s, ${sprites.length} sprite sheet(s), ${cues} cues every ${interval}s`);
+    
+    return {
+      poster: 'thumbnails/poster.jpg',
+      ...(posterWebp && { posterWebp }),
+      posterTime,
+      sprites: sprites.map(sprite => `thumbnails/${sprite}`),
+      vtt: 'thumbnails/thumbnails.vtt',
+      interval,
+      width,
+      height
+    };
+  } catch (error) {
+    if (isJobCancelledError(error)) throw error;
+    logger.warn(`⚠️ Thumbnail generation failed for job ${jobId} - continuing without thumbnails:`, cleanErrorForLogging(error));
+    await fs.rm(thumbnailsDir, { recursive: true, force: true });
+    return null;
+  }
+}
+
+/**
+ * WebVTT thumbnail track: cue i -> sheet floor(i / perSheet), cell (i % perSheet) left-to-right, top-to-bottom
+ */
+export function buildThumbnailVtt(
+  duration: number,
+  interval: number,
+  sprites: string[],
+  width: number,
+  height: number
+): { vtt: string; cues: number } {
+  const perSheet = SPRITE_COLUMNS * SPRITE_ROWS;
+  const cues = Math.min(Math.ceil(duration / interval), sprites.length * perSheet);
+  let vtt = 'WEBVTT\n';
+  for (let i = 0; i < cues; i++) {
+    const cell = i % perSheet;
+    const x = (cell % SPRITE_COLUMNS) * width;
+    const y = Math.floor(cell / SPRITE_COLUMNS) * height;
+    const start = i * interval;
+    const end = Math.min((i + 1) * interval, duration);
+    vtt += `\n${formatVttTime(start)} --> ${formatVttTime(end)}\n`;
+    vtt += `${sprites[Math.floor(i / perSheet)]}#xywh=${x},${y},${width},${height}\n`;
+  }
+  return { vtt, cues };
+}
+
+/**
+ * 🎯 Poster timestamp: walk a few candidates through the video and take the first whose
+ * average luma is above black/fade level (intros and fades usually start dark). Luma is measured
+ * after the tone map (toneMapFilter, empty for SDR) so HDR sources are judged as they will look.
+ */
+async function pickPosterTime(sourceFile: string, duration: number, toneMapFilter: string, signal?: AbortSignal): Promise<number> {
+  const candidates = [0.1, 0.25, 0.4, 0.6].map(fraction => Math.round(duration * fraction * 100) / 100);
+  let best = { time: candidates[0]!, luma: -1 };
+  
+  for (const time of candidates) {
+    const stderr = await runFfmpeg(
+      ffmpeg(sourceFile)
+        .seekInput(time)
+        .frames(1)
+        .videoFilters(`${toneMapFilter}signalstats,metadata=print:key=lavfi.signalstats.YAVG`)
+        .format('null')
+        .output('-'),
+      signal
+    );
+    const match = stderr.join('\n').match(/lavfi\.signalstats\.YAVG=([\d.]+)/);
+    const luma = match ? parseFloat(match[1]!) : 0;
+    
+    if (luma >= POSTER_MIN_LUMA) {
+      return time;
+    }
+    if (luma > best.luma) {
+      best = { time, luma };
+    }
+  }
+  
+  logger.info(`🌑 No bright poster candidate - using brightest frame @${best.time}s`);
+  return best.time;
+}
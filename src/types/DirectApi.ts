@@ -1,4 +1,4 @@
-import { EncodedOutput, JobStatus, VideoProfile } from './index.js';
+import { EncodedOutput, ExternalSubtitle, JobStatus, MediaType, VideoProfile } from './index.js';
 
 // Direct API Types for miniservice integration (3Speak Embeds)
 export interface DirectJobRequest {
@@ -8,7 +8,12 @@ export interface DirectJobRequest {
   input_cid: string;          // IPFS hash of raw uploaded file
   
   // 🎬 ENCODING SETTINGS
+  type?: MediaType;           // 'audio' = AAC HLS ladder + downloadable file (audio-only sources are detected anyway)
   short: boolean;             // true = 480p only + 60s trim, false = full encoding
+  segment_format?: 'ts' | 'fmp4'; // HLS segments: MPEG-TS (default from node config) or fMP4/CMAF
+  dash?: boolean;             // Also emit a DASH manifest.mpd over the same fMP4 segments
+  subtitles?: ExternalSubtitle[]; // External SRT/VTT files by CID, added as WebVTT subtitle renditions
+  audio_tracks?: Array<number | string>; // Audio tracks to keep: a:N index or language ("en"); first is the default. Omit = all
   
   // 🔔 CALLBACK NOTIFICATION
   webhook_url: string;        // URL to POST completion notification
@@ -55,14 +60,28 @@ export interface WebhookPayload {
   input_cid: string;
   
   // ✅ ENCODING RESULT
-  status: 'complete' | 'failed';
+  status: 'complete' | 'failed' | 'cancelled';
   manifest_cid?: string;      // IPFS hash of encoded HLS directory
-  video_url?: string;          // Full IPFS URI to manifest.m3u8
+  media_type?: MediaType;      // 'audio' when the job produced the audio-only outputs
+  video_url?: string;          // Full IPFS URI to manifest.m3u8 (audio ladder for audio jobs)
+  download_url?: string;       // Full IPFS URI to the downloadable M4A/MP3 (audio jobs only)
+  dash_url?: string;           // Full IPFS URI to manifest.mpd (DASH jobs only)
+  poster_url?: string;         // Full IPFS URI to the poster JPEG
+  poster_webp_url?: string;    // Full IPFS URI to the poster WebP (if generated)
+  thumbnails_vtt_url?: string; // Full IPFS URI to the WebVTT sprite thumbnail track
+  preview_url?: string;        // Full IPFS URI to the muted MP4 hover preview
+  preview_webp_url?: string;   // Full IPFS URI to the animated WebP hover preview
+  subtitles?: Array<{ language: string; name: string; url: string }>; // WebVTT subtitle renditions
+  audio_tracks?: Array<{ language: string; name: string; default: boolean }>; // Audio tracks in the AUDIO group
+  loudness_lufs?: number;      // Measured source loudness (EBU R128 integrated, LUFS)
+  loudness_normalized?: boolean; // Whether renditions were normalized to the node's target
   
   // 📊 PROCESSING INFO
   job_id: string;
   processing_time_seconds: number;
   qualities_encoded: string[];  // ["1080p", "720p", "480p"] or ["480p"]
+  duration_seconds?: number;    // Measured duration of the encoded stream
+  total_size_bytes?: number;    // Bytes of all renditions (segments + playlists)
   encoder_id: string;
   
   // 🚨 ERROR INFO (if failed)
@@ -28,6 +28,11 @@ export interface VideoJob {
   
   // 🎬 Direct API short video support
   short?: boolean;              // Enable short video mode (480p only, 60s max)
+  segment_format?: SegmentFormat; // Override the configured HLS segment format for this job
+  dash?: boolean;               // Also write a DASH manifest.mpd (forces fMP4 segments)
+  subtitles?: ExternalSubtitle[]; // External SRT/VTT files to add as subtitle renditions
+  audio_tracks?: Array<number | string>; // Source audio tracks to keep (a:N index or language), first = default
+  media_type?: MediaType;       // 'audio' forces the audio-only pipeline (also auto-detected by the probe)
   
   // 🔔 Webhook callback support (Direct API only)
   webhook_url?: string;         // URL to POST completion notification
@@ -43,6 +48,12 @@ export interface VideoProfile {
   bitrate?: string;
 }
 
+// HLS segment container: MPEG-TS or fragmented MP4 (CMAF)
+export type SegmentFormat = 'ts' | 'fmp4';
+
+// What a job produces: video ladder, or AAC audio ladder + downloadable file (podcasts, music)
+export type MediaType = 'video' | 'audio';
+
 export interface EncodedOutput {
   profile: string;
   path: string;
@@ -52,6 +63,93 @@ export interface EncodedOutput {
   playlist: string;
   ipfsHash?: string;  // IPFS hash of the uploaded directory
   uri?: string;       // IPFS URI pointing to the playlist
+  dashUri?: string;   // IPFS URI of manifest.mpd (master entry, when DASH was requested)
+  segmentCount?: number;   // Media segments listed in the playlist
+  averageBitrate?: number; // bits/s over the whole rendition
+  peakBitrate?: number;    // bits/s of the heaviest segment
+  resolution?: { width: number; height: number }; // Coded resolution of the video stream
+  videoCodec?: 'h264' | 'hevc' | 'av1'; // Unset = H.264 baseline ladder
+  videoRange?: 'SDR' | 'PQ'; // PQ = HDR10 rendition (unset = SDR)
+  thumbnails?: ThumbnailSet; // Poster/sprites/VTT (master entry)
+  preview?: PreviewClip;     // Muted hover-preview clip (master entry)
+  subtitles?: SubtitleRendition[]; // WebVTT subtitle renditions (master entry)
+  audioRenditions?: AudioRendition[]; // Audio tracks in the AUDIO group (master entry, multi-track sources)
+  loudness?: LoudnessInfo;   // EBU R128 measurement of the default audio track (master entry)
+  mediaType?: MediaType;     // 'audio' for audio-only jobs (master entry)
+  segmentsAligned?: boolean; // Segment boundaries match across renditions (master entry, multi-rendition jobs)
+  download?: string;         // Downloadable file relative to the output, e.g. "audio.m4a" (audio-only master entry)
+  quality?: QualityScore;  // Perceptual quality vs the scaled source (when QUALITY_METRICS is on)
+  initSegment?: string;    // fMP4 init segment (EXT-X-MAP), relative to the playlist
+  codecs?: string;         // RFC 6381 CODECS value probed from the output, e.g. "avc1.640028,mp4a.40.2"
+  frameRate?: number;      // Probed output frame rate
+}
+
+// Quality of a rendition against the source scaled to the same size, averaged over sampled segments
+export interface QualityScore {
+  ssim: number;            // 0-1 (All)
+  psnr: number;            // dB (average)
+  vmaf?: number;           // 0-100, only when the FFmpeg build has libvmaf
+  sampledSegments: number;
+  belowFloor: boolean;     // Under the configured VMAF floor (SSIM floor without libvmaf)
+}
+
+// Preview images written to thumbnails/ in the output directory (paths relative to it)
+export interface ThumbnailSet {
+  poster: string;          // "thumbnails/poster.jpg"
+  posterWebp?: string;     // Only when the FFmpeg build has libwebp
+  posterTime: number;      // Seconds into the video the poster was taken from
+  sprites: string[];       // Sprite sheets, tiled left-to-right, top-to-bottom
+  vtt: string;             // WebVTT track mapping time ranges to sprite regions (#xywh)
+  interval: number;        // Seconds between sprite thumbnails
+  width: number;           // Single sprite thumbnail size
+  height: number;
+}
+
+// Short muted hover-preview cut from the most active part of the source
+export interface PreviewClip {
+  mp4: string;             // "preview/preview.mp4"
+  webp?: string;           // Animated WebP, only when the FFmpeg build has libwebp
+  start: number;           // Seconds into the source
+  duration: number;
+}
+
+// External subtitle file attached to a job (Direct API)
+export interface ExternalSubtitle {
+  cid: string;             // IPFS CID of an SRT or WebVTT file
+  language: string;        // e.g. "en", "es"
+  label?: string;          // Name shown in the player menu (defaults to the language)
+}
+
+// WebVTT subtitle rendition in the output (paths relative to the output directory)
+export interface SubtitleRendition {
+  language: string;        // Language tag, "und" when the source stream has none
+  name: string;            // Name shown in the player menu
+  playlist: string;        // "subs/en_0/index.m3u8"
+  vtt: string;             // "subs/en_0/subtitles.vtt"
+  source: 'embedded' | 'external';
+}
+
+// Audio track in the master playlist's AUDIO group
+export interface AudioRendition {
+  sourceTrack: number;     // Source audio stream position (0:a:N)
+  language: string;        // Language tag from the probe, "und" when missing
+  name: string;            // Name shown in the player menu
+  default: boolean;        // Muxed into the video renditions unless audio is demuxed (DASH)
+  playlist?: string;       // Audio-only playlist, e.g. "audio/es_1/index.m3u8" - every track but a muxed default
+  peakBitrate?: number;    // Measured, tracks with a playlist only
+  codecs?: string;         // RFC 6381 CODECS of the audio-only rendition, e.g. "mp4a.40.2"
+  loudness?: number;       // Measured source loudness (LUFS) when loudnorm is enabled
+}
+
+// EBU R128 loudnorm first-pass measurement (source audio, before normalization)
+export interface LoudnessInfo {
+  integrated: number;      // Integrated loudness (LUFS)
+  truePeak: number;        // True peak (dBTP)
+  range: number;           // Loudness range (LU)
+  threshold: number;       // Gating threshold (LUFS)
+  targetOffset: number;    // Offset the second pass applies (LU)
+  target: number;          // Target integrated loudness (LUFS)
+  normalized: boolean;     // false when the audio was copied (passthrough) and left untouched
 }
 
 export enum JobStatus {
@@ -125,6 +223,16 @@ export interface SystemCapabilities {
   };
 }
 
+// Source download cache counters (dashboard)
+export interface SourceCacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  entries: number;
+  bytes: number;                 // On disk
+  quotaBytes: number;
+}
+
 // File probe types for intelligent encoding
 export interface FileProbeResult {
   container: string;              // 'mov', 'mp4', 'avi', 'mkv'
@@ -135,21 +243,38 @@ export interface FileProbeResult {
   colorSpace?: string;           // 'bt709', 'bt2020', 'smpte170m'
   colorTransfer?: string;        // 'bt709', 'smpte2084' (HDR), 'arib-std-b67' (HLG)
   hdrMetadata: boolean;          // Dolby Vision, HDR10, HDR10+
+  hdr10?: Hdr10Metadata;         // Static HDR10 metadata from the stream side data (when present)
   rotationDegrees: number;       // 0, 90, 180, 270 - iPhone/mobile rotation
   resolution: {
     width: number;
     height: number;
   };
-  framerate: number;
+  framerate: number;             // Constant rate, or the snapped average for VFR sources
+  variableFramerate: boolean;    // Phone-style VFR (average rate far from the base rate)
   duration: number;
   bitrate?: number;
   videoStreamCount: number;
   audioStreamCount: number;
+  audioOnly: boolean;            // No video stream (cover art doesn't count) - podcasts, music
+  audioTracks: AudioTrackInfo[]; // Audio streams in source order (0:a:N)
   extraStreams: StreamInfo[];    // Non-video/audio streams (metadata, subtitles, etc.)
   issues: ProbeIssue[];          // Detected compatibility issues
   rawMetadata?: any;             // Full ffprobe output for debugging
 }
 
+export interface Hdr10Metadata {
+  masterDisplay?: string;        // x265 master-display, e.g. "G(13250,34500)B(7500,3000)R(34000,16000)WP(15635,16450)L(10000000,50)"
+  maxCll?: string;               // x265 max-cll "MaxCLL,MaxFALL", e.g. "1000,400"
+}
+
+export interface AudioTrackInfo {
+  index: number;                 // Absolute stream index in the container
+  codec?: string;
+  channels?: number;
+  language?: string;             // ISO 639 tag from stream metadata
+  title?: string;
+}
+
 export interface StreamInfo {
   index: number;
   type: string;                  // 'data', 'subtitle', 'attachment'
@@ -170,9 +295,23 @@ export interface EncodingStrategy {
   videoFilters: string[];        // Pixel format conversion, scaling
   codecPriority: string[];       // Preferred codecs for this input type
   extraOptions: string[];        // Additional ffmpeg flags
+  audioStream?: number;          // Source audio stream (0:a:N) muxed into the video renditions (default 0)
+  audioFilters?: string[];       // Audio filters for every rendition (e.g. two-pass loudnorm)
+  demuxAudio?: boolean;          // Video renditions without audio - every kept track is its own audio rendition (DASH)
+  toneMap?: string;              // HDR transfer (smpte2084/arib-std-b67) tone mapped to BT.709 - CPU filters, software encoders only
+  perTitle?: PerTitleDecision;   // Content-aware bitrate/CRF caps (PER_TITLE_ENCODING)
   reason: string;                // Why this strategy was chosen (for logging)
 }
 
+// Per-title complexity analysis: a fast CRF probe encode of sampled scenes sizes the ladder for this video
+export interface PerTitleDecision {
+  probeBitrate: number;          // kbps the CRF probe needed, normalized to 720p30
+  complexity: number;            // probeBitrate / reference (1 = content the stock ladder is sized for)
+  bitrateFactor: number;         // Applied to every rung's bitrate/maxrate/bufsize (complexity, clamped)
+  crf: number;                   // libx264 CRF under those caps
+  sampledSeconds: number;
+}
+
 // Re-export DirectApi types
 export * from './DirectApi.js';
 
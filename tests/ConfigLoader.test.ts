@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ENCODING_RUNGS, getEncodingLadder, loadConfig } from '../src/config/ConfigLoader.js';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+async function loadLadder(env: Record<string, string>) {
+  for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value);
+  const config = await loadConfig();
+  return { config, ladder: getEncodingLadder(config), short: getEncodingLadder(config, true) };
+}
+
+describe('encoding ladder configuration', () => {
+  it('keeps the 1080p/720p/480p ladder and a 480p short ladder by default', async () => {
+    const { ladder, short } = await loadLadder({ ENCODING_LADDER: '', ENCODING_LADDER_JSON: '', SHORT_ENCODING_LADDER: '' });
+
+    expect(ladder.map(rung => rung.name)).toEqual(['1080p', '720p', '480p']);
+    expect(short.map(rung => rung.name)).toEqual(['480p']);
+    expect(ladder[0]).toEqual(ENCODING_RUNGS['1080p']);
+  });
+
+  it('selects built-in rungs by name and orders them highest first', async () => {
+    const { ladder, short } = await loadLadder({ ENCODING_LADDER: '360p, 2160p,720p', SHORT_ENCODING_LADDER: '240p,480p' });
+
+    expect(ladder.map(rung => rung.name)).toEqual(['2160p', '720p', '360p']);
+    expect(short.map(rung => rung.name)).toEqual(['480p', '240p']);
+  });
+
+  it('takes custom rungs from ENCODING_LADDER_JSON over the name list', async () => {
+    const custom = { ...ENCODING_RUNGS['720p']!, name: '720p_low', bitrate: '1800k', max_fps: 30 };
+    const { ladder } = await loadLadder({ ENCODING_LADDER: '1080p', ENCODING_LADDER_JSON: JSON.stringify([custom]) });
+
+    expect(ladder).toEqual([custom]);
+  });
+
+  it('rejects unknown rung names and malformed JSON rungs', async () => {
+    await expect(loadLadder({ ENCODING_LADDER: '1080p,999p' })).rejects.toThrow(/Unknown encoding rung "999p"/);
+    await expect(loadLadder({ ENCODING_LADDER_JSON: '[{' })).rejects.toThrow(/ENCODING_LADDER_JSON is not valid JSON/);
+    await expect(loadLadder({ ENCODING_LADDER_JSON: '[{"name":"720p","height":-1}]' })).rejects.toThrow(/Invalid configuration: encoder\.ladder\.0/);
+    await expect(loadLadder({ ENCODING_LADDER_JSON: '[]' })).rejects.toThrow(/encoder\.ladder/);
+  });
+});
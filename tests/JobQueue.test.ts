@@ -0,0 +1,286 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { JobStatus, VideoJob } from '../src/types/index.js';
+import { DirectJobRequest } from '../src/types/DirectApi.js';
+import type { JobQueueStore, StoredQueueJob } from '../src/services/JobQueueStore.js';
+import { isJobCancelledError } from '../src/common/errorUtils.js';
+
+vi.mock('../src/services/Logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+}));
+
+const { JobQueue, JobPriority } = await import('../src/services/JobQueue.js');
+
+/**
+ * JobQueueStore without SQLite: rows in a Map, loaded in the same order as the real query
+ */
+class MemoryStore {
+  rows = new Map<string, StoredQueueJob>();
+  failInitialize = false;
+
+  async initialize(): Promise<void> {
+    if (this.failInitialize) throw new Error('disk full');
+  }
+
+  async saveJob(entry: StoredQueueJob): Promise<void> {
+    this.rows.set(entry.id, { ...entry });
+  }
+
+  async loadJobs(): Promise<StoredQueueJob[]> {
+    return [...this.rows.values()].sort((a, b) =>
+      Number(a.pending_seq === null) - Number(b.pending_seq === null) || (a.pending_seq ?? 0) - (b.pending_seq ?? 0)
+    );
+  }
+
+  async deleteJobs(jobIds: string[]): Promise<void> {
+    for (const jobId of jobIds) this.rows.delete(jobId);
+  }
+
+  async close(): Promise<void> {}
+
+  asStore(): JobQueueStore {
+    return this as unknown as JobQueueStore;
+  }
+}
+
+function gatewayJob(id: string, owner = 'alice'): VideoJob {
+  return {
+    id,
+    type: 'gateway',
+    status: JobStatus.QUEUED,
+    created_at: new Date().toISOString(),
+    input: { uri: `ipfs://${id}`, size: 1000 },
+    metadata: { video_owner: owner, video_permlink: id },
+    storageMetadata: { app: '3speak', key: id, type: 'video' },
+    profiles: [],
+    output: []
+  };
+}
+
+function directRequest(owner: string, short = false): DirectJobRequest {
+  return { owner, permlink: `${owner}-video`, input_cid: 'QmSource', short, webhook_url: 'https://example.com/hook', api_key: 'key' };
+}
+
+async function restart(store: MemoryStore): Promise<InstanceType<typeof JobQueue>> {
+  const queue = new JobQueue(1, 3, 60000, store.asStore());
+  await queue.initialize();
+  return queue;
+}
+
+describe('JobQueue persistence', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('restores pending jobs in order and re-queues interrupted jobs first', async () => {
+    const store = new MemoryStore();
+    const before = await restart(store);
+    before.addGatewayJob(gatewayJob('a'));
+    before.addGatewayJob(gatewayJob('b'));
+    before.addGatewayJob(gatewayJob('c'));
+    expect(before.getNextJob()?.id).toBe('a');
+    await before.close();
+
+    const after = await restart(store);
+    expect(after.getInterruptedJobIds()).toEqual(['a']);
+    expect(after.getJob('a')?.status).toBe(JobStatus.QUEUED);
+    expect(after.getQueueSnapshot().map(entry => entry.jobId)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps finished jobs for status lookups without queueing them', async () => {
+    const store = new MemoryStore();
+    const before = await restart(store);
+    before.addGatewayJob(gatewayJob('done'));
+    before.getNextJob();
+    before.completeJob('done', [{ profile: '720p' }]);
+    await before.close();
+
+    const after = await restart(store);
+    expect(after.getJob('done')?.status).toBe(JobStatus.COMPLETE);
+    expect(after.getPendingCount()).toBe(0);
+  });
+
+  it('waits out the retry delay of failed jobs after a restart', async () => {
+    const store = new MemoryStore();
+    const before = await restart(store);
+    before.addGatewayJob(gatewayJob('flaky'));
+    before.getNextJob();
+    before.failJob('flaky', 'gateway timeout');
+    expect(before.isRetryScheduled('flaky')).toBe(true);
+    await before.close();
+
+    const after = await restart(store);
+    expect(after.getPendingCount()).toBe(0);
+    expect(after.getRetryInfo('flaky')?.attempts).toBe(1);
+    expect(after.processRetries()).toEqual([]);
+  });
+
+  it('drops corrupt rows and keeps jobs whose retry info is corrupt', async () => {
+    const store = new MemoryStore();
+    const before = await restart(store);
+    before.addGatewayJob(gatewayJob('good'));
+    before.addGatewayJob(gatewayJob('bad-retry'));
+    await before.close();
+
+    store.rows.set('broken', { id: 'broken', type: 'gateway', status: 'queued', job: '{"id":', pending_seq: 5, priority: null, enqueued_at: null, retry_info: null, cached_result: null });
+    store.rows.get('bad-retry')!.retry_info = 'not json';
+
+    const after = await restart(store);
+    await after.close();
+    expect(after.hasJob('broken')).toBe(false);
+    expect(store.rows.has('broken')).toBe(false);
+    expect(after.getRetryInfo('bad-retry')).toBeNull();
+    expect(after.getQueueSnapshot().map(entry => entry.jobId)).toEqual(['good', 'bad-retry']);
+  });
+
+  it('keeps the waiting time of restored jobs for aging', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryStore();
+    const before = new JobQueue(1, 3, 60000, store.asStore(), 60000);
+    await before.initialize();
+    before.addGatewayJob(gatewayJob('old'));
+    await before.close();
+
+    vi.advanceTimersByTime(2 * 60000 + 1);
+    const after = new JobQueue(1, 3, 60000, store.asStore(), 60000);
+    await after.initialize();
+    const direct = await after.addDirectJob(directRequest('carol'));
+
+    // Aged twice during and across the restart, the gateway job already sits in the DIRECT lane
+    expect(after.getNextJob()?.id).toBe('old');
+    expect(after.getQueueSnapshot().map(entry => entry.jobId)).toEqual([direct.id]);
+  });
+
+  it('falls back to an in-memory queue when the store cannot be opened', async () => {
+    const store = new MemoryStore();
+    store.failInitialize = true;
+    const queue = await restart(store);
+
+    queue.addGatewayJob(gatewayJob('a'));
+    await queue.close();
+    expect(queue.getPendingCount()).toBe(1);
+    expect(store.rows.size).toBe(0);
+  });
+});
+
+describe('JobQueue scheduling', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves short direct, direct, rescued and gateway lanes in that order', async () => {
+    const queue = new JobQueue(10);
+    queue.addGatewayJob(gatewayJob('gateway'));
+    queue.addGatewayJob(gatewayJob('rescued'), JobPriority.RESCUED);
+    const direct = await queue.addDirectJob(directRequest('carol'));
+    const short = await queue.addDirectJob(directRequest('dave', true));
+
+    const order = [queue.getNextJob(), queue.getNextJob(), queue.getNextJob(), queue.getNextJob()].map(job => job?.id);
+    expect(order).toEqual([short.id, direct.id, 'rescued', 'gateway']);
+  });
+
+  it('rotates between owners inside a lane', () => {
+    const queue = new JobQueue(10);
+    queue.addGatewayJob(gatewayJob('a1', 'alice'));
+    queue.addGatewayJob(gatewayJob('a2', 'alice'));
+    queue.addGatewayJob(gatewayJob('a3', 'alice'));
+    queue.addGatewayJob(gatewayJob('b1', 'bob'));
+    queue.addGatewayJob(gatewayJob('c1', 'carol'));
+
+    expect(queue.getQueueSnapshot().map(entry => entry.jobId)).toEqual(['a1', 'b1', 'c1', 'a2', 'a3']);
+    expect(queue.getQueuePosition('c1')).toBe(3);
+
+    const order = Array.from({ length: 5 }, () => queue.getNextJob()?.id);
+    expect(order).toEqual(['a1', 'b1', 'c1', 'a2', 'a3']);
+  });
+
+  it('prefers owners with fewer running jobs', () => {
+    const queue = new JobQueue(10);
+    queue.addGatewayJob(gatewayJob('a1', 'alice'));
+    queue.addGatewayJob(gatewayJob('a2', 'alice'));
+    expect(queue.getNextJob()?.id).toBe('a1');
+
+    queue.addGatewayJob(gatewayJob('b1', 'bob'));
+    expect(queue.getNextJob()?.id).toBe('b1');
+  });
+
+  it('promotes waiting jobs one lane per aging interval', async () => {
+    vi.useFakeTimers();
+    const queue = new JobQueue(10, 5, 180000, undefined, 60000);
+    queue.addGatewayJob(gatewayJob('old'));
+    vi.advanceTimersByTime(2 * 60000 + 1);
+    const direct = await queue.addDirectJob(directRequest('carol'));
+
+    // GATEWAY (3) aged twice sits in the DIRECT lane (1) and was there first
+    expect(queue.getNextJob()?.id).toBe('old');
+    expect(queue.getNextJob()?.id).toBe(direct.id);
+  });
+
+  it('reorders and persists a lane change', async () => {
+    const store = new MemoryStore();
+    const queue = await restart(store);
+    queue.addGatewayJob(gatewayJob('first'));
+    queue.addGatewayJob(gatewayJob('second', 'bob'));
+    expect(queue.getQueueSnapshot().map(entry => entry.jobId)).toEqual(['first', 'second']);
+
+    queue.setPriority('second', JobPriority.RESCUED);
+    expect(queue.getQueueSnapshot().map(entry => entry.jobId)).toEqual(['second', 'first']);
+    await queue.close();
+
+    const restored = await restart(store);
+    expect(restored.getPriority('second')).toBe(JobPriority.RESCUED);
+    expect(restored.getNextJob()?.id).toBe('second');
+  });
+
+  it('never starts more than maxConcurrent jobs', () => {
+    const queue = new JobQueue(1);
+    queue.addGatewayJob(gatewayJob('a'));
+    queue.addGatewayJob(gatewayJob('b'));
+    expect(queue.getNextJob()?.id).toBe('a');
+    expect(queue.getNextJob()).toBeNull();
+
+    queue.completeJob('a');
+    expect(queue.getNextJob()?.id).toBe('b');
+  });
+});
+
+describe('JobQueue cancellation', () => {
+  it('drops waiting jobs and aborts running ones', () => {
+    const queue = new JobQueue(1);
+    queue.addGatewayJob(gatewayJob('running'));
+    queue.addGatewayJob(gatewayJob('waiting'));
+    queue.getNextJob();
+    const signal = queue.getAbortSignal('running')!;
+
+    expect(queue.cancelJob('waiting')).toBe('removed');
+    expect(queue.getPendingCount()).toBe(0);
+
+    expect(queue.cancelJob('running', 'owner deleted the video')).toBe('aborted');
+    expect(signal.aborted).toBe(true);
+    expect(isJobCancelledError(signal.reason)).toBe(true);
+    expect(String(signal.reason.message)).toContain('owner deleted the video');
+  });
+
+  it('releases a cancelled job without scheduling a retry', () => {
+    const queue = new JobQueue(1);
+    queue.addGatewayJob(gatewayJob('running'));
+    queue.getNextJob();
+    queue.cancelJob('running');
+
+    queue.failJob('running', 'ffmpeg was killed');
+    expect(queue.getJob('running')?.status).toBe(JobStatus.CANCELLED);
+    expect(queue.getActiveCount()).toBe(0);
+    expect(queue.isRetryScheduled('running')).toBe(false);
+    expect(queue.processRetries()).toEqual([]);
+  });
+
+  it('reports unknown and finished jobs', () => {
+    const queue = new JobQueue(1);
+    queue.addGatewayJob(gatewayJob('done'));
+    queue.getNextJob();
+    queue.completeJob('done');
+
+    expect(queue.cancelJob('missing')).toBe('not_found');
+    expect(queue.cancelJob('done')).toBe('already_finished');
+    expect(queue.getJob('done')?.status).toBe(JobStatus.COMPLETE);
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+vi.mock('../src/services/Logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+}));
+
+const { SourceCache, getSourceCid } = await import('../src/services/SourceCache.js');
+
+// Valid CIDv0s (46 base58 characters)
+const CID_A = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG';
+const CID_B = 'QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o';
+const CID_C = 'QmPZ9gcCEpqKTo6aq61g2nXGUhM4iCL3ewB6LDXZCtioEB';
+
+const MB = 1024 * 1024;
+
+let tempDir: string;
+let contentCids: Map<string, string>; // What the daemon would hash each downloaded file to
+const hashSource = vi.fn(async (filePath: string) => contentCids.get(filePath) ?? 'QmUnknownContent');
+
+beforeEach(async () => {
+  tempDir = await fs.mkdtemp(join(tmpdir(), 'source-cache-test-'));
+  contentCids = new Map();
+  hashSource.mockClear();
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+async function download(name: string, bytes: number, cid?: string): Promise<string> {
+  const path = join(tempDir, name);
+  await fs.writeFile(path, Buffer.alloc(bytes, name));
+  if (cid) contentCids.set(path, cid);
+  return path;
+}
+
+async function createCache(quotaMb: number): Promise<InstanceType<typeof SourceCache>> {
+  const cache = new SourceCache(tempDir, quotaMb / 1024, hashSource);
+  await cache.initialize();
+  return cache;
+}
+
+describe('getSourceCid', () => {
+  it('reads the CID from gateway URLs and ipfs:// URIs', () => {
+    expect(getSourceCid(`https://ipfs.3speak.tv/ipfs/${CID_A}`)).toBe(CID_A);
+    expect(getSourceCid(`ipfs://${CID_A}`)).toBe(CID_A);
+    expect(getSourceCid('https://example.com/video.mp4')).toBeNull();
+  });
+});
+
+describe('SourceCache', () => {
+  it('links a cached source into the next job and counts hits and misses', async () => {
+    const cache = await createCache(10);
+    const target = join(tempDir, 'job-2.mp4');
+
+    await expect(cache.get(CID_A, target)).resolves.toBe(false);
+    await cache.put(CID_A, await download('job-1.mp4', MB, CID_A), MB);
+    await expect(cache.get(CID_A, target)).resolves.toBe(true);
+
+    expect((await fs.stat(target)).size).toBe(MB);
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, entries: 1, bytes: MB });
+  });
+
+  it('refuses truncated downloads, oversized sources and non-CID keys', async () => {
+    const cache = await createCache(2);
+
+    await cache.put(CID_A, await download('short.mp4', MB), 2 * MB);
+    await cache.put(CID_B, await download('huge.mp4', 3 * MB), 3 * MB);
+    await cache.put('video.mp4', await download('http.mp4', MB), MB);
+
+    expect(cache.getStats().entries).toBe(0);
+    expect(hashSource).not.toHaveBeenCalled();
+  });
+
+  it('refuses downloads whose content does not hash to their CID', async () => {
+    const cache = await createCache(10);
+
+    await cache.put(CID_A, await download('wrong.mp4', MB, CID_B), MB);
+    hashSource.mockRejectedValueOnce(new Error('connect ECONNREFUSED 127.0.0.1:5001'));
+    await expect(cache.put(CID_C, await download('offline.mp4', MB, CID_C), MB)).rejects.toThrow(/ECONNREFUSED/);
+
+    expect(cache.getStats().entries).toBe(0);
+    expect(hashSource).toHaveBeenCalledWith(join(tempDir, 'wrong.mp4'), 0);
+  });
+
+  it('evicts least recently used sources to stay under the quota', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = await createCache(2);
+    await cache.put(CID_A, await download('a.mp4', MB, CID_A), MB);
+    vi.advanceTimersByTime(1000);
+    await cache.put(CID_B, await download('b.mp4', MB, CID_B), MB);
+    vi.advanceTimersByTime(1000);
+    await cache.get(CID_A, join(tempDir, 'job.mp4'));
+    vi.advanceTimersByTime(1000);
+
+    await cache.put(CID_C, await download('c.mp4', MB, CID_C), MB);
+
+    await expect(cache.get(CID_B, join(tempDir, 'job.mp4'))).resolves.toBe(false);
+    expect(cache.getStats()).toMatchObject({ entries: 2, bytes: 2 * MB, evictions: 1 });
+  });
+
+  it('drops entries whose file changed on disk', async () => {
+    const cache = await createCache(10);
+    await cache.put(CID_A, await download('a.mp4', MB, CID_A), MB);
+    await fs.appendFile(join(tempDir, 'source-cache', CID_A), 'tampered');
+
+    await expect(cache.get(CID_A, join(tempDir, 'job.mp4'))).resolves.toBe(false);
+    await expect(fs.access(join(tempDir, 'source-cache', CID_A))).rejects.toThrow();
+  });
+
+  it('restores verified entries after a restart and removes files the index does not know', async () => {
+    const before = await createCache(10);
+    await before.put(CID_A, await download('a.mp4', MB, CID_A), MB);
+    await fs.writeFile(join(tempDir, 'source-cache', CID_B), 'left over from a crash');
+
+    const after = await createCache(10);
+
+    expect(after.getStats()).toMatchObject({ entries: 1, bytes: MB });
+    await expect(fs.readdir(join(tempDir, 'source-cache')).then(files => files.sort())).resolves.toEqual([CID_A, 'index.json'].sort());
+  });
+
+  it('stays off with a zero quota', async () => {
+    const cache = await createCache(0);
+    expect(cache.enabled).toBe(false);
+    await expect(fs.access(join(tempDir, 'source-cache'))).rejects.toThrow();
+  });
+});
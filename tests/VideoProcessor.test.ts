@@ -0,0 +1,505 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ENCODING_RUNGS, EncoderConfig } from '../src/config/ConfigLoader.js';
+import { CodecCapability, EncodedOutput, EncodingStrategy, FileProbeResult } from '../src/types/index.js';
+import type { IPFSService } from '../src/services/IPFSService.js';
+import { createJobCancelledError } from '../src/common/errorUtils.js';
+
+vi.mock('../src/services/Logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+}));
+
+// ffmpeg isn't spawned: every run fails unless a test supplies its stderr
+const runFfmpeg = vi.hoisted(() => vi.fn());
+vi.mock('../src/services/encoding/ffmpeg.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/services/encoding/ffmpeg.js')>(),
+  runFfmpeg
+}));
+
+const { VideoProcessor } = await import('../src/services/VideoProcessor.js');
+
+function createProcessor(encoder: Partial<NonNullable<EncoderConfig['encoder']>> = {}): InstanceType<typeof VideoProcessor> {
+  const config = { encoder: { temp_dir: '/nonexistent', ...encoder } } as EncoderConfig;
+  return new VideoProcessor(config, {} as IPFSService);
+}
+
+function probe(width: number, height: number, overrides: Partial<FileProbeResult> = {}): FileProbeResult {
+  return {
+    container: 'mov',
+    videoCodec: 'h264',
+    audioCodec: 'aac',
+    pixelFormat: 'yuv420p',
+    bitDepth: 8,
+    hdrMetadata: false,
+    rotationDegrees: 0,
+    resolution: { width, height },
+    framerate: 30,
+    variableFramerate: false,
+    duration: 120,
+    videoStreamCount: 1,
+    audioStreamCount: 1,
+    audioOnly: false,
+    audioTracks: [],
+    extraStreams: [],
+    issues: [],
+    ...overrides
+  };
+}
+
+const DEFAULT_LADDER = ['1080p', '720p', '480p'].map(name => ENCODING_RUNGS[name]!);
+
+const CODECS: CodecCapability[] = [
+  { name: 'libx264', type: 'software', available: true, tested: true, priority: 10 },
+  { name: 'h264_nvenc', type: 'hardware', available: true, tested: true, priority: 1 }
+];
+
+let workDir: string;
+
+beforeEach(async () => {
+  workDir = await fs.mkdtemp(join(tmpdir(), 'video-processor-test-'));
+  runFfmpeg.mockReset().mockRejectedValue(new Error('spawn ffmpeg ENOENT'));
+});
+
+afterEach(async () => {
+  await fs.rm(workDir, { recursive: true, force: true });
+});
+
+/**
+ * MPEG-TS rendition <parent>/<profile>/index.m3u8 with one segment file per duration
+ */
+async function writeRendition(profile: string, durations: number[], parent = workDir): Promise<EncodedOutput> {
+  const dir = join(parent, profile);
+  await fs.mkdir(dir, { recursive: true });
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:3', `#EXT-X-TARGETDURATION:${Math.ceil(Math.max(...durations))}`];
+  for (let i = 0; i < durations.length; i++) {
+    await fs.writeFile(join(dir, `${profile}_${i}.ts`), Buffer.alloc(188));
+    lines.push(`#EXTINF:${durations[i]!.toFixed(6)},`, `${profile}_${i}.ts`);
+  }
+  lines.push('#EXT-X-ENDLIST', '');
+  const playlist = join(dir, 'index.m3u8');
+  await fs.writeFile(playlist, lines.join('\n'));
+  return { profile, path: playlist, playlist, size: 0, duration: durations.reduce((sum, d) => sum + d, 0), segments: [] };
+}
+
+describe('planRenditions', () => {
+  const plan = (source: FileProbeResult | null, ladder = DEFAULT_LADDER) => createProcessor()['planRenditions'](ladder, source);
+
+  it('keeps the whole ladder for a 1080p source', () => {
+    const renditions = plan(probe(1920, 1080));
+    expect(renditions.map(r => [r.name, r.width, r.height, r.native])).toEqual([
+      ['1080p', 1920, 1080, false],
+      ['720p', 1280, 720, false],
+      ['480p', 852, 480, false]
+    ]);
+  });
+
+  it('never upscales and adds a native rung between ladder rungs', () => {
+    const renditions = plan(probe(1280, 540));
+    expect(renditions.map(r => [r.name, r.width, r.height, r.native])).toEqual([
+      ['540p', 1280, 540, true],
+      ['480p', 1136, 480, false]
+    ]);
+    // Bitrate and level come from the closest rung at or above the source
+    expect(renditions[0]!.bitrate).toBe(ENCODING_RUNGS['720p']!.bitrate);
+  });
+
+  it('scales rotated phone videos on their short side', () => {
+    const renditions = plan(probe(1920, 1080, { rotationDegrees: 90 }));
+    expect(renditions.every(r => r.portrait)).toBe(true);
+    expect(renditions.map(r => [r.name, r.width, r.height])).toEqual([
+      ['1080p', 1080, 1920],
+      ['720p', 720, 1280],
+      ['480p', 480, 852]
+    ]);
+  });
+
+  it('rounds odd sizes down to even and adds no native rung at a rung height', () => {
+    const renditions = plan(probe(1366, 767));
+    expect(renditions[0]).toMatchObject({ name: '766p', width: 1366, height: 766, native: true });
+    expect(renditions.every(r => r.width <= 1366 && r.height <= 767)).toBe(true);
+    expect(renditions.every(r => r.width % 2 === 0 && r.height % 2 === 0)).toBe(true);
+    expect(plan(probe(1280, 720)).map(r => r.name)).toEqual(['720p', '480p']);
+  });
+
+  it('falls back to the nominal ladder without a probe', () => {
+    expect(plan(null).map(r => [r.name, r.width, r.height, r.frameRate])).toEqual([
+      ['1080p', 1920, 1080, '30'],
+      ['720p', 1280, 720, '30'],
+      ['480p', 854, 480, '30']
+    ]);
+  });
+});
+
+describe('encodeAllProfiles', () => {
+  const renditions = () => createProcessor()['planRenditions'](DEFAULT_LADDER, probe(1920, 1080));
+  const output = (profile: string): EncodedOutput => ({ profile, path: '', size: 0, duration: 0, segments: [] });
+
+  function withCodecs(): InstanceType<typeof VideoProcessor> {
+    const processor = createProcessor();
+    processor['availableCodecs'] = CODECS;
+    return processor;
+  }
+
+  it('walks the fallback chain hardware first and returns the first successful pass', async () => {
+    const processor = withCodecs();
+    const attempt = vi.spyOn(processor as any, 'attemptSinglePassEncode')
+      .mockRejectedValueOnce(new Error('No NVENC capable devices found'))
+      .mockResolvedValueOnce(['1080p', '720p', '480p'].map(output));
+
+    const outputs = await processor['encodeAllProfiles'](join(workDir, 'source.mp4'), renditions(), workDir);
+
+    expect(outputs?.map(o => o.profile)).toEqual(['1080p', '720p', '480p']);
+    expect(attempt.mock.calls.map(call => (call[3] as CodecCapability).name)).toEqual(['h264_nvenc', 'libx264']);
+    // Adaptive segment duration falls back to 6s when the source can't be probed
+    expect(attempt.mock.calls[0]![7]).toBe(6);
+  });
+
+  it('clears partial rendition directories and returns null when every codec fails', async () => {
+    const processor = withCodecs();
+    vi.spyOn(processor as any, 'attemptSinglePassEncode').mockImplementation(async (...args: unknown[]) => {
+      await fs.writeFile(join(args[2] as string, '720p', 'partial.ts'), '');
+      throw new Error('Conversion failed');
+    });
+
+    await expect(processor['encodeAllProfiles'](join(workDir, 'source.mp4'), renditions(), workDir)).resolves.toBeNull();
+    await expect(fs.readdir(workDir)).resolves.toEqual([]);
+  });
+
+  it('stops at a cancellation instead of trying the next codec', async () => {
+    const processor = withCodecs();
+    const attempt = vi.spyOn(processor as any, 'attemptSinglePassEncode').mockRejectedValue(createJobCancelledError('job-1'));
+
+    await expect(processor['encodeAllProfiles'](join(workDir, 'source.mp4'), renditions(), workDir)).rejects.toThrow(/JOB_CANCELLED/);
+    expect(attempt).toHaveBeenCalledOnce();
+  });
+
+  it('keeps tone-mapped encodes on software codecs', () => {
+    const processor = withCodecs();
+    expect(processor['getCodecFallbackChain']().map(c => c.name)).toEqual(['h264_nvenc', 'libx264']);
+    expect(processor['getCodecFallbackChain']({ toneMap: true } as EncodingStrategy).map(c => c.name)).toEqual(['libx264']);
+  });
+});
+
+describe('HDR sources', () => {
+  const pq = probe(3840, 2160, { colorTransfer: 'smpte2084', colorSpace: 'bt2020nc', pixelFormat: 'yuv420p10le', bitDepth: 10, hdrMetadata: true });
+
+  it('tone maps PQ and HLG to BT.709 and tags the output as SDR', () => {
+    const processor = createProcessor();
+    processor['toneMapAvailable'] = true;
+
+    const strategy = processor['determineEncodingStrategy'](pq);
+    expect(strategy.toneMap).toBe('smpte2084');
+    expect(strategy.videoFilters).toEqual([expect.stringMatching(/^zscale=tin=smpte2084:.*format=yuv420p$/)]);
+    expect(strategy.extraOptions.join(' ')).toContain('-color_primaries bt709 -color_trc bt709 -colorspace bt709');
+    expect(strategy.videoFilters).not.toContain('format=yuv420p');
+
+    const hlg = processor['determineEncodingStrategy']({ ...pq, colorTransfer: 'arib-std-b67' });
+    expect(hlg.toneMap).toBe('arib-std-b67');
+  });
+
+  it('only drops to 8-bit when the FFmpeg build has no zscale', () => {
+    const strategy = createProcessor()['determineEncodingStrategy'](pq);
+    expect(strategy.toneMap).toBeUndefined();
+    expect(strategy.videoFilters).toEqual(['format=yuv420p']);
+  });
+});
+
+describe('frame rates', () => {
+  const rates = (framerate: number, ladder = DEFAULT_LADDER) =>
+    createProcessor()['planRenditions'](ladder, probe(1920, 1080, { framerate })).map(r => r.frameRate);
+
+  it('keeps 50/60 fps from 720p up and halves it below', () => {
+    expect(rates(60)).toEqual(['60', '60', '30']);
+    expect(rates(50)).toEqual(['50', '50', '25']);
+    expect(rates(59.94)).toEqual(['60000/1001', '60000/1001', '30000/1001']);
+    expect(rates(23.976)).toEqual(['24000/1001', '24000/1001', '24000/1001']);
+  });
+
+  it('drops frames evenly from high-fps sources and lifts very low rates to 15fps', () => {
+    expect(rates(120)).toEqual(['60', '60', '30']);
+    expect(rates(90)).toEqual(['45', '45', '30']);
+    expect(rates(100)).toEqual(['50', '50', '25']);
+    expect(rates(8)).toEqual(['15', '15', '15']);
+  });
+
+  it('honours a rung max_fps', () => {
+    const capped = [{ ...ENCODING_RUNGS['1080p']!, max_fps: 30 }, ENCODING_RUNGS['720p']!];
+    expect(rates(60, capped)).toEqual(['30', '60']);
+  });
+
+  it('snaps VFR averages to the nearest standard rate', () => {
+    const processor = createProcessor();
+    expect(processor['snapFramerate'](29.81)).toBeCloseTo(30000 / 1001, 6);
+    expect(processor['snapFramerate'](59.2)).toBeCloseTo(60000 / 1001, 6);
+    expect(processor['snapFramerate'](24.9)).toBe(25);
+    expect(processor['snapFramerate'](40.4)).toBe(40);
+  });
+
+  it('forces constant frame rate output for VFR sources', () => {
+    const strategy = createProcessor()['determineEncodingStrategy'](probe(1920, 1080, { variableFramerate: true, framerate: 30000 / 1001 }));
+    expect(strategy.extraOptions.join(' ')).toContain('-vsync cfr');
+    expect(strategy.reason).toContain('variable framerate → constant 29.97fps');
+  });
+});
+
+describe('segment alignment', () => {
+  it('forces a keyframe at every segment boundary', () => {
+    const processor = createProcessor();
+    expect(processor['getForceKeyFrames'](6)).toBe('expr:gte(t,n_forced*6)');
+    const [rendition] = processor['planRenditions'](DEFAULT_LADDER, probe(1920, 1080, { framerate: 30000 / 1001 }));
+    expect(processor['getGopSize'](rendition!, 6)).toBe(180);
+  });
+
+  it('accepts boundaries within a frame of each other', async () => {
+    const outputs = [
+      await writeRendition('1080p', [6.006, 6.006, 3.2]),
+      await writeRendition('480p', [6.0, 6.04, 3.1])
+    ];
+    await expect(createProcessor()['validateSegmentAlignment'](outputs, 'job-1')).resolves.toEqual([]);
+  });
+
+  it('flags drifting boundaries and differing segment counts', async () => {
+    const reference = await writeRendition('1080p', [6, 6, 6, 2]);
+    const drifted = await writeRendition('720p', [6, 6.5, 5.5, 2]);
+    const extra = await writeRendition('480p', [6, 6, 6, 1, 1]);
+    const processor = createProcessor();
+
+    await expect(processor['validateSegmentAlignment']([reference, drifted, extra], 'job-1')).resolves.toEqual(['720p', '480p']);
+    await expect(processor['validateSegmentAlignment']([reference], 'job-1')).resolves.toEqual([]);
+  });
+});
+
+describe('output validation', () => {
+  // ffprobe isn't available here: every segment decodes to 30 frames unless a test says otherwise
+  function withDecoder(frames: (input: string) => number | null = () => 30): InstanceType<typeof VideoProcessor> {
+    const processor = createProcessor();
+    vi.spyOn(processor as any, 'countDecodedFrames').mockImplementation(async (input: unknown) => frames(input as string));
+    return processor;
+  }
+
+  it('passes a complete rendition and probes its first, middle and last segments', async () => {
+    const processor = withDecoder();
+    const output = await writeRendition('720p', [6, 6, 6, 6, 4]);
+
+    await expect(processor['validateRendition'](output, 29)).resolves.toEqual([]);
+    expect(vi.mocked(processor['countDecodedFrames']).mock.calls.map(([input]) => input.split('/').pop())).toEqual(['720p_0.ts', '720p_2.ts', '720p_4.ts']);
+  });
+
+  it('reports cut-short playlists, missing or empty files and undecodable segments', async () => {
+    const output = await writeRendition('720p', [6, 6, 4]);
+    await fs.writeFile(output.playlist, (await fs.readFile(output.playlist, 'utf8')).replace('#EXT-X-ENDLIST\n', ''));
+    await fs.rm(join(workDir, '720p', '720p_1.ts'));
+    await fs.writeFile(join(workDir, '720p', '720p_2.ts'), '');
+
+    await expect(withDecoder()['validateRendition'](output, null)).resolves.toEqual([
+      'playlist has no #EXT-X-ENDLIST (encode cut short?)',
+      'missing 720p_1.ts',
+      'empty 720p_2.ts'
+    ]);
+
+    const broken = await writeRendition('480p', [6, 6, 4]);
+    const processor = withDecoder(input => input.endsWith('480p_2.ts') ? null : input.endsWith('480p_1.ts') ? 0 : 30);
+    await expect(processor['validateRendition'](broken, null)).resolves.toEqual(['480p_1.ts decodes to no frames', '480p_2.ts does not decode']);
+  });
+
+  it('compares the listed duration with the source within 2s or 2%', async () => {
+    const processor = withDecoder();
+    const output = await writeRendition('720p', [6, 6, 6, 6, 6]);
+
+    await expect(processor['validateRendition'](output, 31.9)).resolves.toEqual([]);
+    await expect(processor['validateRendition'](output, 32.5)).resolves.toEqual(['duration 30.00s, expected 32.50s']);
+    await expect(processor['validateRendition'](await writeRendition('1080p', Array(100).fill(6)), 612)).resolves.toEqual([]);
+  });
+
+  it('drops broken optional renditions, re-encodes others once and then fails the job', async () => {
+    const processor = withDecoder(input => input.includes('_bad') ? null : 30);
+    const h264 = await writeRendition('720p_bad', [6, 6]);
+    const hevc = { ...await writeRendition('720p_hevc_bad', [6, 6]), videoCodec: 'hevc' as const };
+    const fixed = await writeRendition('720p', [6, 6]);
+
+    const retry = vi.fn().mockResolvedValue(fixed);
+    await expect(processor['validateOutputs']([h264, hevc], 12, 'job-1', retry)).resolves.toEqual([fixed]);
+    expect(retry).toHaveBeenCalledWith(h264);
+    await expect(fs.access(join(workDir, '720p_hevc_bad'))).rejects.toThrow();
+
+    await expect(processor['validateOutputs']([h264], 12, 'job-1', async () => h264))
+      .rejects.toThrow('Rendition 720p_bad failed validation: 720p_bad_0.ts does not decode; 720p_bad_1.ts does not decode');
+    await expect(processor['validateOutputs']([h264], 12, 'job-1', async () => null)).rejects.toThrow(/720p_bad failed validation/);
+  });
+
+  it('re-encodes a misaligned rung once and fails the job when it stays misaligned', async () => {
+    const processor = withDecoder();
+    const reference = await writeRendition('1080p', [6, 6, 2]);
+    const drifted = await writeRendition('720p', [6.5, 5.5, 2]);
+    const realigned = await writeRendition('720p_retry', [6, 6, 2]);
+    const hevc = { ...await writeRendition('1080p_hevc', [5, 7, 2]), videoCodec: 'hevc' as const };
+
+    const retry = vi.fn().mockResolvedValue(realigned);
+    await expect(processor['validateOutputs']([reference, drifted, hevc], 14, 'job-1', retry)).resolves.toEqual([reference, realigned]);
+    expect(retry).toHaveBeenCalledOnce();
+    expect(retry).toHaveBeenCalledWith(drifted);
+    await expect(fs.access(join(workDir, '1080p_hevc'))).rejects.toThrow();
+
+    await expect(processor['validateOutputs']([reference, drifted], 14, 'job-1', async () => drifted))
+      .rejects.toThrow('Rendition 720p failed validation: segment boundaries differ from the other renditions');
+  });
+
+  it('drops broken alternate audio tracks but fails on a broken demuxed default track', async () => {
+    const processor = withDecoder(input => input.includes('/fr_2/') ? null : 30);
+    await writeRendition('es_1', [6, 6], join(workDir, 'audio'));
+    await writeRendition('fr_2', [6, 6], join(workDir, 'audio'));
+    const muxed = { sourceTrack: 0, language: 'en', name: 'English', default: true };
+    const spanish = { sourceTrack: 1, language: 'es', name: 'Español', default: false, playlist: 'audio/es_1/index.m3u8' };
+    const french = { sourceTrack: 2, language: 'fr', name: 'Français', default: false, playlist: 'audio/fr_2/index.m3u8' };
+
+    await expect(processor['validateAudioRenditions']([muxed, spanish, french], workDir, 12, false, 'job-1')).resolves.toEqual([muxed, spanish]);
+    await expect(fs.access(join(workDir, 'audio', 'fr_2'))).rejects.toThrow();
+    await expect(processor['validateAudioRenditions']([muxed, { ...spanish, playlist: 'audio/missing/index.m3u8' }], workDir, 12, false, 'job-1')).resolves.toEqual([]);
+
+    await writeRendition('fr_2', [6, 6], join(workDir, 'audio'));
+    await expect(processor['validateAudioRenditions']([{ ...french, default: true }, spanish], workDir, 12, true, 'job-1'))
+      .rejects.toThrow('Audio rendition audio/fr_2/index.m3u8 failed validation');
+  });
+});
+
+describe('per-title encoding', () => {
+  const standard = (): EncodingStrategy => ({ inputOptions: [], mapOptions: [], videoFilters: [], codecPriority: [], extraOptions: [], reason: 'standard processing' });
+  const analyze = (processor: InstanceType<typeof VideoProcessor>, source: FileProbeResult, strategy: EncodingStrategy) =>
+    processor['analyzeComplexity'](join(workDir, 'source.mp4'), source, strategy, false, 'job-1');
+
+  it('raises bitrates and lowers CRF for complex content', async () => {
+    runFfmpeg.mockResolvedValue(['frame=90 fps=45', 'video:1500kB audio:0kB subtitle:0kB other streams:0kB']);
+    const strategy = standard();
+
+    await analyze(createProcessor(), probe(1920, 1080), strategy);
+
+    // 4 x 3s samples of 1500KiB at 720p = 4096kbps, twice the reference
+    expect(strategy.perTitle).toEqual({ probeBitrate: 4096, complexity: 2.05, bitrateFactor: 1.5, crf: 18, sampledSeconds: 12 });
+    expect(strategy.reason).toBe('per-title complexity 2.05 (4096kbps at CRF 23) - bitrates x1.5, CRF 18');
+    expect(runFfmpeg).toHaveBeenCalledTimes(4);
+    expect(runFfmpeg.mock.calls[0]![0]._getArguments().join(' ')).toContain('scale=-2:720,fps=30,format=yuv420p');
+  });
+
+  it('lowers bitrates and raises CRF for easy content', async () => {
+    runFfmpeg.mockResolvedValue(['video:250KiB audio:0KiB']);
+    const strategy = standard();
+
+    await analyze(createProcessor(), probe(1920, 1080), strategy);
+
+    expect(strategy.perTitle).toMatchObject({ probeBitrate: 683, complexity: 0.34, bitrateFactor: 0.5, crf: 21 });
+  });
+
+  it('keeps the stock ladder when the probe fails or the strategy already picked a CRF', async () => {
+    const failed = standard();
+    await analyze(createProcessor(), probe(1920, 1080), failed);
+    expect(failed.perTitle).toBeUndefined();
+    expect(failed.reason).toBe('standard processing');
+
+    runFfmpeg.mockClear();
+    const fast = { ...standard(), extraOptions: ['-preset', 'superfast', '-crf', '28'] };
+    await analyze(createProcessor(), probe(1920, 1080, { duration: 3 * 3600 }), fast);
+    expect(runFfmpeg).not.toHaveBeenCalled();
+  });
+
+  it('scales every planned rung by the bitrate factor', () => {
+    const processor = createProcessor();
+    const renditions = processor['planRenditions']([ENCODING_RUNGS['720p']!], probe(1280, 720));
+    const strategy = { ...standard(), perTitle: { probeBitrate: 3000, complexity: 1.5, bitrateFactor: 1.5, crf: 18, sampledSeconds: 12 } };
+
+    expect(processor['applyPerTitle'](renditions, strategy)).toEqual([{ ...renditions[0], bitrate: '4200k', maxrate: '4494k', bufsize: '6300k' }]);
+    expect(processor['applyPerTitle'](renditions, null)).toBe(renditions);
+  });
+});
+
+describe('checkpoints', () => {
+  const SOURCE_URI = 'ipfs://QmSource';
+
+  async function checkpointedJob(): Promise<{ processor: InstanceType<typeof VideoProcessor>; jobDir: string; sourceFile: string }> {
+    const processor = createProcessor({ temp_dir: workDir });
+    const jobDir = join(workDir, 'job-1');
+    await fs.mkdir(jobDir);
+    const sourceFile = join(jobDir, 'source.mp4');
+    await fs.writeFile(sourceFile, 'source bytes');
+    await processor['saveCheckpoint'](jobDir, { sourceUri: SOURCE_URI, sourceHash: await processor['hashFile'](sourceFile), renditions: {} });
+    return { processor, jobDir, sourceFile };
+  }
+
+  it('resumes from a checkpoint of the same, fully downloaded source', async () => {
+    const { processor, jobDir, sourceFile } = await checkpointedJob();
+
+    await expect(processor['loadCheckpoint'](jobDir, SOURCE_URI, sourceFile)).resolves.toMatchObject({ sourceUri: SOURCE_URI, renditions: {} });
+  });
+
+  it('starts over when the source changed or belongs to another input', async () => {
+    const { processor, jobDir, sourceFile } = await checkpointedJob();
+    await expect(processor['loadCheckpoint'](jobDir, 'ipfs://QmOther', sourceFile)).resolves.toBeNull();
+    await expect(fs.access(jobDir)).rejects.toThrow();
+
+    const truncated = await checkpointedJob();
+    await fs.writeFile(truncated.sourceFile, 'source');
+    await expect(truncated.processor['loadCheckpoint'](truncated.jobDir, SOURCE_URI, truncated.sourceFile)).resolves.toBeNull();
+  });
+
+  it('reuses a rendition only with the same settings and intact files', async () => {
+    const { processor, jobDir, sourceFile } = await checkpointedJob();
+    vi.spyOn(processor as any, 'countDecodedFrames').mockResolvedValue(30);
+    const [rendition] = processor['planRenditions']([ENCODING_RUNGS['720p']!], probe(1280, 720));
+    const fingerprint = processor['getRenditionFingerprint']('720p', rendition!, 'ts', false, null);
+    const output = await writeRendition('720p', [6, 6], jobDir);
+
+    const checkpoint = (await processor['loadCheckpoint'](jobDir, SOURCE_URI, sourceFile))!;
+    await processor['checkpointRendition'](jobDir, checkpoint, output, fingerprint);
+    const restored = (await processor['loadCheckpoint'](jobDir, SOURCE_URI, sourceFile))!;
+
+    await expect(processor['getCheckpointedRendition'](restored, '720p', fingerprint)).resolves.toEqual(output);
+    const fmp4 = processor['getRenditionFingerprint']('720p', rendition!, 'fmp4', false, null);
+    await expect(processor['getCheckpointedRendition'](restored, '720p', fmp4)).resolves.toBeNull();
+
+    await fs.rm(join(jobDir, '720p', '720p_1.ts'));
+    await expect(processor['getCheckpointedRendition'](restored, '720p', fingerprint)).resolves.toBeNull();
+    expect(restored.renditions).toEqual({});
+  });
+
+  it('fingerprints only the strategy settings that change the output', () => {
+    const processor = createProcessor();
+    const [rendition] = processor['planRenditions']([ENCODING_RUNGS['720p']!], probe(1280, 720));
+    const strategy: EncodingStrategy = {
+      inputOptions: ['-hwaccel', 'cuda'],
+      mapOptions: [],
+      videoFilters: ['format=yuv420p'],
+      codecPriority: ['h264_nvenc', 'libx264'],
+      extraOptions: ['-preset', 'medium'],
+      perTitle: { probeBitrate: 2100, complexity: 1.05, bitrateFactor: 1.05, crf: 23, sampledSeconds: 24 },
+      reason: 'standard'
+    };
+    const fingerprint = (changes: Partial<EncodingStrategy>) =>
+      processor['getRenditionFingerprint']('720p', rendition!, 'ts', false, { ...strategy, ...changes });
+
+    const volatile = fingerprint({
+      inputOptions: [],
+      codecPriority: ['libx264'],
+      reason: 'hardware decoder unavailable',
+      perTitle: { ...strategy.perTitle!, probeBitrate: 2080, sampledSeconds: 23.9 }
+    });
+    expect(volatile).toBe(fingerprint({}));
+    expect(fingerprint({ videoFilters: ['format=yuv420p', 'yadif'] })).not.toBe(fingerprint({}));
+    expect(fingerprint({ perTitle: { ...strategy.perTitle!, crf: 25 } })).not.toBe(fingerprint({}));
+  });
+
+  it('removes work directories of jobs nobody retried within a day', async () => {
+    const { processor, jobDir } = await checkpointedJob();
+    for (const jobId of ['job-active', 'job-recent']) {
+      await fs.mkdir(join(workDir, jobId));
+      await fs.writeFile(join(workDir, jobId, 'checkpoint.json'), '{}');
+    }
+    const dayAgo = new Date(Date.now() - 25 * 3600 * 1000);
+    await fs.utimes(join(jobDir, 'checkpoint.json'), dayAgo, dayAgo);
+    await fs.utimes(join(workDir, 'job-active', 'checkpoint.json'), dayAgo, dayAgo);
+
+    await processor.removeStaleCheckpoints(['job-active']);
+
+    await expect(fs.readdir(workDir).then(entries => entries.sort())).resolves.toEqual(['job-active', 'job-recent']);
+  });
+});
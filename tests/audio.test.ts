@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { AudioTrackInfo, FileProbeResult } from '../src/types/index.js';
+import { createJobCancelledError } from '../src/common/errorUtils.js';
+
+vi.mock('../src/services/Logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+}));
+
+// ffmpeg isn't spawned: every run fails unless a test supplies its stderr
+const runFfmpeg = vi.hoisted(() => vi.fn());
+vi.mock('../src/services/encoding/ffmpeg.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/services/encoding/ffmpeg.js')>(),
+  runFfmpeg
+}));
+
+const { encodeAudioOnly, encodeAudioRenditions, getLoudnormFilter, measureLoudness, selectAudioTracks } = await import('../src/services/encoding/audio.js');
+
+let workDir: string;
+
+beforeEach(async () => {
+  workDir = await fs.mkdtemp(join(tmpdir(), 'audio-test-'));
+  runFfmpeg.mockReset().mockRejectedValue(new Error('spawn ffmpeg ENOENT'));
+});
+
+afterEach(async () => {
+  await fs.rm(workDir, { recursive: true, force: true });
+});
+
+function withTracks(...tracks: AudioTrackInfo[]): FileProbeResult {
+  return { audioTracks: tracks, audioStreamCount: tracks.length } as FileProbeResult;
+}
+
+const EN_ES_EN = withTracks({ index: 1, language: 'eng' }, { index: 2, language: 'spa' }, { index: 3, language: 'eng', title: 'Commentary' });
+
+describe('selectAudioTracks', () => {
+  it('keeps every track when nothing was requested', () => {
+    expect(selectAudioTracks(EN_ES_EN)).toEqual([0, 1, 2]);
+    expect(selectAudioTracks(EN_ES_EN, [])).toEqual([0, 1, 2]);
+    expect(selectAudioTracks(withTracks())).toEqual([]);
+    expect(selectAudioTracks(null, ['eng'])).toEqual([]);
+  });
+
+  it('resolves positions and language tags in the requested order without duplicates', () => {
+    expect(selectAudioTracks(EN_ES_EN, ['SPA', 'eng'])).toEqual([1, 0, 2]);
+    expect(selectAudioTracks(EN_ES_EN, [2, 'eng', 7])).toEqual([2, 0]);
+  });
+
+  it('falls back to the first track when nothing matches', () => {
+    expect(selectAudioTracks(EN_ES_EN, ['fra', 9])).toEqual([0]);
+  });
+});
+
+describe('encodeAudioRenditions', () => {
+  const encode = (selection: number[], demuxed: boolean) =>
+    encodeAudioRenditions(join(workDir, 'missing.mp4'), workDir, EN_ES_EN, selection, '128k', 'fmp4', false, null, demuxed, 'job-1');
+
+  it('leaves a single muxed track out of the AUDIO group', async () => {
+    await expect(encode([0], false)).resolves.toEqual([]);
+    await expect(fs.readdir(workDir)).resolves.toEqual([]);
+  });
+
+  it('skips alternate tracks that fail to encode', async () => {
+    await expect(encode([0, 1, 2], false)).resolves.toEqual([]);
+    await expect(fs.readdir(join(workDir, 'audio'))).resolves.toEqual([]);
+  });
+
+  it('fails the job when the demuxed default track cannot be encoded', async () => {
+    await expect(encode([0, 1], true)).rejects.toThrow();
+  });
+});
+
+/**
+ * stderr of a loudnorm first pass with print_format=json
+ */
+function loudnormOutput(integrated: string, truePeak = '-0.42'): string[] {
+  return [
+    '[Parsed_loudnorm_0 @ 0x5581] ',
+    '{',
+    `\t"input_i" : "${integrated}",`,
+    `\t"input_tp" : "${truePeak}",`,
+    '\t"input_lra" : "7.30",',
+    '\t"input_thresh" : "-33.21",',
+    '\t"output_i" : "-16.01",',
+    '\t"target_offset" : "0.01"',
+    '}'
+  ];
+}
+
+describe('measureLoudness', () => {
+  it('reads the first-pass measurement of the requested track', async () => {
+    runFfmpeg.mockResolvedValue(loudnormOutput('-23.05'));
+
+    const loudness = await measureLoudness('source.mp4', 1, -16, false);
+
+    expect(loudness).toEqual({ integrated: -23.05, truePeak: -0.42, range: 7.3, threshold: -33.21, targetOffset: 0.01, target: -16, normalized: true });
+    expect(runFfmpeg.mock.calls[0]![0]._getArguments()).toEqual(expect.arrayContaining(['-map', '0:a:1']));
+  });
+
+  it('leaves silent tracks and failed measurements unnormalized', async () => {
+    runFfmpeg.mockResolvedValueOnce(loudnormOutput('-inf', '-inf'));
+    await expect(measureLoudness('source.mp4', 0, -16, false)).resolves.toBeNull();
+
+    runFfmpeg.mockResolvedValueOnce(['Output #0, null, to \'pipe:\':']);
+    await expect(measureLoudness('source.mp4', 0, -16, false)).resolves.toBeNull();
+
+    await expect(measureLoudness('source.mp4', 0, -16, false)).resolves.toBeNull();
+  });
+
+  it('stops at a cancellation', async () => {
+    runFfmpeg.mockRejectedValue(createJobCancelledError('job-1'));
+    await expect(measureLoudness('source.mp4', 0, -16, false)).rejects.toThrow(/JOB_CANCELLED/);
+  });
+});
+
+describe('getLoudnormFilter', () => {
+  it('feeds the measurement into a linear second pass', () => {
+    const filter = getLoudnormFilter({ integrated: -23.05, truePeak: -0.42, range: 7.3, threshold: -33.21, targetOffset: 0.01, target: -14, normalized: true });
+
+    expect(filter).toBe('loudnorm=I=-14:TP=-1.5:LRA=11:measured_I=-23.05:measured_TP=-0.42:measured_LRA=7.3:measured_thresh=-33.21:offset=0.01:linear=true');
+  });
+});
+
+describe('encodeAudioOnly', () => {
+  const encode = (downloadFormat: 'm4a' | 'mp3', progress?: () => void, signal?: AbortSignal) =>
+    encodeAudioOnly(join(workDir, 'podcast.wav'), workDir, 1, ['loudnorm=I=-16'], ['128k', '64k'], downloadFormat, 'ts', false, 'job-1', progress, signal);
+
+  it('writes one HLS rendition per bitrate and a download at the top bitrate', async () => {
+    runFfmpeg.mockResolvedValue([]);
+    const progress = vi.fn();
+
+    const { outputs, download } = await encode('mp3', progress);
+
+    expect(outputs.map(output => [output.profile, output.playlist])).toEqual([
+      ['audio_128k', join(workDir, 'audio_128k', 'index.m3u8')],
+      ['audio_64k', join(workDir, 'audio_64k', 'index.m3u8')]
+    ]);
+    expect(download).toBe('audio.mp3');
+    expect(progress.mock.calls.map(([update]) => Math.round(update.percent))).toEqual([33, 67, 100]);
+
+    const commands = runFfmpeg.mock.calls.map(([command]) => command._getArguments().join(' '));
+    expect(commands[0]).toContain('-map 0:a:1');
+    expect(commands[0]).toContain('-filter:a loudnorm=I=-16');
+    expect(commands[1]).toContain('-b:a 64k');
+    expect(runFfmpeg.mock.calls[2]![0]._getArguments()).toEqual(expect.arrayContaining(['-b:a', '128k', '-acodec', 'libmp3lame', '-f', 'mp3', join(workDir, 'audio.mp3')]));
+  });
+
+  it('writes a faststart M4A by default', async () => {
+    runFfmpeg.mockResolvedValue([]);
+
+    await expect(encode('m4a')).resolves.toMatchObject({ download: 'audio.m4a' });
+    expect(runFfmpeg.mock.calls[2]![0]._getArguments()).toEqual(expect.arrayContaining(['-movflags', '+faststart', '-f', 'ipod']));
+  });
+
+  it('does not start another rendition once the job is cancelled', async () => {
+    const controller = new AbortController();
+    runFfmpeg.mockImplementation(async () => {
+      controller.abort(createJobCancelledError('job-1'));
+      return [];
+    });
+
+    await expect(encode('m4a', undefined, controller.signal)).rejects.toThrow(/JOB_CANCELLED/);
+    expect(runFfmpeg).toHaveBeenCalledOnce();
+  });
+});
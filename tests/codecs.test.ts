@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from 'vitest';
+import type ffmpeg from 'fluent-ffmpeg';
+import { ENCODING_RUNGS } from '../src/config/ConfigLoader.js';
+
+vi.mock('../src/services/Logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+}));
+
+const { getAudioCodecString, getH264CodecString, getVideoCodecString, parseBitrate, parseFramerate } = await import('../src/services/encoding/codecs.js');
+
+function stream(fields: Partial<ffmpeg.FfprobeStream>): ffmpeg.FfprobeStream {
+  return fields as ffmpeg.FfprobeStream;
+}
+
+describe('RFC 6381 codec strings', () => {
+  it('derives avc1 strings from the rung profile and level', () => {
+    expect(getH264CodecString(ENCODING_RUNGS['1080p']!)).toBe('avc1.640029');
+    expect(getH264CodecString(ENCODING_RUNGS['480p']!)).toBe('avc1.4D401F');
+    expect(getH264CodecString(ENCODING_RUNGS['240p']!)).toBe('avc1.42E015');
+  });
+
+  it('reads H.264 profile and level from probed streams', () => {
+    expect(getVideoCodecString(stream({ codec_name: 'h264', profile: 'High', level: 40 }))).toBe('avc1.640028');
+    expect(getVideoCodecString(stream({ codec_name: 'h264', profile: 'Constrained Baseline', level: 31 }))).toBe('avc1.42E01F');
+    expect(getVideoCodecString(stream({ codec_name: 'h264', profile: 'Main', level: -99 }))).toBe('avc1.4D4028');
+    expect(getVideoCodecString(stream({ codec_name: 'vp9' }))).toBeNull();
+  });
+
+  it('writes hvc1 and av01 strings for the extra codec renditions', () => {
+    expect(getVideoCodecString(stream({ codec_name: 'hevc', profile: 'Main', level: 120 }))).toBe('hvc1.1.6.L120.B0');
+    expect(getVideoCodecString(stream({ codec_name: 'hevc', profile: 'Main 10', level: 153 }))).toBe('hvc1.2.4.L153.B0');
+    expect(getVideoCodecString(stream({ codec_name: 'av1', profile: 'Main', level: 8, pix_fmt: 'yuv420p' }))).toBe('av01.0.08M.08');
+    expect(getVideoCodecString(stream({ codec_name: 'av1', profile: 'Main', level: 12, pix_fmt: 'yuv420p10le' }))).toBe('av01.0.12M.10');
+  });
+
+  it('maps audio codecs and AAC profiles', () => {
+    expect(getAudioCodecString(stream({ codec_name: 'aac', profile: 'LC' }))).toBe('mp4a.40.2');
+    expect(getAudioCodecString(stream({ codec_name: 'aac', profile: 'HE-AAC' }))).toBe('mp4a.40.5');
+    expect(getAudioCodecString(stream({ codec_name: 'eac3' }))).toBe('ec-3');
+    expect(getAudioCodecString(stream({ codec_name: 'pcm_s16le' }))).toBeNull();
+  });
+});
+
+describe('parseBitrate / parseFramerate', () => {
+  it('parses ffmpeg-style values', () => {
+    expect(parseBitrate('5350k')).toBe(5350000);
+    expect(parseBitrate('2M')).toBe(2000000);
+    expect(parseBitrate('128000')).toBe(128000);
+    expect(parseBitrate('fast')).toBe(0);
+    expect(parseFramerate('30000/1001')).toBeCloseTo(29.97, 2);
+    expect(parseFramerate('25')).toBe(25);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import type ffmpeg from 'fluent-ffmpeg';
+import { createJobCancelledError, isJobCancelledError } from '../src/common/errorUtils.js';
+import { formatVttTime, getToneMapFilter, runFfmpeg, throwIfCancelled } from '../src/services/encoding/ffmpeg.js';
+
+/**
+ * Stands in for a fluent-ffmpeg command: run() starts nothing, the test emits stderr/end/error itself
+ */
+class FakeCommand extends EventEmitter {
+  run = vi.fn();
+  kill = vi.fn();
+
+  asCommand(): ffmpeg.FfmpegCommand {
+    return this as unknown as ffmpeg.FfmpegCommand;
+  }
+}
+
+describe('runFfmpeg', () => {
+  it('resolves with the collected stderr lines', async () => {
+    const command = new FakeCommand();
+    const result = runFfmpeg(command.asCommand());
+    command.emit('stderr', 'frame=1');
+    command.emit('stderr', 'frame=2');
+    command.emit('end');
+
+    await expect(result).resolves.toEqual(['frame=1', 'frame=2']);
+    expect(command.run).toHaveBeenCalledOnce();
+  });
+
+  it('kills ffmpeg and rejects with the cancellation when the job is cancelled', async () => {
+    const command = new FakeCommand();
+    const controller = new AbortController();
+    const result = runFfmpeg(command.asCommand(), controller.signal);
+
+    controller.abort(createJobCancelledError('job-1'));
+
+    await expect(result).rejects.toSatisfy(isJobCancelledError);
+    expect(command.kill).toHaveBeenCalledWith('SIGKILL');
+  });
+
+  it('never starts ffmpeg for an already cancelled job', async () => {
+    const command = new FakeCommand();
+    const controller = new AbortController();
+    controller.abort(createJobCancelledError('job-1'));
+
+    await expect(runFfmpeg(command.asCommand(), controller.signal)).rejects.toSatisfy(isJobCancelledError);
+    expect(command.run).not.toHaveBeenCalled();
+  });
+});
+
+describe('throwIfCancelled', () => {
+  it('throws a cancellation error once the signal fired', () => {
+    const controller = new AbortController();
+    expect(() => throwIfCancelled('job-1', controller.signal)).not.toThrow();
+    expect(() => throwIfCancelled('job-1')).not.toThrow();
+
+    controller.abort(new Error('socket closed'));
+    expect(() => throwIfCancelled('job-1', controller.signal)).toThrow(/JOB_CANCELLED: Job job-1/);
+  });
+});
+
+describe('formatVttTime', () => {
+  it('writes hours, minutes, seconds and milliseconds', () => {
+    expect(formatVttTime(0)).toBe('00:00:00.000');
+    expect(formatVttTime(75.5)).toBe('00:01:15.500');
+    expect(formatVttTime(3725.0004)).toBe('01:02:05.000');
+    expect(formatVttTime(59.9996)).toBe('00:01:00.000');
+  });
+});
+
+describe('getToneMapFilter', () => {
+  it('linearizes from the source transfer and ends in 8-bit BT.709', () => {
+    const pq = getToneMapFilter('smpte2084');
+    expect(pq.startsWith('zscale=tin=smpte2084:pin=bt2020:min=bt2020nc:t=linear:')).toBe(true);
+    expect(pq).toContain('tonemap=tonemap=');
+    expect(pq.endsWith('zscale=t=bt709:m=bt709:r=tv,format=yuv420p')).toBe(true);
+    expect(getToneMapFilter('arib-std-b67')).toContain('zscale=tin=arib-std-b67:');
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { EncodedOutput } from '../src/types/index.js';
+
+vi.mock('../src/services/Logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+}));
+
+const { calculateAdaptiveSegmentDuration, getSegmentExtension, getSegmentOptions, measureOutput, readMediaPlaylist } = await import('../src/services/encoding/hls.js');
+
+let workDir: string;
+
+beforeEach(async () => {
+  workDir = await fs.mkdtemp(join(tmpdir(), 'hls-test-'));
+});
+
+afterEach(async () => {
+  await fs.rm(workDir, { recursive: true, force: true });
+});
+
+/**
+ * Media playlist plus segment files of the given sizes (bytes) and durations (seconds)
+ */
+async function writePlaylist(segments: Array<[bytes: number, seconds: number]>, initSegment?: string): Promise<string> {
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:7', '#EXT-X-TARGETDURATION:6'];
+  if (initSegment) {
+    lines.push(`#EXT-X-MAP:URI="${initSegment}"`);
+    await fs.writeFile(join(workDir, initSegment), Buffer.alloc(1000));
+  }
+  for (let i = 0; i < segments.length; i++) {
+    const [bytes, seconds] = segments[i]!;
+    const name = `720p_${i}${initSegment ? '.m4s' : '.ts'}`;
+    await fs.writeFile(join(workDir, name), Buffer.alloc(bytes));
+    lines.push(`#EXTINF:${seconds.toFixed(6)},`, name);
+  }
+  lines.push('#EXT-X-ENDLIST', '');
+  const playlist = join(workDir, 'index.m3u8');
+  await fs.writeFile(playlist, lines.join('\n'));
+  return playlist;
+}
+
+function output(playlist: string): EncodedOutput {
+  return { profile: '720p', path: playlist, playlist, size: 0, duration: 0, segments: [] };
+}
+
+describe('readMediaPlaylist', () => {
+  it('reads the init segment and each segment with its EXTINF duration', async () => {
+    const playlist = await writePlaylist([[100, 6], [100, 4.004]], '720p_init.mp4');
+
+    await expect(readMediaPlaylist(playlist)).resolves.toEqual({
+      initSegment: '720p_init.mp4',
+      segments: [{ uri: '720p_0.m4s', duration: 6 }, { uri: '720p_1.m4s', duration: 4.004 }]
+    });
+  });
+
+  it('ignores tags and URIs without an EXTINF', async () => {
+    const playlist = join(workDir, 'index.m3u8');
+    await fs.writeFile(playlist, '#EXTM3U\r\n#EXT-X-DISCONTINUITY\r\nstray.ts\r\n#EXTINF:2.5,title\r\n  a.ts  \r\n');
+
+    await expect(readMediaPlaylist(playlist)).resolves.toEqual({ initSegment: null, segments: [{ uri: 'a.ts', duration: 2.5 }] });
+  });
+});
+
+describe('measureOutput', () => {
+  it('sums duration and bytes and takes the peak from the largest segment rate', async () => {
+    const playlist = await writePlaylist([[750000, 6], [1000000, 4], [250000, 2]]);
+    const playlistBytes = (await fs.stat(playlist)).size;
+
+    const measured = await measureOutput(output(playlist));
+
+    expect(measured.duration).toBe(12);
+    expect(measured.segments).toEqual(['720p_0.ts', '720p_1.ts', '720p_2.ts']);
+    expect(measured.segmentCount).toBe(3);
+    expect(measured.size).toBe(2000000 + playlistBytes);
+    expect(measured.peakBitrate).toBe(2000000);
+    expect(measured.averageBitrate).toBe(Math.round((2000000 + playlistBytes) * 8 / 12));
+    expect(measured.initSegment).toBeUndefined();
+  });
+
+  it('counts the fMP4 init segment once', async () => {
+    const playlist = await writePlaylist([[6000, 6], [6000, 6]], '720p_init.mp4');
+    const playlistBytes = (await fs.stat(playlist)).size;
+
+    const measured = await measureOutput(output(playlist));
+
+    expect(measured.initSegment).toBe('720p_init.mp4');
+    expect(measured.size).toBe(1000 + 12000 + playlistBytes);
+  });
+
+  it('returns the output unchanged when a segment is missing', async () => {
+    const playlist = await writePlaylist([[100, 6], [100, 6]]);
+    await fs.rm(join(workDir, '720p_1.ts'));
+
+    await expect(measureOutput(output(playlist))).resolves.toEqual(output(playlist));
+  });
+});
+
+describe('getSegmentOptions', () => {
+  it('writes MPEG-TS segments by default', () => {
+    expect(getSegmentOptions('ts', '/work/720p', '720p')).toEqual([['-hls_segment_filename', '/work/720p/720p_%d.ts']]);
+    expect(getSegmentExtension('ts')).toBe('.ts');
+  });
+
+  it('writes fMP4 fragments behind an init segment next to the playlist', () => {
+    expect(getSegmentOptions('fmp4', '/work/720p', '720p')).toEqual([
+      ['-hls_segment_type', 'fmp4'],
+      ['-hls_fmp4_init_filename', '720p_init.mp4'],
+      ['-hls_segment_filename', '/work/720p/720p_%d.m4s']
+    ]);
+    expect(getSegmentExtension('fmp4')).toBe('.m4s');
+  });
+});
+
+describe('calculateAdaptiveSegmentDuration', () => {
+  it('uses 6s segments when the source cannot be probed', async () => {
+    await expect(calculateAdaptiveSegmentDuration(join(workDir, 'missing.mp4'))).resolves.toBe(6);
+  });
+});
@@ -0,0 +1,278 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { AudioRendition, EncodedOutput, SubtitleRendition } from '../src/types/index.js';
+import { ENCODING_RUNGS } from '../src/config/ConfigLoader.js';
+
+vi.mock('../src/services/Logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+}));
+
+const { createDashManifest, createMasterPlaylist, formatDashFrameRate } = await import('../src/services/encoding/manifests.js');
+
+let workDir: string;
+
+beforeEach(async () => {
+  workDir = await fs.mkdtemp(join(tmpdir(), 'manifests-test-'));
+});
+
+afterEach(async () => {
+  await fs.rm(workDir, { recursive: true, force: true });
+});
+
+/**
+ * fMP4 rendition as ffmpeg's HLS muxer writes it: <dir>/index.m3u8, <name>_init.mp4 and <name>_<n>.m4s
+ */
+async function writeRendition(dir: string, durations: number[]): Promise<string> {
+  const name = dir.split('/').pop()!;
+  const absolute = join(workDir, dir);
+  await fs.mkdir(absolute, { recursive: true });
+  await fs.writeFile(join(absolute, `${name}_init.mp4`), 'init');
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:7', '#EXT-X-TARGETDURATION:6', `#EXT-X-MAP:URI="${name}_init.mp4"`];
+  for (let i = 0; i < durations.length; i++) {
+    await fs.writeFile(join(absolute, `${name}_${i}.m4s`), 'segment');
+    lines.push(`#EXTINF:${durations[i]!.toFixed(6)},`, `${name}_${i}.m4s`);
+  }
+  lines.push('#EXT-X-ENDLIST', '');
+  await fs.writeFile(join(absolute, 'index.m3u8'), lines.join('\n'));
+  return join(absolute, 'index.m3u8');
+}
+
+async function videoOutput(profile: string, height: number, peakBitrate: number, extra: Partial<EncodedOutput> = {}): Promise<EncodedOutput> {
+  const playlist = await writeRendition(profile, [6, 6, 3.5]);
+  return {
+    profile,
+    path: playlist,
+    playlist,
+    size: 0,
+    duration: 15.5,
+    segments: [],
+    initSegment: `${profile}_init.mp4`,
+    peakBitrate,
+    resolution: { width: Math.round(height * 16 / 9), height },
+    codecs: 'avc1.640028',
+    frameRate: 29.97,
+    ...extra
+  };
+}
+
+async function audioRendition(id: string, language: string, name: string, isDefault: boolean): Promise<AudioRendition> {
+  await writeRendition(`audio/${id}`, [6, 6, 3.5]);
+  return { sourceTrack: 0, language, name, default: isDefault, playlist: `audio/${id}/index.m3u8`, peakBitrate: 140000, codecs: 'mp4a.40.2' };
+}
+
+/**
+ * Structural checks on the written MPD: balanced tags, one content type per AdaptationSet and
+ * every SegmentTemplate resolving to files in the work directory
+ */
+async function readMpd(): Promise<{ xml: string; sets: Array<{ contentType: string; body: string; attributes: string }> }> {
+  const xml = await fs.readFile(join(workDir, 'manifest.mpd'), 'utf8');
+
+  const stack: string[] = [];
+  for (const [, closing, tag, selfClosing] of xml.matchAll(/<(\/?)([A-Za-z]+)[^>]*?(\/?)>/g)) {
+    if (selfClosing) continue;
+    if (closing) {
+      expect(stack.pop()).toBe(tag);
+    } else {
+      stack.push(tag!);
+    }
+  }
+  expect(stack).toEqual([]);
+
+  for (const [, media, timeline] of xml.matchAll(/<SegmentTemplate [^>]*media="([^"]+)"[^>]*>([\s\S]*?)<\/SegmentTemplate>/g)) {
+    const count = [...timeline!.matchAll(/<S d="\d+"(?: r="(\d+)")?\/>/g)].reduce((sum, s) => sum + 1 + Number(s[1] ?? 0), 0);
+    for (let n = 0; n < count; n++) {
+      await expect(fs.access(join(workDir, media!.replace('$Number$', String(n))))).resolves.toBeUndefined();
+    }
+  }
+  for (const [, init] of xml.matchAll(/initialization="([^"]+)"/g)) {
+    await expect(fs.access(join(workDir, init!))).resolves.toBeUndefined();
+  }
+
+  const sets = [...xml.matchAll(/<AdaptationSet ([^>]*)>([\s\S]*?)<\/AdaptationSet>/g)].map(([, attributes, body]) => ({
+    contentType: attributes!.match(/contentType="(\w+)"/)![1]!,
+    attributes: attributes!,
+    body: body!
+  }));
+  return { xml, sets };
+}
+
+/**
+ * Variant entries of the written master playlist: STREAM-INF attributes and the URI line after them
+ */
+async function readVariants(): Promise<{ lines: string[]; variants: Array<{ uri: string; attributes: string }> }> {
+  const lines = (await fs.readFile(join(workDir, 'manifest.m3u8'), 'utf8')).trimEnd().split('\n');
+  const variants = lines.flatMap((line, i) => line.startsWith('#EXT-X-STREAM-INF:')
+    ? [{ attributes: line.slice('#EXT-X-STREAM-INF:'.length), uri: lines[i + 1]! }]
+    : []);
+  return { lines, variants };
+}
+
+const LADDER = ['1080p', '720p', '480p'].map(name => ENCODING_RUNGS[name]!);
+
+describe('createMasterPlaylist', () => {
+  it('describes each variant with its measured values, highest bandwidth first', async () => {
+    const low = await videoOutput('480p', 480, 1200000, { averageBitrate: 900000, codecs: 'avc1.4D401F,mp4a.40.2', frameRate: 25 });
+    const high = await videoOutput('1080p', 1080, 5500000, { averageBitrate: 4100000, codecs: 'avc1.640028,mp4a.40.2', resolution: { width: 1920, height: 800 } });
+    delete low.initSegment;
+    delete high.initSegment;
+
+    await createMasterPlaylist([low, high], workDir, LADDER);
+    const { lines, variants } = await readVariants();
+
+    expect(lines.slice(0, 2)).toEqual(['#EXTM3U', '#EXT-X-VERSION:3']);
+    expect(variants).toEqual([
+      { uri: '1080p/index.m3u8', attributes: 'BANDWIDTH=5500000,AVERAGE-BANDWIDTH=4100000,RESOLUTION=1920x800,FRAME-RATE=29.970,CODECS="avc1.640028,mp4a.40.2"' },
+      { uri: '480p/index.m3u8', attributes: 'BANDWIDTH=1200000,AVERAGE-BANDWIDTH=900000,RESOLUTION=853x480,FRAME-RATE=25.000,CODECS="avc1.4D401F,mp4a.40.2"' }
+    ]);
+  });
+
+  it('falls back to the ladder for unmeasured renditions and drops unknown ones', async () => {
+    const unmeasured = (profile: string): EncodedOutput => ({ profile, path: '', size: 0, duration: 0, segments: [] });
+
+    await createMasterPlaylist([unmeasured('720p'), unmeasured('mystery')], workDir, LADDER);
+    const { variants } = await readVariants();
+
+    // maxrate 2996k + 128k audio plus 10% MPEG-TS overhead
+    expect(variants).toEqual([
+      { uri: '720p/index.m3u8', attributes: 'BANDWIDTH=3436400,RESOLUTION=1280x720,CODECS="avc1.640028,mp4a.40.2"' }
+    ]);
+  });
+
+  it('lists H.264 variants before HEVC and AV1 and never borrows H.264 ladder values for them', async () => {
+    const outputs = [
+      await videoOutput('720p_av1', 720, 1500000, { videoCodec: 'av1', codecs: 'av01.0.08M.08,mp4a.40.2' }),
+      await videoOutput('720p_hevc', 720, 1800000, { videoCodec: 'hevc', codecs: 'hvc1.1.6.L93.B0,mp4a.40.2' }),
+      await videoOutput('480p', 480, 1200000),
+      await videoOutput('1080p', 1080, 5500000),
+      { profile: '1080p_hevc', path: '', size: 0, duration: 0, segments: [], videoCodec: 'hevc' }
+    ];
+
+    await createMasterPlaylist(outputs, workDir, LADDER);
+    const { variants } = await readVariants();
+
+    expect(variants.map(variant => variant.uri)).toEqual(['1080p/index.m3u8', '480p/index.m3u8', '720p_hevc/index.m3u8', '720p_av1/index.m3u8']);
+    expect(variants[2]!.attributes).toContain('CODECS="hvc1.1.6.L93.B0,mp4a.40.2"');
+  });
+
+  it('points every variant at one SUBTITLES group', async () => {
+    const subtitles: SubtitleRendition[] = [
+      { language: 'en', name: 'English', playlist: 'subs/en_0/index.m3u8', vtt: 'subs/en_0/subtitles.vtt', source: 'embedded' },
+      { language: 'pt-BR', name: 'Português "BR"', playlist: 'subs/pt-BR_1/index.m3u8', vtt: 'subs/pt-BR_1/subtitles.vtt', source: 'external' }
+    ];
+
+    await createMasterPlaylist([await videoOutput('720p', 720, 3000000), await videoOutput('480p', 480, 1200000)], workDir, LADDER, subtitles);
+    const { lines, variants } = await readVariants();
+
+    expect(lines.filter(line => line.startsWith('#EXT-X-MEDIA:'))).toEqual([
+      '#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="English",LANGUAGE="en",DEFAULT=NO,AUTOSELECT=YES,URI="subs/en_0/index.m3u8"',
+      '#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="Português \'BR\'",LANGUAGE="pt-BR",DEFAULT=NO,AUTOSELECT=YES,URI="subs/pt-BR_1/index.m3u8"'
+    ]);
+    expect(variants.every(variant => variant.attributes.endsWith(',SUBTITLES="subs"'))).toBe(true);
+  });
+
+  it('muxes the default track and links alternate tracks from the AUDIO group', async () => {
+    const alternate = await audioRendition('es_1', 'es', 'Español', false);
+    const audio: AudioRendition[] = [{ sourceTrack: 0, language: 'en', name: 'English', default: true }, alternate];
+
+    await createMasterPlaylist([await videoOutput('720p', 720, 3000000)], workDir, LADDER, [], audio);
+    const { lines, variants } = await readVariants();
+
+    expect(lines.filter(line => line.startsWith('#EXT-X-MEDIA:'))).toEqual([
+      '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="English",LANGUAGE="en",DEFAULT=YES,AUTOSELECT=YES',
+      '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="Español",LANGUAGE="es",DEFAULT=NO,AUTOSELECT=YES,URI="audio/es_1/index.m3u8"'
+    ]);
+    // Playing the alternate track fetches its segments on top of the variant's
+    expect(variants[0]!.attributes).toMatch(/^BANDWIDTH=3140000,/);
+    expect(variants[0]!.attributes).toContain('AUDIO="aud"');
+  });
+
+  it('declares version 7 for fMP4 renditions', async () => {
+    await createMasterPlaylist([await videoOutput('720p', 720, 3000000)], workDir, LADDER);
+    const { lines } = await readVariants();
+
+    expect(lines[1]).toBe('#EXT-X-VERSION:7');
+  });
+});
+
+describe('createDashManifest', () => {
+  it('writes video, audio and text in separate adaptation sets', async () => {
+    const outputs = [await videoOutput('480p', 480, 1200000), await videoOutput('1080p', 1080, 5500000)];
+    const audio = [await audioRendition('en_0', 'en', 'English', true), await audioRendition('es_1', 'es', 'Español', false)];
+    const subtitles: SubtitleRendition[] = [
+      { language: 'en', name: 'English', playlist: 'subs/en_0/index.m3u8', vtt: 'subs/en_0/subtitles.vtt', source: 'embedded' }
+    ];
+
+    await expect(createDashManifest(outputs, workDir, subtitles, audio)).resolves.toBe(true);
+    const { xml, sets } = await readMpd();
+
+    expect(sets.map(set => set.contentType)).toEqual(['video', 'audio', 'audio', 'text']);
+    expect(new Set(sets.map(set => set.attributes.match(/id="(\d+)"/)![1])).size).toBe(sets.length);
+
+    const [video, main, alternate, text] = sets;
+    expect(video!.body).not.toContain('mp4a');
+    expect([...video!.body.matchAll(/<Representation id="(\w+)"/g)].map(match => match[1])).toEqual(['1080p', '480p']);
+    expect(video!.body).toContain('frameRate="30000/1001"');
+
+    expect(main!.attributes).toContain('lang="en"');
+    expect(main!.body).toContain('<Role schemeIdUri="urn:mpeg:dash:role:2011" value="main"/>');
+    expect(main!.body).toContain('codecs="mp4a.40.2"');
+    expect(main!.body).toContain('media="audio/en_0/en_0_$Number$.m4s"');
+    expect(alternate!.body).toContain('value="alternate"');
+    expect(alternate!.body).toContain('<Label>Español</Label>');
+
+    expect(text!.attributes).toContain('mimeType="text/vtt"');
+    expect(text!.body).toContain('<BaseURL>subs/en_0/subtitles.vtt</BaseURL>');
+
+    // 6 + 6 + 3.5 as a run-length timeline
+    expect(xml).toContain('<S d="6000" r="1"/>');
+    expect(xml).toContain('<S d="3500"/>');
+    expect(xml).toContain('mediaPresentationDuration="PT15.500S"');
+  });
+
+  it('keeps HDR10 renditions in their own adaptation set', async () => {
+    const outputs = [
+      await videoOutput('1080p', 1080, 5500000),
+      await videoOutput('1080p_hdr10', 1080, 7000000, { videoRange: 'PQ', videoCodec: 'hevc', codecs: 'hvc1.2.4.L120.B0' })
+    ];
+
+    await expect(createDashManifest(outputs, workDir)).resolves.toBe(true);
+    const { sets } = await readMpd();
+
+    expect(sets).toHaveLength(2);
+    expect(sets[0]!.body).not.toContain('TransferCharacteristics');
+    expect(sets[1]!.body).toContain('urn:mpeg:mpegB:cicp:TransferCharacteristics" value="16"');
+  });
+
+  it('escapes track names and languages', async () => {
+    const outputs = [await videoOutput('720p', 720, 3000000)];
+    const audio = [await audioRendition('en_0', 'en', 'Director\'s "cut" & <commentary>', true)];
+
+    await expect(createDashManifest(outputs, workDir, [], audio)).resolves.toBe(true);
+    const { xml } = await readMpd();
+
+    expect(xml).toContain('<Label>Director\'s &quot;cut&quot; &amp; &lt;commentary&gt;</Label>');
+  });
+
+  it('refuses MPEG-TS renditions and audio muxed into the video', async () => {
+    const ts = await videoOutput('720p', 720, 3000000);
+    delete ts.initSegment;
+    await expect(createDashManifest([ts], workDir)).resolves.toBe(false);
+
+    const muxed: AudioRendition = { sourceTrack: 0, language: 'en', name: 'English', default: true };
+    await expect(createDashManifest([await videoOutput('480p', 480, 1200000)], workDir, [], [muxed])).resolves.toBe(false);
+
+    await expect(fs.access(join(workDir, 'manifest.mpd'))).rejects.toThrow();
+  });
+});
+
+describe('formatDashFrameRate', () => {
+  it('writes NTSC rates as fractions', () => {
+    expect(formatDashFrameRate(30)).toBe('30');
+    expect(formatDashFrameRate(29.97)).toBe('30000/1001');
+    expect(formatDashFrameRate(59.94)).toBe('60000/1001');
+    expect(formatDashFrameRate(23.976)).toBe('24000/1001');
+    expect(formatDashFrameRate(12.5)).toBe('12500/1000');
+  });
+});
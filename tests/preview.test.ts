@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { FileProbeResult } from '../src/types/index.js';
+
+vi.mock('../src/services/Logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+}));
+
+// ffmpeg isn't spawned: it fails like a missing binary unless a test hands back output
+const runFfmpeg = vi.hoisted(() => vi.fn());
+vi.mock('../src/services/encoding/ffmpeg.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/services/encoding/ffmpeg.js')>(),
+  runFfmpeg
+}));
+
+const { getToneMapFilter } = await import('../src/services/encoding/ffmpeg.js');
+const { generatePreviewClip, getPreviewWindows } = await import('../src/services/encoding/preview.js');
+
+let workDir: string;
+
+beforeEach(async () => {
+  workDir = await fs.mkdtemp(join(tmpdir(), 'preview-test-'));
+  runFfmpeg.mockReset().mockRejectedValue(new Error('spawn ffmpeg ENOENT'));
+});
+
+afterEach(async () => {
+  await fs.rm(workDir, { recursive: true, force: true });
+});
+
+describe('getPreviewWindows', () => {
+  it('spreads six windows from 10% to 80% of the video', () => {
+    expect(getPreviewWindows(100, 4)).toEqual([10, 24, 38, 52, 66, 80]);
+  });
+
+  it('keeps every window inside the video', () => {
+    const windows = getPreviewWindows(9, 4);
+    expect(windows.every(start => start + 4 <= 9)).toBe(true);
+    expect(windows.at(-1)).toBe(5);
+  });
+});
+
+describe('generatePreviewClip', () => {
+  it('skips sources without a probed duration', async () => {
+    await expect(generatePreviewClip(join(workDir, 'source.mp4'), workDir, null, false, 4, undefined, 'job-1')).resolves.toBeNull();
+    await expect(fs.readdir(workDir)).resolves.toEqual([]);
+  });
+
+  it('continues without a preview and leaves no partial directory when ffmpeg fails', async () => {
+    const probe = { duration: 120, framerate: 30 } as FileProbeResult;
+
+    await expect(generatePreviewClip(join(workDir, 'missing.mp4'), workDir, probe, false, 4, undefined, 'job-1')).resolves.toBeNull();
+    await expect(fs.readdir(workDir)).resolves.toEqual([]);
+  });
+
+  it('tone maps HDR sources for scoring and for both clips', async () => {
+    runFfmpeg.mockResolvedValue([]);
+    const probe = { duration: 120, framerate: 30 } as FileProbeResult;
+
+    const clip = await generatePreviewClip(join(workDir, 'source.mp4'), workDir, probe, false, 4, 'smpte2084', 'job-1');
+
+    expect(clip).toMatchObject({ mp4: 'preview/preview.mp4', webp: 'preview/preview.webp' });
+    const filters = runFfmpeg.mock.calls.map(([command]) => {
+      const args: string[] = command._getArguments();
+      return args[args.indexOf('-filter:v') + 1];
+    });
+    expect(filters).toHaveLength(8); // Six scored windows, the MP4 and the WebP
+    expect(filters.every(filter => filter?.startsWith(`${getToneMapFilter('smpte2084')},`))).toBe(true);
+  });
+});
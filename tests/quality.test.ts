@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { EncodedOutput } from '../src/types/index.js';
+import { createJobCancelledError } from '../src/common/errorUtils.js';
+
+vi.mock('../src/services/Logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+}));
+
+// ffmpeg isn't spawned: tests hand back the metric lines it would print
+const runFfmpeg = vi.hoisted(() => vi.fn());
+vi.mock('../src/services/encoding/ffmpeg.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/services/encoding/ffmpeg.js')>(),
+  runFfmpeg
+}));
+
+const { measureQuality } = await import('../src/services/encoding/quality.js');
+
+let workDir: string;
+
+beforeEach(async () => {
+  workDir = await fs.mkdtemp(join(tmpdir(), 'quality-test-'));
+  runFfmpeg.mockReset();
+});
+
+afterEach(async () => {
+  await fs.rm(workDir, { recursive: true, force: true });
+});
+
+async function rendition(profile: string, durations: number[], extra: Partial<EncodedOutput> = {}): Promise<EncodedOutput> {
+  const dir = join(workDir, profile);
+  await fs.mkdir(dir, { recursive: true });
+  const lines = ['#EXTM3U', ...durations.flatMap((duration, i) => [`#EXTINF:${duration},`, `${profile}_${i}.ts`]), '#EXT-X-ENDLIST'];
+  await fs.writeFile(join(dir, 'index.m3u8'), lines.join('\n'));
+  const playlist = join(dir, 'index.m3u8');
+  return { profile, path: playlist, playlist, size: 0, duration: 0, segments: [], ...extra };
+}
+
+function metrics(ssim: number, psnr: number | 'inf', vmaf?: number): string[] {
+  return [
+    `[Parsed_ssim_2 @ 0x55] SSIM Y:0.98 U:0.99 V:0.99 All:${ssim} (17.2)`,
+    `[Parsed_psnr_3 @ 0x55] PSNR y:40.1 u:44.0 v:44.2 average:${psnr} min:35.1 max:48.0`,
+    ...(vmaf !== undefined ? [`[Parsed_libvmaf_4 @ 0x55] VMAF score: ${vmaf}`] : [])
+  ];
+}
+
+const PROFILES = [{ name: '720p', width: 1280, height: 720, frameRate: '30' }, { name: '480p', width: 854, height: 480, frameRate: '30' }];
+const OPTIONS = { floorVmaf: 80, floorSsim: 0.95, vmaf: true };
+
+describe('measureQuality', () => {
+  it('averages the first, middle and last segments against the matching source span', async () => {
+    const output = await rendition('720p', [6, 6, 6, 6, 4]);
+    runFfmpeg
+      .mockResolvedValueOnce(metrics(0.97, 41, 92))
+      .mockResolvedValueOnce(metrics(0.96, 'inf', 90))
+      .mockResolvedValueOnce(metrics(0.98, 39, 94));
+
+    await measureQuality('source.mp4', [output], PROFILES, null, OPTIONS, 'job-1');
+
+    expect(output.quality).toEqual({ ssim: 0.97, psnr: 60, vmaf: 92, sampledSegments: 3, belowFloor: false });
+    const seeks = runFfmpeg.mock.calls.map(([command]) => command._getArguments().join(' ').match(/-ss ([\d.]+) -t ([\d.]+)/)!.slice(1));
+    expect(seeks).toEqual([['0.000', '6.000'], ['12.000', '6.000'], ['24.000', '4.000']]);
+    expect(runFfmpeg.mock.calls[0]![0]._getArguments().join(' ')).toContain('scale=1280:720,fps=30');
+  });
+
+  it('flags renditions below the VMAF floor, or the SSIM floor without libvmaf', async () => {
+    const withVmaf = await rendition('720p', [6]);
+    const withoutVmaf = await rendition('480p', [6]);
+    runFfmpeg.mockResolvedValueOnce(metrics(0.99, 45, 79.5)).mockResolvedValueOnce(metrics(0.94, 38));
+
+    await measureQuality('source.mp4', [withVmaf, withoutVmaf], PROFILES, null, { ...OPTIONS, vmaf: false }, 'job-1');
+
+    expect(withVmaf.quality?.belowFloor).toBe(true);
+    expect(withoutVmaf.quality).toEqual({ ssim: 0.94, psnr: 38, sampledSegments: 1, belowFloor: true });
+    expect(runFfmpeg.mock.calls[1]![0]._getArguments().join(' ')).not.toContain('libvmaf');
+  });
+
+  it('scores extra codec rungs like their H.264 rung and skips HDR10 and unplanned outputs', async () => {
+    const hevc = await rendition('480p_hevc', [6], { videoCodec: 'hevc' });
+    const hdr = await rendition('720p_hdr10', [6], { videoRange: 'PQ' });
+    const unknown = await rendition('audio_128k', [6]);
+    runFfmpeg.mockResolvedValue(metrics(0.99, 45, 95));
+
+    await measureQuality('source.mp4', [hevc, hdr, unknown], PROFILES, null, OPTIONS, 'job-1');
+
+    expect(hevc.quality?.vmaf).toBe(95);
+    expect(runFfmpeg.mock.calls[0]![0]._getArguments().join(' ')).toContain('scale=854:480');
+    expect(hdr.quality).toBeUndefined();
+    expect(unknown.quality).toBeUndefined();
+    expect(runFfmpeg).toHaveBeenCalledOnce();
+  });
+
+  it('leaves failed renditions unscored but stops at a cancellation', async () => {
+    const output = await rendition('720p', [6]);
+    runFfmpeg.mockRejectedValueOnce(new Error('No such filter: libvmaf'));
+    await expect(measureQuality('source.mp4', [output], PROFILES, null, OPTIONS, 'job-1')).resolves.toBeUndefined();
+    expect(output.quality).toBeUndefined();
+
+    runFfmpeg.mockRejectedValueOnce(createJobCancelledError('job-1'));
+    await expect(measureQuality('source.mp4', [output], PROFILES, null, OPTIONS, 'job-1')).rejects.toThrow(/JOB_CANCELLED/);
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { FileProbeResult } from '../src/types/index.js';
+import { createJobCancelledError } from '../src/common/errorUtils.js';
+
+vi.mock('../src/services/Logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+}));
+
+const { addTimestampMap, buildSubtitlePlaylist, extractSubtitles, getMpegtsStart } = await import('../src/services/encoding/subtitles.js');
+
+let workDir: string;
+
+beforeEach(async () => {
+  workDir = await fs.mkdtemp(join(tmpdir(), 'subtitles-test-'));
+});
+
+afterEach(async () => {
+  await fs.rm(workDir, { recursive: true, force: true });
+});
+
+describe('buildSubtitlePlaylist', () => {
+  it('lists the whole WebVTT file as one segment', () => {
+    expect(buildSubtitlePlaylist(93.4).split('\n')).toEqual([
+      '#EXTM3U',
+      '#EXT-X-VERSION:3',
+      '#EXT-X-TARGETDURATION:94',
+      '#EXT-X-PLAYLIST-TYPE:VOD',
+      '#EXTINF:93.400,',
+      'subtitles.vtt',
+      '#EXT-X-ENDLIST',
+      ''
+    ]);
+    expect(buildSubtitlePlaylist(0)).toContain('#EXT-X-TARGETDURATION:1\n');
+  });
+});
+
+describe('X-TIMESTAMP-MAP', () => {
+  it('maps cue time 0 to the first TS timestamp in the WebVTT header', () => {
+    const vtt = 'WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nHello\n';
+
+    expect(addTimestampMap(vtt, 126000)).toBe('WEBVTT\nX-TIMESTAMP-MAP=MPEGTS:126000,LOCAL:00:00:00.000\n\n00:00:01.000 --> 00:00:02.000\nHello\n');
+  });
+
+  it("falls back to ffmpeg's 1.4s TS start when the first segment can't be probed", async () => {
+    await fs.writeFile(join(workDir, 'index.m3u8'), '#EXTM3U\n#EXTINF:6.000,\n720p_0.ts\n#EXT-X-ENDLIST\n');
+
+    await expect(getMpegtsStart(join(workDir, 'index.m3u8'))).resolves.toBe(126000);
+    await expect(getMpegtsStart(join(workDir, 'missing.m3u8'))).resolves.toBe(126000);
+  });
+});
+
+describe('extractSubtitles', () => {
+  const source = () => join(workDir, 'source.mp4');
+
+  it('skips bitmap subtitle streams without touching the output', async () => {
+    const probe = { extraStreams: [{ index: 2, type: 'subtitle', codec: 'hdmv_pgs_subtitle' }, { index: 3, type: 'data' }] } as FileProbeResult;
+    const download = vi.fn();
+
+    await expect(extractSubtitles(source(), workDir, probe, [], 60, false, null, download, 'job-1')).resolves.toEqual([]);
+    expect(download).not.toHaveBeenCalled();
+    await expect(fs.readdir(workDir)).resolves.toEqual([]);
+  });
+
+  it('fetches external tracks by CID and drops the ones that fail', async () => {
+    const download = vi.fn().mockRejectedValue(new Error('504 Gateway Timeout'));
+
+    const subtitles = await extractSubtitles(source(), workDir, null, [{ cid: 'QmSubs', language: 'es', label: 'Español' }], 60, false, null, download, 'job-1');
+
+    expect(subtitles).toEqual([]);
+    expect(download).toHaveBeenCalledWith('https://ipfs.3speak.tv/ipfs/QmSubs', join(workDir, 'subs', 'es_0', 'source.sub'), undefined);
+    await expect(fs.readdir(join(workDir, 'subs'))).resolves.toEqual([]);
+  });
+
+  it('stops at a cancellation instead of skipping the track', async () => {
+    const download = vi.fn().mockRejectedValue(createJobCancelledError('job-1'));
+
+    await expect(extractSubtitles(source(), workDir, null, [{ cid: 'QmSubs', language: 'en' }], 60, false, null, download, 'job-1'))
+      .rejects.toThrow(/JOB_CANCELLED/);
+  });
+});
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { EncodedOutput } from '../src/types/index.js';
+
+vi.mock('../src/services/Logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+}));
+
+const { buildThumbnailVtt, generateThumbnails } = await import('../src/services/encoding/thumbnails.js');
+
+let workDir: string;
+
+beforeEach(async () => {
+  workDir = await fs.mkdtemp(join(tmpdir(), 'thumbnails-test-'));
+});
+
+afterEach(async () => {
+  await fs.rm(workDir, { recursive: true, force: true });
+});
+
+describe('buildThumbnailVtt', () => {
+  it('walks each 10x10 sheet left to right, top to bottom', () => {
+    const { vtt, cues } = buildThumbnailVtt(25, 2, ['sprite_1.jpg'], 160, 90);
+    const lines = vtt.split('\n');
+
+    expect(cues).toBe(13);
+    expect(lines.slice(0, 6)).toEqual([
+      'WEBVTT',
+      '',
+      '00:00:00.000 --> 00:00:02.000',
+      'sprite_1.jpg#xywh=0,0,160,90',
+      '',
+      '00:00:02.000 --> 00:00:04.000'
+    ]);
+    expect(vtt).toContain('00:00:20.000 --> 00:00:22.000\nsprite_1.jpg#xywh=0,90,160,90\n');
+    // The last cue ends with the video, not on the interval
+    expect(vtt.endsWith('00:00:24.000 --> 00:00:25.000\nsprite_1.jpg#xywh=320,90,160,90\n')).toBe(true);
+  });
+
+  it('moves on to the next sheet after 100 thumbnails and stops when the sheets run out', () => {
+    const { vtt, cues } = buildThumbnailVtt(1000, 4, ['sprite_1.jpg', 'sprite_2.jpg'], 160, 68);
+
+    expect(cues).toBe(200);
+    expect(vtt).toContain('00:06:40.000 --> 00:06:44.000\nsprite_2.jpg#xywh=0,0,160,68\n');
+    expect(vtt).toContain('00:13:16.000 --> 00:13:20.000\nsprite_2.jpg#xywh=1440,612,160,68\n');
+    expect(vtt).not.toContain('sprite_3');
+  });
+});
+
+describe('generateThumbnails', () => {
+  const master = (fields: Partial<EncodedOutput>): EncodedOutput => ({ profile: '1080p', path: '', size: 0, duration: 0, segments: [], ...fields });
+
+  it('skips renditions that were never measured', async () => {
+    await expect(generateThumbnails(join(workDir, 'source.mp4'), workDir, master({ duration: 60 }), undefined, 'job-1')).resolves.toBeNull();
+    await expect(fs.readdir(workDir)).resolves.toEqual([]);
+  });
+
+  it('continues without thumbnails and leaves no partial directory when ffmpeg fails', async () => {
+    const measured = master({ duration: 60, resolution: { width: 1920, height: 1080 } });
+
+    await expect(generateThumbnails(join(workDir, 'missing.mp4'), workDir, measured, undefined, 'job-1')).resolves.toBeNull();
+    await expect(fs.readdir(workDir)).resolves.toEqual([]);
+  });
+});